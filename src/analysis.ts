@@ -0,0 +1,248 @@
+// Prompt classifier. Pure and host-independent so it can be unit-tested
+// (and reused) outside the VS Code extension host.
+
+import { ChatRole, ConversationFormat, conversationText, parseConversation } from './conversation';
+import { resolveTargetProfile, TargetModelProfile } from './targetModels';
+
+export type PromptType = 'coding' | 'explanation' | 'creative' | 'analysis' | 'transformation' | 'general';
+export type PromptComplexity = 'simple' | 'medium' | 'complex';
+
+export const PROMPT_TYPES: PromptType[] = ['coding', 'explanation', 'creative', 'analysis', 'transformation', 'general'];
+
+export interface PromptFeatures {
+    length: number;
+    wordCount: number;
+    instructionCount: number;
+    constraintCount: number;
+    outputFormatRequests: number;
+    codeBlocks: number;
+    listItems: number;
+    hasRole: boolean;
+    hasExamples: boolean;
+    mentionsSteps: boolean;
+}
+
+export interface TypeScore {
+    type: PromptType;
+    score: number;
+    // Share of the total score, 0..1
+    confidence: number;
+    reasons: string[];
+}
+
+export interface TechniqueChoice {
+    id: string;
+    reason: string;
+}
+
+export interface PromptAnalysis {
+    type: PromptType;
+    complexity: PromptComplexity;
+    techniques: string[];
+    confidence: number;
+    // Every type that scored, best first
+    scores: TypeScore[];
+    complexityScore: number;
+    complexityReasons: string[];
+    techniqueReasons: TechniqueChoice[];
+    features: PromptFeatures;
+    // Set for chat-message prompts (JSON, YAML or markdown role sections)
+    conversation?: { format: ConversationFormat; roles: ChatRole[] };
+    // Set when the prompt is optimized for a specific model
+    target?: { model: string; profile?: string };
+}
+
+interface Signal {
+    pattern: RegExp;
+    weight: number;
+    reason: string;
+}
+
+const TYPE_SIGNALS: Record<Exclude<PromptType, 'general'>, Signal[]> = {
+    coding: [
+        { pattern: /\b(write|create|implement|build|generate)\b[^.\n]{0,30}\b(function|class|method|script|program|api|endpoint|query|test)s?\b/, weight: 3, reason: 'asks to implement code' },
+        { pattern: /\bcode\b/, weight: 2, reason: 'mentions code' },
+        { pattern: /\b(function|program|algorithm)\b/, weight: 1.5, reason: 'mentions functions or programs' },
+        { pattern: /\b(python|typescript|javascript|java|rust|golang|c\+\+|c#|sql|regex|bash|html|css)\b/, weight: 2, reason: 'names a programming language' },
+        { pattern: /\b(bug|debug|refactor|compile|stack trace|exception|unit tests?)\b/, weight: 2, reason: 'uses software engineering terms' }
+    ],
+    explanation: [
+        { pattern: /\bexplain\b/, weight: 2.5, reason: 'asks for an explanation' },
+        { pattern: /\b(what is|what are|how does|how do|why does|why do)\b/, weight: 2, reason: 'asks a what/how/why question' },
+        { pattern: /\b(describe|teach|help me understand|eli5)\b/, weight: 1.5, reason: 'asks to describe or teach' }
+    ],
+    creative: [
+        { pattern: /\b(story|poem|song|lyrics|slogan|tagline|blog post|essay|novel|script for)\b/, weight: 2.5, reason: 'asks for creative writing' },
+        { pattern: /\b(write|draft|compose)\b/, weight: 1, reason: 'asks to write something' },
+        { pattern: /\b(create|generate|brainstorm|imagine|invent)\b/, weight: 1, reason: 'asks to generate ideas or content' }
+    ],
+    analysis: [
+        { pattern: /\b(analy[sz]e|analysis)\b/, weight: 2.5, reason: 'asks for analysis' },
+        { pattern: /\b(compare|contrast|versus|vs\.?)\b/, weight: 2, reason: 'asks for a comparison' },
+        { pattern: /\b(evaluate|assess|review|critique|pros and cons|trade-?offs?)\b/, weight: 2, reason: 'asks for an evaluation' }
+    ],
+    transformation: [
+        { pattern: /\btranslate\b/, weight: 3, reason: 'asks for a translation' },
+        { pattern: /\b(convert|transform|reformat|rewrite|paraphrase)\b/, weight: 2, reason: 'asks to convert or rewrite' },
+        { pattern: /\b(summari[sz]e|condense|shorten)\b/, weight: 2, reason: 'asks for a summary' }
+    ]
+};
+
+const IMPERATIVE_VERBS = new Set([
+    'write', 'create', 'generate', 'explain', 'describe', 'list', 'compare', 'analyze', 'analyse', 'evaluate',
+    'translate', 'convert', 'summarize', 'summarise', 'give', 'provide', 'make', 'build', 'implement', 'add',
+    'include', 'use', 'return', 'output', 'format', 'keep', 'avoid', 'ensure', 'check', 'find', 'identify',
+    'rewrite', 'draft', 'design', 'suggest', 'show', 'tell', 'answer', 'respond', 'fix', 'refactor', 'review'
+]);
+
+const CONSTRAINT_PATTERN = /\b(must|should|don't|do not|never|always|only|at most|at least|no more than|fewer than|less than|within|exactly|avoid|limit(ed)? to)\b/g;
+const OUTPUT_FORMAT_PATTERN = /\b(json|yaml|xml|csv|markdown|table|bullet(ed)? (points|list)|numbered list|format(ted)? as|return (it |them )?as|respond (only )?with)\b/g;
+const ROLE_PATTERN = /\b(you are|act as|acting as|as an? (expert|senior|experienced|professional)|your role)\b/;
+const EXAMPLE_PATTERN = /\b(for example|e\.g\.|example:|examples:|such as|input:|output:)/;
+const STEP_PATTERN = /\b(step|steps|process|workflow|pipeline|stages?)\b/;
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+export function extractFeatures(prompt: string): PromptFeatures {
+    const lower = prompt.toLowerCase();
+    // Sentence-ish units: split on terminators and line breaks
+    const units = lower.split(/[.!?;\n]+/).map(unit => unit.replace(/^\s*([-*•]|\d+[.)])\s*/, '').trim()).filter(Boolean);
+
+    return {
+        length: prompt.length,
+        wordCount: (prompt.match(/\S+/g) || []).length,
+        instructionCount: units.filter(unit => IMPERATIVE_VERBS.has(unit.split(/\s+/)[0]) || /^(please|you (must|should))\b/.test(unit)).length,
+        constraintCount: countMatches(lower, CONSTRAINT_PATTERN),
+        outputFormatRequests: countMatches(lower, OUTPUT_FORMAT_PATTERN),
+        codeBlocks: Math.floor(countMatches(prompt, /```/g) / 2),
+        listItems: countMatches(prompt, /^\s*([-*•]|\d+[.)])\s+/gm),
+        hasRole: ROLE_PATTERN.test(lower),
+        hasExamples: EXAMPLE_PATTERN.test(lower),
+        mentionsSteps: STEP_PATTERN.test(lower)
+    };
+}
+
+export function scorePromptTypes(prompt: string, features: PromptFeatures = extractFeatures(prompt)): TypeScore[] {
+    const lower = prompt.toLowerCase();
+    const raw = (Object.keys(TYPE_SIGNALS) as Array<keyof typeof TYPE_SIGNALS>).map(type => {
+        const matched = TYPE_SIGNALS[type].filter(signal => signal.pattern.test(lower));
+        const reasons = matched.map(signal => signal.reason);
+        let score = matched.reduce((sum, signal) => sum + signal.weight, 0);
+        if (type === 'coding' && features.codeBlocks > 0) {
+            score += 2;
+            reasons.push('contains a code block');
+        }
+        return { type: type as PromptType, score, reasons };
+    }).filter(entry => entry.score > 0);
+
+    const total = raw.reduce((sum, entry) => sum + entry.score, 0);
+    return raw
+        .map(entry => ({ ...entry, confidence: entry.score / total }))
+        .sort((a, b) => b.score - a.score);
+}
+
+export function scoreComplexity(features: PromptFeatures): { complexity: PromptComplexity; score: number; reasons: string[] } {
+    const reasons: string[] = [];
+    let score = 0;
+    const add = (points: number, reason: string) => {
+        score += points;
+        reasons.push(reason);
+    };
+
+    if (features.length > 500) {
+        add(3, 'very long prompt');
+    } else if (features.length > 200) {
+        add(2, 'long prompt');
+    } else if (features.length > 100) {
+        add(1, 'medium-length prompt');
+    }
+    if (features.mentionsSteps) {
+        add(2, 'describes a multi-step process');
+    }
+    if (features.instructionCount >= 6) {
+        add(2, `${features.instructionCount} distinct instructions`);
+    } else if (features.instructionCount >= 3) {
+        add(1, `${features.instructionCount} distinct instructions`);
+    }
+    if (features.constraintCount >= 2) {
+        add(1, `${features.constraintCount} constraints`);
+    }
+    if (features.codeBlocks > 0) {
+        add(1, 'includes code blocks');
+    }
+    if (features.listItems >= 3) {
+        add(1, `${features.listItems} list items`);
+    }
+
+    const complexity: PromptComplexity = score >= 3 ? 'complex' : score >= 1 ? 'medium' : 'simple';
+    return { complexity, score, reasons };
+}
+
+export function selectTechniques(type: PromptType, complexity: PromptComplexity, features: PromptFeatures): TechniqueChoice[] {
+    const choices: TechniqueChoice[] = [
+        { id: 'zero-shot', reason: 'Baseline: state the task directly and unambiguously' },
+        {
+            id: 'role-definition',
+            reason: features.hasRole ? 'A role is present; sharpen its expertise and context' : 'No role or persona is defined'
+        }
+    ];
+
+    if (complexity === 'complex') {
+        choices.push({ id: 'chain-of-thought', reason: 'Complex prompt benefits from step-by-step reasoning' });
+    }
+    if (type === 'coding' || type === 'creative') {
+        choices.push({ id: 'few-shot', reason: `${type} tasks benefit from concrete examples` });
+    } else if (features.outputFormatRequests > 0 && !features.hasExamples) {
+        choices.push({ id: 'few-shot', reason: 'An output format is requested but no example is given' });
+    }
+    if (type === 'analysis' || type === 'explanation') {
+        choices.push({ id: 'meta-prompting', reason: `${type} tasks benefit from reflecting on the approach` });
+    }
+    if (complexity === 'complex' && (type === 'analysis' || type === 'explanation')) {
+        choices.push({ id: 'self-consistency', reason: 'Complex reasoning benefits from cross-checking multiple perspectives' });
+    }
+
+    return choices;
+}
+
+// Drop techniques that work against the target model and add the ones it
+// responds to, keeping the reason for each change
+export function applyTargetProfile(choices: TechniqueChoice[], profile: TargetModelProfile): TechniqueChoice[] {
+    const dropped = new Set(profile.dropTechniques.map(technique => technique.id));
+    const kept = choices.filter(choice => !dropped.has(choice.id));
+    const added = profile.addTechniques.filter(technique => !kept.some(choice => choice.id === technique.id));
+    return [...kept, ...added.map(technique => ({ id: technique.id, reason: `${technique.reason} (${profile.name})` }))];
+}
+
+// Weighted multi-label classification with explanations for every decision.
+// A conversation is classified by its system and user messages together.
+// With a target model, technique selection follows that model's profile.
+export function analyzePromptType(prompt: string, targetModel?: string): PromptAnalysis {
+    const conversation = parseConversation(prompt);
+    const text = conversation ? conversationText(conversation.messages) : prompt;
+    const exampleTurns = conversation?.messages.filter(message => message.role === 'assistant').length || 0;
+    const features = { ...extractFeatures(text), ...(exampleTurns ? { hasExamples: true } : {}) };
+    const scores = scorePromptTypes(text, features);
+    const best = scores[0];
+    const type: PromptType = best ? best.type : 'general';
+    const { complexity, score: complexityScore, reasons: complexityReasons } = scoreComplexity(features);
+    const profile = resolveTargetProfile(targetModel);
+    const selected = selectTechniques(type, complexity, features);
+    const techniqueReasons = (profile ? applyTargetProfile(selected, profile) : selected).map(choice => choice.id === 'few-shot' && exampleTurns
+        ? { id: choice.id, reason: `Keep the ${exampleTurns} assistant turn${exampleTurns === 1 ? '' : 's'} as few-shot examples` }
+        : choice);
+
+    return {
+        type,
+        complexity,
+        techniques: techniqueReasons.map(choice => choice.id),
+        confidence: best ? best.confidence : 1,
+        scores,
+        complexityScore,
+        complexityReasons,
+        techniqueReasons,
+        features,
+        ...(conversation ? { conversation: { format: conversation.format, roles: conversation.messages.map(message => message.role) } } : {}),
+        ...(targetModel?.trim() ? { target: { model: targetModel.trim(), ...(profile ? { profile: profile.name } : {}) } } : {})
+    };
+}
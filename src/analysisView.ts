@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { applyTargetProfile, PROMPT_TYPES, PromptAnalysis, PromptType, selectTechniques } from './analysis';
+import { resolveTargetProfile } from './targetModels';
+import { TemplateLibrary } from './templates';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Show the classifier's reasoning and let the user override type and techniques.
+// Resolves to undefined when the user cancels.
+export async function reviewAnalysis(analysis: PromptAnalysis, library: TemplateLibrary): Promise<PromptAnalysis | undefined> {
+    const scored = new Map(analysis.scores.map(score => [score.type, score]));
+    const typeItems = [...analysis.scores.map(score => score.type), ...PROMPT_TYPES.filter(type => !scored.has(type))]
+        .map(type => {
+            const score = scored.get(type);
+            return {
+                label: type,
+                description: score ? `${percent(score.confidence)} confidence` : type === 'general' && !analysis.scores.length ? 'no signals found' : undefined,
+                detail: score?.reasons.join(' · '),
+                picked: type === analysis.type
+            };
+        });
+
+    const pickedType = await vscode.window.showQuickPick(typeItems, {
+        title: `Prompt Analysis (1/2): type — ${analysis.complexity} complexity${analysis.conversation ? `, ${analysis.conversation.roles.length}-message conversation` : ''}`,
+        placeHolder: `Detected "${analysis.type}" (${percent(analysis.confidence)}). ${analysis.complexityReasons.join(', ') || 'short, single instruction'}`
+    });
+    if (!pickedType) {
+        return undefined;
+    }
+
+    const type = pickedType.label as PromptType;
+    // Re-derive the suggestions when the type was overridden
+    const profile = resolveTargetProfile(analysis.target?.model);
+    const selected = type === analysis.type ? analysis.techniqueReasons : selectTechniques(type, analysis.complexity, analysis.features);
+    const choices = profile && type !== analysis.type ? applyTargetProfile(selected, profile) : selected;
+    const reasons = new Map(choices.map(choice => [choice.id, choice.reason]));
+
+    const techniqueIds = [...new Set([...choices.map(choice => choice.id), ...library.techniques.keys()])];
+    const pickedTechniques = await vscode.window.showQuickPick(techniqueIds.map(id => ({
+        label: id,
+        description: library.techniques.get(id)?.name,
+        detail: reasons.get(id) || library.techniques.get(id)?.description,
+        picked: reasons.has(id)
+    })), {
+        title: `Prompt Analysis (2/2): techniques${analysis.target ? ` for ${analysis.target.model}` : ''}`,
+        placeHolder: 'Select the techniques to apply',
+        canPickMany: true
+    });
+    if (!pickedTechniques) {
+        return undefined;
+    }
+
+    const techniques = pickedTechniques.map(item => item.label);
+    return {
+        ...analysis,
+        type,
+        techniques,
+        techniqueReasons: techniques.map(id => ({ id, reason: reasons.get(id) || 'Selected manually' }))
+    };
+}
@@ -0,0 +1,27 @@
+// One place the legacy plaintext `promptious.apiKey` setting can be defined:
+// user, workspace or a single workspace folder
+export interface PlaintextKeySetting {
+    value: string | undefined;
+    clear(): PromiseLike<void>;
+}
+
+// Store the most specific plaintext key unless a secret already exists, then blank
+// the setting everywhere it was defined so it stops being synced
+export async function movePlaintextKey(
+    settings: PlaintextKeySetting[],
+    hasStoredKey: () => PromiseLike<boolean>,
+    storeKey: (apiKey: string) => PromiseLike<void>
+): Promise<boolean> {
+    const defined = settings.filter(setting => setting.value);
+    if (defined.length === 0) {
+        return false;
+    }
+
+    if (!(await hasStoredKey())) {
+        await storeKey(defined[0].value as string);
+    }
+    for (const setting of defined) {
+        await setting.clear();
+    }
+    return true;
+}
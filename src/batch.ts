@@ -0,0 +1,147 @@
+import { ProviderError } from './providers';
+import { backoffDelay, sleep } from './providers/http';
+import { PromptSpanKind } from './promptExtraction';
+import { formatCost } from './pricing';
+import { compareQuality, formatQualityChange, scorePrompt } from './quality';
+import { BudgetExceededError } from './usage';
+
+export interface BatchOptions {
+    concurrency: number;
+    signal?: AbortSignal;
+    // Extra attempts for a prompt that still hits a rate limit after the HTTP retries
+    maxRateLimitRetries?: number;
+    onProgress?(done: number, total: number): void;
+}
+
+export type BatchOutcome<R> = { result: R; error?: undefined } | { result?: undefined; error: string };
+
+const DEFAULT_RATE_LIMIT_RETRIES = 3;
+
+// Run `fn` over every item with at most `concurrency` calls in flight. A rate
+// limit pauses all workers until the server's Retry-After has passed and drops
+// one worker for the rest of the batch. Cancellation and budget stops end the
+// whole batch; any other failure is recorded for its item only.
+export async function runBatch<T, R>(items: T[], fn: (item: T, index: number) => Promise<R>, options: BatchOptions): Promise<Array<BatchOutcome<R>>> {
+    const outcomes: Array<BatchOutcome<R>> = new Array(items.length);
+    const maxRetries = options.maxRateLimitRetries ?? DEFAULT_RATE_LIMIT_RETRIES;
+    let limit = Math.max(1, Math.min(options.concurrency, items.length));
+    let pausedUntil = 0;
+    let next = 0;
+    let done = 0;
+    let stopped = false;
+
+    const runItem = async (index: number) => {
+        for (let attempt = 0; ; attempt++) {
+            const wait = pausedUntil - Date.now();
+            if (wait > 0) {
+                await sleep(wait, options.signal);
+            }
+            try {
+                return { result: await fn(items[index], index) };
+            } catch (error) {
+                if (error instanceof ProviderError && error.kind === 'cancelled' || error instanceof BudgetExceededError) {
+                    throw error;
+                }
+                if (error instanceof ProviderError && error.kind === 'rateLimit' && attempt < maxRetries) {
+                    limit = Math.max(1, limit - 1);
+                    pausedUntil = Math.max(pausedUntil, Date.now() + (error.retryAfterMs ?? backoffDelay(attempt + 2)));
+                    continue;
+                }
+                return { error: error instanceof Error ? error.message : String(error) };
+            }
+        }
+    };
+
+    const worker = async (slot: number) => {
+        while (!stopped && slot < limit && next < items.length) {
+            const index = next++;
+            try {
+                outcomes[index] = await runItem(index);
+            } catch (error) {
+                stopped = true;
+                throw error;
+            }
+            options.onProgress?.(++done, items.length);
+        }
+    };
+
+    await Promise.all(Array.from({ length: limit }, (_, slot) => worker(slot)));
+    return outcomes;
+}
+
+export interface BatchEntry {
+    file: string;
+    // 1-based line of the prompt
+    line: number;
+    kind: PromptSpanKind;
+    name?: string;
+    original: string;
+    optimized?: string;
+    error?: string;
+    // Optimized, but with placeholders that still differ from the original
+    warning?: string;
+    totalTokens?: number;
+    cost?: number;
+}
+
+export interface BatchReport {
+    timestamp: string;
+    include: string;
+    provider: string;
+    model: string;
+    entries: BatchEntry[];
+}
+
+const KIND_LABELS: Record<PromptSpanKind, string> = { file: 'Prompt file', fence: 'Code fence', string: 'String literal' };
+
+export function describeEntry(entry: BatchEntry): string {
+    return `${entry.file}:${entry.line}${entry.name ? ` (${entry.name})` : ''}`;
+}
+
+// Dry-run summary: what would change, and at what cost
+export function batchToMarkdown(report: BatchReport): string {
+    const optimized = report.entries.filter(entry => entry.optimized !== undefined);
+    const failed = report.entries.filter(entry => entry.error);
+    const costs = optimized.map(entry => entry.cost).filter((cost): cost is number => cost !== undefined);
+    const cost = costs.length ? costs.reduce((sum, value) => sum + value, 0) : undefined;
+    const tokens = optimized.reduce((sum, entry) => sum + (entry.totalTokens || 0), 0);
+
+    const quality = (entry: BatchEntry) => entry.optimized !== undefined
+        ? formatQualityChange(compareQuality(scorePrompt(entry.original), scorePrompt(entry.optimized)))
+        : '—';
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+    const rows = report.entries.map(entry =>
+        `| \`${describeEntry(entry)}\` | ${KIND_LABELS[entry.kind]} | ${entry.original.length} | ${entry.optimized?.length ?? '—'} | ${quality(entry)} | ${entry.error ? `❌ ${cell(entry.error)}` : entry.warning ? `⚠️ ${cell(entry.warning)}` : '✅'} |`);
+    const details = optimized.map(entry => `### ${describeEntry(entry)}
+
+**Original**
+
+\`\`\`\`text
+${entry.original}
+\`\`\`\`
+
+**Optimized**
+
+\`\`\`\`text
+${entry.optimized}
+\`\`\`\``);
+
+    return `# Batch Optimization (dry run)
+
+- **Date:** ${report.timestamp}
+- **Files:** \`${report.include}\`
+- **Provider:** ${report.provider} (${report.model})
+- **Prompts:** ${report.entries.length} found, ${optimized.length} optimized, ${failed.length} failed
+- **Usage:** ${tokens} tokens · ${formatCost(cost)}
+
+No files were changed.
+
+| Prompt | Kind | Chars before | Chars after | Quality | Status |
+| --- | --- | --- | --- | --- | --- |
+${rows.join('\n')}
+
+## Proposed changes
+
+${details.join('\n\n') || '_None_'}
+`;
+}
@@ -0,0 +1,313 @@
+import * as vscode from 'vscode';
+import { analyzePromptType } from './analysis';
+import { BatchEntry, BatchReport, batchToMarkdown, describeEntry, runBatch } from './batch';
+import { getOptimizationSettings, resolveProvider } from './config';
+import { showPromptDiff } from './diffView';
+import { estimateOptimization, OptimizationInput, runOptimization } from './optimizer';
+import { estimateCost, formatCost } from './pricing';
+import { describePlaceholderReport } from './placeholders';
+import { extractPrompts, formatForSource, PromptSpan } from './promptExtraction';
+import { ProviderError } from './providers';
+import { guardPrompts } from './sendGuard';
+import { getDefaultTemplateId, loadTemplateLibrary } from './templateRegistry';
+import { resolveModelInfo } from './usageTracking';
+
+interface BatchTarget {
+    uri: vscode.Uri;
+    span: PromptSpan;
+    // Source text of the span, checked again before writing back
+    raw: string;
+    // What is sent: the span text, redacted when the user chose to
+    prompt?: string;
+    entry: BatchEntry;
+}
+
+interface ReviewItem extends vscode.QuickPickItem {
+    target: BatchTarget;
+}
+
+function getBatchSettings() {
+    const config = vscode.workspace.getConfiguration('promptious');
+    return {
+        include: config.get<string>('batch.include', '**/*.{prompt,prompt.md,md,mdx,js,jsx,ts,tsx,mjs,cjs,py}'),
+        exclude: config.get<string>('batch.exclude', '**/{node_modules,out,dist,build,.git,.venv}/**'),
+        concurrency: config.get<number>('batch.concurrency', 4),
+        maxFiles: config.get<number>('batch.maxFiles', 500)
+    };
+}
+
+// Open editors win over the file on disk so unsaved changes are seen
+async function readText(uri: vscode.Uri): Promise<string> {
+    const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    return open ? open.getText() : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+}
+
+async function findTargets(pattern: vscode.GlobPattern, exclude: string, maxFiles: number): Promise<BatchTarget[]> {
+    const files = await vscode.workspace.findFiles(pattern, exclude, maxFiles);
+    const targets: BatchTarget[] = [];
+    for (const uri of files.sort((a, b) => a.path.localeCompare(b.path))) {
+        const text = await readText(uri);
+        for (const span of extractPrompts(text, uri.path)) {
+            targets.push({
+                uri,
+                span,
+                raw: text.slice(span.start, span.end),
+                entry: {
+                    file: vscode.workspace.asRelativePath(uri),
+                    line: text.slice(0, span.start).split('\n').length,
+                    kind: span.kind,
+                    name: span.name,
+                    original: span.text
+                }
+            });
+        }
+    }
+    return targets;
+}
+
+async function saveReport(report: BatchReport): Promise<vscode.Uri> {
+    const markdown = batchToMarkdown(report);
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+        return (await vscode.workspace.openTextDocument({ language: 'markdown', content: markdown })).uri;
+    }
+
+    const reports = vscode.Uri.joinPath(folder.uri, '.promptious', 'reports');
+    const stem = `batch-${report.timestamp.replace(/[:.]/g, '-')}`;
+    await vscode.workspace.fs.createDirectory(reports);
+    await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(reports, `${stem}.json`), Buffer.from(JSON.stringify(report, null, 2), 'utf8'));
+    const uri = vscode.Uri.joinPath(reports, `${stem}.md`);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(markdown, 'utf8'));
+    return uri;
+}
+
+// Every optimized prompt starts accepted; unchecking one rejects it
+function reviewChanges(targets: BatchTarget[]): Promise<BatchTarget[] | undefined> {
+    return new Promise(resolve => {
+        const diffButton = { iconPath: new vscode.ThemeIcon('diff'), tooltip: 'Show diff' };
+        const items: ReviewItem[] = targets.map(target => ({
+            label: `$(file) ${describeEntry(target.entry)}`,
+            description: `${target.entry.warning ? '$(warning) ' : ''}${target.entry.original.length} → ${target.entry.optimized!.length} chars`,
+            detail: target.entry.optimized!.replace(/\s+/g, ' ').slice(0, 120),
+            buttons: [diffButton],
+            target
+        }));
+
+        const quickPick = vscode.window.createQuickPick<ReviewItem>();
+        quickPick.title = `Review ${targets.length} optimized prompts`;
+        quickPick.placeholder = 'Uncheck changes to reject them, then press Enter to apply the rest';
+        quickPick.canSelectMany = true;
+        quickPick.matchOnDetail = true;
+        quickPick.ignoreFocusOut = true;
+        quickPick.items = items;
+        quickPick.selectedItems = items;
+
+        let accepted: BatchTarget[] | undefined;
+        quickPick.onDidTriggerItemButton(event => {
+            const { entry } = event.item.target;
+            showPromptDiff(entry.original, entry.optimized!, `${describeEntry(entry)}: Original ↔ Optimized`);
+        });
+        quickPick.onDidAccept(() => {
+            accepted = quickPick.selectedItems.map(item => item.target);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            resolve(accepted);
+        });
+        quickPick.show();
+    });
+}
+
+// All accepted changes go into one WorkspaceEdit; prompts edited since they
+// were read are skipped
+// Resolves to the files the edit changed, so only those are saved later
+async function applyChanges(targets: BatchTarget[]): Promise<{ applied: number; stale: number; files: vscode.Uri[] }> {
+    const edit = new vscode.WorkspaceEdit();
+    const files = new Map<string, vscode.Uri>();
+    let stale = 0;
+
+    for (const target of targets) {
+        const document = await vscode.workspace.openTextDocument(target.uri);
+        const range = new vscode.Range(document.positionAt(target.span.start), document.positionAt(target.span.end));
+        if (document.getText(range) !== target.raw) {
+            stale++;
+            continue;
+        }
+        edit.replace(target.uri, range, formatForSource(target.span, target.entry.optimized!));
+        files.set(target.uri.toString(), target.uri);
+    }
+
+    if (!files.size || !(await vscode.workspace.applyEdit(edit))) {
+        return { applied: 0, stale, files: [] };
+    }
+    return { applied: targets.length - stale, stale, files: [...files.values()] };
+}
+
+// Optimize every prompt found under `folder` (or the workspace) and either
+// review the changes or write a dry-run report
+export async function optimizeWorkspace(context: vscode.ExtensionContext, folder?: vscode.Uri): Promise<void> {
+    const settings = getBatchSettings();
+    const include = await vscode.window.showInputBox({
+        prompt: folder ? `Files in ${vscode.workspace.asRelativePath(folder)} to search for prompts` : 'Files to search for prompts',
+        value: settings.include
+    });
+    if (!include) {
+        return;
+    }
+
+    const mode = await vscode.window.showQuickPick([
+        { label: 'Review changes', detail: 'Accept or reject each optimized prompt, then apply them in one edit', id: 'review' },
+        { label: 'Dry run', detail: 'Write a report of the proposed changes without editing any file', id: 'dryRun' }
+    ], { placeHolder: 'What should happen with the results?' });
+    if (!mode) {
+        return;
+    }
+
+    const targets = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Window,
+        title: 'Searching for prompts...'
+    }, () => findTargets(folder ? new vscode.RelativePattern(folder, include) : include, settings.exclude, settings.maxFiles));
+    if (!targets.length) {
+        vscode.window.showInformationMessage(`No prompts found in ${include}.`);
+        return;
+    }
+
+    const provider = await resolveProvider(context.secrets);
+    if (!provider) {
+        return;
+    }
+
+    // One scan over every prompt; flagged prompts can be redacted or left out
+    const guarded = await guardPrompts(targets.map(target => ({ label: `${target.entry.file}:${target.entry.line}`, text: target.span.text })), provider.label, { canSkip: true });
+    if (!guarded) {
+        return;
+    }
+    targets.forEach((target, index) => {
+        target.prompt = guarded.prompts[index];
+        if (target.prompt === undefined) {
+            target.entry.error = 'Not sent: flagged by the sensitive data scan';
+        }
+    });
+    const sendable = targets.filter(target => target.prompt !== undefined);
+    if (!sendable.length) {
+        vscode.window.showInformationMessage('Every prompt was flagged by the sensitive data scan. Nothing was sent.');
+        return;
+    }
+
+    const optimization = getOptimizationSettings();
+    const library = await loadTemplateLibrary();
+    const templateId = getDefaultTemplateId(library);
+    const modelInfo = resolveModelInfo(provider.model, provider.id);
+    const inputFor = (target: BatchTarget, signal?: AbortSignal): OptimizationInput => ({
+        prompt: target.prompt!,
+        analysis: analyzePromptType(target.prompt!, optimization.targetModel),
+        library,
+        templateId,
+        targetModel: optimization.targetModel,
+        temperature: optimization.temperature,
+        modelInfo,
+        policy: optimization.policy,
+        signal
+    });
+
+    const files = new Set(sendable.map(target => target.uri.toString())).size;
+    // Prompts too long for the model fail on their own during the run
+    const maxCost = sendable.reduce<number | undefined>((sum, target) => {
+        try {
+            const cost = estimateOptimization(provider, inputFor(target)).maxCost;
+            return sum === undefined || cost === undefined ? undefined : sum + cost;
+        } catch {
+            return sum;
+        }
+    }, 0);
+    const confirm = await vscode.window.showInformationMessage(
+        `Optimize ${sendable.length} prompts in ${files} files with ${provider.model} (up to ${formatCost(maxCost)})?`,
+        { modal: true },
+        'Optimize'
+    );
+    if (confirm !== 'Optimize') {
+        return;
+    }
+
+    const completed = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Optimizing ${sendable.length} prompts...`,
+        cancellable: true
+    }, async (progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+
+        try {
+            const outcomes = await runBatch(sendable, target => runOptimization(provider, inputFor(target, controller.signal)), {
+                concurrency: settings.concurrency,
+                signal: controller.signal,
+                onProgress: (done, total) => progress.report({ increment: 100 / total, message: `${done} of ${total} done` })
+            });
+            outcomes.forEach((outcome, index) => {
+                const entry = sendable[index].entry;
+                if (outcome.error !== undefined) {
+                    entry.error = outcome.error;
+                    return;
+                }
+                entry.optimized = guarded.restore(outcome.result.text);
+                entry.warning = outcome.result.placeholders?.unresolved ? describePlaceholderReport(outcome.result.placeholders) : undefined;
+                entry.totalTokens = outcome.result.usage?.totalTokens;
+                entry.cost = outcome.result.usage && estimateCost(modelInfo, outcome.result.usage.promptTokens, outcome.result.usage.completionTokens);
+            });
+            return true;
+        } catch (error) {
+            if (error instanceof ProviderError && error.kind === 'cancelled') {
+                return false;
+            }
+            throw error;
+        } finally {
+            cancellation.dispose();
+        }
+    });
+
+    if (!completed) {
+        vscode.window.showInformationMessage('Batch optimization cancelled. No files were changed.');
+        return;
+    }
+
+    const failed = targets.filter(target => target.entry.error);
+    const optimized = targets.filter(target => target.entry.optimized !== undefined && target.entry.optimized !== target.span.text);
+
+    if (mode.id === 'dryRun') {
+        const report = await saveReport({
+            timestamp: new Date().toISOString(),
+            include,
+            provider: provider.label,
+            model: provider.model,
+            entries: targets.map(target => target.entry)
+        });
+        await vscode.commands.executeCommand('markdown.showPreview', report);
+        return;
+    }
+
+    if (failed.length) {
+        vscode.window.showWarningMessage(`${failed.length} of ${targets.length} prompts could not be optimized: ${failed[0].entry.error}`);
+    }
+    if (!optimized.length) {
+        return;
+    }
+
+    const accepted = await reviewChanges(optimized);
+    if (!accepted?.length) {
+        return;
+    }
+
+    const result = await applyChanges(accepted);
+    const skipped = result.stale ? ` ${result.stale} changed since they were read and were skipped.` : '';
+    const choice = await vscode.window.showInformationMessage(
+        `Optimized ${result.applied} prompts in ${result.files.length} files.${skipped}`,
+        ...(result.applied ? ['Save Changed Files'] : [])
+    );
+    if (choice === 'Save Changed Files') {
+        // Other dirty editors are left alone
+        for (const uri of result.files) {
+            await (await vscode.workspace.openTextDocument(uri)).save();
+        }
+    }
+}
@@ -0,0 +1,120 @@
+// Content-addressed response cache: one JSON file per key in a directory, with
+// an expiry time and an entry limit. Independent of the extension host so the
+// optimizer can use it anywhere a directory is available.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface CacheHit<T> {
+    value: T;
+    // When the value was stored
+    timestamp: number;
+}
+
+export interface ResponseCache<T> {
+    get(key: string): Promise<CacheHit<T> | undefined>;
+    set(key: string, value: T): Promise<void>;
+}
+
+export interface FileCacheOptions {
+    // 0 keeps entries until they are evicted by the entry limit
+    ttlMs: number;
+    maxEntries: number;
+    now?: () => number;
+}
+
+interface CacheFile<T> {
+    key: string;
+    timestamp: number;
+    value: T;
+}
+
+// SHA-256 of the parts, in order
+export function cacheKey(parts: unknown[]): string {
+    return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+// "5 minutes ago"
+export function describeCacheAge(cachedAt: number, now = Date.now()): string {
+    const minutes = Math.max(0, Math.round((now - cachedAt) / 60000));
+    const [amount, unit] = minutes < 60 ? [minutes, 'minute'] : minutes < 48 * 60 ? [Math.round(minutes / 60), 'hour'] : [Math.round(minutes / 1440), 'day'];
+    return amount === 0 ? 'just now' : `${amount} ${unit}${amount === 1 ? '' : 's'} ago`;
+}
+
+export class FileResponseCache<T> implements ResponseCache<T> {
+    constructor(readonly directory: string, private readonly options: FileCacheOptions) {}
+
+    private now(): number {
+        return this.options.now ? this.options.now() : Date.now();
+    }
+
+    private fileFor(key: string): string {
+        return path.join(this.directory, `${key}.json`);
+    }
+
+    private expired(timestamp: number): boolean {
+        return this.options.ttlMs > 0 && this.now() - timestamp > this.options.ttlMs;
+    }
+
+    // Unreadable and expired entries are misses and are removed
+    async get(key: string): Promise<CacheHit<T> | undefined> {
+        const file = this.fileFor(key);
+        let entry: CacheFile<T>;
+        try {
+            entry = JSON.parse(await fs.promises.readFile(file, 'utf8')) as CacheFile<T>;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                await fs.promises.rm(file, { force: true });
+            }
+            return undefined;
+        }
+        if (entry.key !== key || this.expired(entry.timestamp)) {
+            await fs.promises.rm(file, { force: true });
+            return undefined;
+        }
+        return { value: entry.value, timestamp: entry.timestamp };
+    }
+
+    // A failed write only costs the next lookup, so it is logged rather than thrown
+    async set(key: string, value: T): Promise<void> {
+        const entry: CacheFile<T> = { key, timestamp: this.now(), value };
+        try {
+            await fs.promises.mkdir(this.directory, { recursive: true });
+            await fs.promises.writeFile(this.fileFor(key), JSON.stringify(entry), 'utf8');
+            // The file time is the entry's age for pruning
+            await fs.promises.utimes(this.fileFor(key), entry.timestamp / 1000, entry.timestamp / 1000);
+            await this.prune();
+        } catch (error) {
+            console.error('Error writing to the response cache:', error);
+        }
+    }
+
+    // Drop expired entries, then the oldest ones beyond the entry limit
+    async prune(): Promise<void> {
+        const entries = await this.list();
+        const live = entries.filter(entry => !this.expired(entry.timestamp)).sort((a, b) => b.timestamp - a.timestamp);
+        const keep = new Set(live.slice(0, Math.max(0, this.options.maxEntries)).map(entry => entry.file));
+        await Promise.all(entries.filter(entry => !keep.has(entry.file)).map(entry => fs.promises.rm(entry.file, { force: true })));
+    }
+
+    // Resolves to the number of entries removed
+    async clear(): Promise<number> {
+        const entries = await this.list();
+        await Promise.all(entries.map(entry => fs.promises.rm(entry.file, { force: true })));
+        return entries.length;
+    }
+
+    // Entry ages come from the file times, so listing does not parse every entry
+    private async list(): Promise<Array<{ file: string; timestamp: number }>> {
+        let names: string[];
+        try {
+            names = await fs.promises.readdir(this.directory);
+        } catch {
+            return [];
+        }
+        const files = names.filter(name => name.endsWith('.json')).map(name => path.join(this.directory, name));
+        const stats = await Promise.all(files.map(file => fs.promises.stat(file).then(stat => stat.mtimeMs, () => undefined)));
+        return files.flatMap((file, index) => stats[index] === undefined ? [] : [{ file, timestamp: stats[index]! }]);
+    }
+}
@@ -0,0 +1,412 @@
+#!/usr/bin/env node
+// `promptious analyze|lint|optimize|eval <file>` for scripts and CI. Reads the
+// same `.promptious.json` / `.yaml` and `.promptious/` library as the extension
+// from the working directory; API keys come from the environment.
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    analyzeFile,
+    createProviderFromEnvironment,
+    lintFile,
+    offsetToPosition,
+    optimizeText,
+    promptsInFile,
+    ProviderOptions,
+    readTemplateLibrary,
+    readWorkspaceConfig,
+    replacePrompts
+} from './core';
+import { parseDataset, restoreReport, runEvaluation } from './evaluation';
+import { LintSeverity } from './lint';
+import { HttpOptions, LLMProvider } from './providers';
+import { compareQuality, scorePrompt } from './quality';
+import { describeFindings, guardBatch, restoreRedactions, scanPrompt } from './scanner';
+import { effectiveConfigToPolicy, resolveEffectiveConfig } from './workspaceConfig';
+
+export const EXIT_OK = 0;
+// Lint findings at the --fail-on severity, failed evaluations
+export const EXIT_FAILED = 1;
+// Bad arguments, unreadable files, provider errors, unapproved sensitive data
+export const EXIT_ERROR = 2;
+
+export interface CliIO {
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    stdout(text: string): void;
+    stderr(text: string): void;
+    // Replaced in tests
+    createProvider?(options: ProviderOptions): LLMProvider;
+}
+
+interface CliArgs {
+    command?: string;
+    files: string[];
+    options: Map<string, string>;
+    flags: Set<string>;
+}
+
+const USAGE = `Usage: promptious <command> [options] <file...>
+
+Commands:
+  analyze <file...>    Classify each prompt and list the techniques it would get
+  lint <file...>       Check prompts for common problems; exits 1 on findings
+  optimize <file...>   Optimize every prompt in the files
+  eval <file>          Score a prompt and its optimized version on a dataset
+
+Options:
+  --provider <id>        openai, azure, anthropic, ollama or openaiCompatible
+  --model <name>         Model (or Azure deployment) used to optimize
+  --base-url <url>       Provider endpoint
+  --api-version <v>      Azure OpenAI API version
+  --target-model <name>  Model the optimized prompt will run on
+  --template <id>        Optimization template
+  --temperature <n>      Sampling temperature
+  --preset <name>        Preset from the workspace file
+  --config <file>        Workspace file; defaults to .promptious.json / .yaml
+  --json                 Print JSON instead of text
+  --fail-on <severity>   lint: error, warning (default) or info
+  --out-dir <dir>        optimize: write optimized copies of the files here
+  --redact               Send secrets and personal data as placeholders
+  --allow-sensitive      Send secrets and personal data unchanged
+  --dataset <file>       eval: JSONL, JSON or YAML test cases
+  --optimized <file>     eval: compare with this prompt instead of optimizing
+  --min-pass-rate <0-1>  eval: fail below this optimized pass rate
+
+API keys are read from OPENAI_API_KEY, AZURE_OPENAI_API_KEY, ANTHROPIC_API_KEY
+or OPENAI_COMPATIBLE_API_KEY.
+
+Exit codes: 0 success, 1 lint or evaluation failures, 2 usage or runtime errors.`;
+
+// Most severe first
+const LINT_SEVERITIES: LintSeverity[] = ['error', 'warning', 'info'];
+
+const BOOLEAN_FLAGS = ['json', 'redact', 'allow-sensitive', 'help'];
+const VALUE_OPTIONS = [
+    'provider', 'model', 'base-url', 'api-version', 'target-model', 'template', 'temperature',
+    'preset', 'config', 'fail-on', 'out-dir', 'dataset', 'optimized', 'min-pass-rate'
+];
+
+export function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = { files: [], options: new Map(), flags: new Set() };
+    for (let index = 0; index < argv.length; index++) {
+        const arg = argv[index];
+        if (!arg.startsWith('--')) {
+            if (args.command) {
+                args.files.push(arg);
+            } else {
+                args.command = arg;
+            }
+            continue;
+        }
+
+        const [name, inline] = arg.slice(2).split(/=(.*)/s);
+        if (BOOLEAN_FLAGS.includes(name)) {
+            args.flags.add(name);
+        } else if (VALUE_OPTIONS.includes(name)) {
+            const value = inline ?? argv[++index];
+            if (value === undefined) {
+                throw new Error(`--${name} needs a value`);
+            }
+            args.options.set(name, value);
+        } else {
+            throw new Error(`Unknown option --${arg.slice(2)}`);
+        }
+    }
+    return args;
+}
+
+function parseNumber(args: CliArgs, name: string): number | undefined {
+    const raw = args.options.get(name);
+    if (raw === undefined) {
+        return undefined;
+    }
+    const value = Number(raw);
+    if (!raw.trim() || Number.isNaN(value)) {
+        throw new Error(`--${name} must be a number`);
+    }
+    return value;
+}
+
+// Proxy settings from the usual environment variables
+function httpOptionsFromEnvironment(env: NodeJS.ProcessEnv): HttpOptions {
+    return {
+        proxy: env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy || undefined,
+        noProxy: (env.NO_PROXY || env.no_proxy || '').split(',').filter(Boolean)
+    };
+}
+
+// The workspace file and preset, overridden by command-line options
+function loadSettings(args: CliArgs, io: CliIO) {
+    const loaded = readWorkspaceConfig(io.cwd, args.options.get('config'));
+    if (loaded?.errors.length) {
+        throw new Error(`${loaded.fileName}: ${loaded.errors.join('; ')}`);
+    }
+    const file = loaded?.config || {};
+    const preset = args.options.get('preset');
+    if (preset && !file.presets?.[preset]) {
+        throw new Error(`Unknown preset "${preset}"`);
+    }
+
+    const effective = resolveEffectiveConfig(file, preset);
+    const provider = args.options.get('provider') || effective.provider.value;
+    // A model from the file or preset belongs to the provider it was resolved for
+    const model = args.options.get('model') || (provider === (effective.provider.value || 'openai') ? effective.model.value : undefined);
+    const providerOptions: ProviderOptions = {
+        provider,
+        model,
+        baseUrl: args.options.get('base-url'),
+        apiVersion: args.options.get('api-version'),
+        http: httpOptionsFromEnvironment(io.env)
+    };
+    return {
+        providerOptions,
+        targetModel: args.options.get('target-model') || effective.targetModel.value || undefined,
+        templateId: args.options.get('template') || effective.template.value,
+        temperature: parseNumber(args, 'temperature') ?? effective.temperature.value,
+        policy: effectiveConfigToPolicy(effective)
+    };
+}
+
+function readFile(file: string, io: CliIO): string {
+    return fs.readFileSync(path.resolve(io.cwd, file), 'utf8');
+}
+
+function requireFiles(args: CliArgs, count?: number): string[] {
+    if (!args.files.length || (count !== undefined && args.files.length !== count)) {
+        throw new Error(`${args.command} needs ${count === 1 ? 'one file' : 'at least one file'}`);
+    }
+    return args.files;
+}
+
+function createCliProvider(options: ProviderOptions, io: CliIO): LLMProvider {
+    return io.createProvider ? io.createProvider(options) : createProviderFromEnvironment(options, io.env);
+}
+
+// Secrets and personal data leave the machine only with --redact or
+// --allow-sensitive; injection patterns are reported but do not block. Texts
+// sent together share placeholders, so one restore covers every answer.
+function guardSensitive(items: Array<{ label: string; text: string }>, args: CliArgs, io: CliIO): { prompts: string[]; restore(text: string): string } {
+    const findings = items.map(item => scanPrompt(item.text));
+    const flagged = items.filter((item, index) => {
+        if (findings[index].length) {
+            io.stderr(`${item.label}: ${describeFindings(findings[index])}`);
+        }
+        return findings[index].some(finding => finding.category !== 'injection');
+    });
+    const texts = items.map(item => item.text);
+    if (!flagged.length || args.flags.has('allow-sensitive')) {
+        return { prompts: texts, restore: text => text };
+    }
+    if (!args.flags.has('redact')) {
+        const many = flagged.length > 1;
+        const label = many ? `${flagged[0].label} and ${flagged.length - 1} more` : flagged[0].label;
+        throw new Error(`${label} ${many ? 'contain' : 'contains'} secrets or personal data. Pass --redact to send placeholders or --allow-sensitive to send ${many ? 'them' : 'it'} unchanged.`);
+    }
+    const { texts: redacted, redactions } = guardBatch(texts, findings, 'redact');
+    return { prompts: redacted as string[], restore: answer => restoreRedactions(answer, redactions) };
+}
+
+function analyzeCommand(args: CliArgs, io: CliIO): number {
+    const targetModel = loadSettings(args, io).targetModel;
+    const results = requireFiles(args).map(file => {
+        const text = readFile(file, io);
+        return {
+            file,
+            prompts: analyzeFile(text, file, targetModel).map(({ span, analysis, quality }) => ({
+                ...offsetToPosition(text, span.start),
+                kind: span.kind,
+                name: span.name,
+                analysis,
+                quality
+            }))
+        };
+    });
+
+    if (args.flags.has('json')) {
+        io.stdout(JSON.stringify(results, null, 2));
+        return EXIT_OK;
+    }
+    for (const { file, prompts } of results) {
+        for (const { line, name, analysis, quality } of prompts) {
+            io.stdout(`${file}:${line}${name ? ` (${name})` : ''}: ${analysis.type}, ${analysis.complexity}, ${Math.round(analysis.confidence * 100)}% confidence, quality ${quality.overall}/100`);
+            io.stdout(`  techniques: ${analysis.techniques.join(', ') || 'none'}`);
+        }
+    }
+    return EXIT_OK;
+}
+
+function lintCommand(args: CliArgs, io: CliIO): number {
+    const failOn = args.options.get('fail-on') || 'warning';
+    const failing = LINT_SEVERITIES.slice(0, LINT_SEVERITIES.indexOf(failOn as LintSeverity) + 1);
+    if (!failing.length) {
+        throw new Error(`--fail-on must be one of: ${LINT_SEVERITIES.join(', ')}`);
+    }
+    const results = requireFiles(args).map(file => ({ file, findings: lintFile(readFile(file, io), file) }));
+    const findings = results.flatMap(result => result.findings);
+    const failed = findings.some(finding => failing.includes(finding.severity));
+
+    if (args.flags.has('json')) {
+        io.stdout(JSON.stringify(results.map(({ file, findings: fileFindings }) => ({
+            file,
+            findings: fileFindings.map(({ rule, severity, message, line, column, prompt }) => ({ rule, severity, message, line, column, prompt }))
+        })), null, 2));
+    } else {
+        for (const { file, findings: fileFindings } of results) {
+            for (const finding of fileFindings) {
+                io.stdout(`${file}:${finding.line}:${finding.column} ${finding.severity} ${finding.rule} ${finding.message}`);
+            }
+        }
+        io.stdout(`${findings.length} problem${findings.length === 1 ? '' : 's'} in ${results.length} file${results.length === 1 ? '' : 's'}`);
+    }
+    return failed ? EXIT_FAILED : EXIT_OK;
+}
+
+async function optimizeCommand(args: CliArgs, io: CliIO): Promise<number> {
+    const settings = loadSettings(args, io);
+    const provider = createCliProvider(settings.providerOptions, io);
+    const library = readTemplateLibrary(io.cwd);
+    const outDir = args.options.get('out-dir');
+    const results = [];
+
+    for (const file of requireFiles(args)) {
+        const text = readFile(file, io);
+        const spans = promptsInFile(text, file);
+        const prompts = [];
+        for (const [index, span] of spans.entries()) {
+            const guarded = guardSensitive([{ label: `${file} prompt ${index + 1}`, text: span.text }], args, io);
+            const result = await optimizeText(provider, guarded.prompts[0], {
+                library,
+                templateId: settings.templateId,
+                targetModel: settings.targetModel,
+                temperature: settings.temperature,
+                policy: settings.policy
+            });
+            const optimized = guarded.restore(result.text);
+            prompts.push({
+                ...offsetToPosition(text, span.start),
+                name: span.name,
+                original: span.text,
+                optimized,
+                analysis: result.analysis,
+                quality: compareQuality(scorePrompt(span.text), scorePrompt(optimized)),
+                model: result.model,
+                usage: result.usage,
+                placeholders: result.placeholders
+            });
+        }
+
+        const optimizedText = replacePrompts(text, spans, prompts.map(prompt => prompt.optimized));
+        let snapshot: string | undefined;
+        if (outDir) {
+            const relative = path.relative(io.cwd, path.resolve(io.cwd, file));
+            snapshot = path.join(outDir, relative.startsWith('..') || path.isAbsolute(relative) ? path.basename(file) : relative);
+            fs.mkdirSync(path.dirname(path.resolve(io.cwd, snapshot)), { recursive: true });
+            fs.writeFileSync(path.resolve(io.cwd, snapshot), optimizedText);
+        }
+        results.push({ file, snapshot, prompts, optimizedText });
+    }
+
+    if (args.flags.has('json')) {
+        io.stdout(JSON.stringify(results.map(({ optimizedText, ...result }) => result), null, 2));
+    } else if (outDir) {
+        for (const { file, snapshot } of results) {
+            io.stdout(`${file} -> ${snapshot}`);
+        }
+    } else {
+        io.stdout(results.map(({ file, optimizedText }) => results.length > 1 ? `==> ${file} <==\n${optimizedText}` : optimizedText).join('\n'));
+    }
+    return EXIT_OK;
+}
+
+async function evalCommand(args: CliArgs, io: CliIO): Promise<number> {
+    const [file] = requireFiles(args, 1);
+    const datasetFile = args.options.get('dataset');
+    if (!datasetFile) {
+        throw new Error('eval needs --dataset <file>');
+    }
+    const minPassRate = parseNumber(args, 'min-pass-rate');
+    const spans = promptsInFile(readFile(file, io), file);
+    if (spans.length !== 1) {
+        throw new Error(`${file} must contain exactly one prompt, found ${spans.length}`);
+    }
+
+    const settings = loadSettings(args, io);
+    const provider = createCliProvider(settings.providerOptions, io);
+    const optimizedFile = args.options.get('optimized');
+    const cases = parseDataset(readFile(datasetFile, io), datasetFile);
+    // Everything sent is scanned together so the report can be restored in one pass
+    const guarded = guardSensitive([
+        { label: file, text: spans[0].text },
+        ...(optimizedFile ? [{ label: optimizedFile, text: promptsInFile(readFile(optimizedFile, io), optimizedFile)[0]?.text ?? '' }] : []),
+        ...cases.map(testCase => ({ label: `${datasetFile} case "${testCase.name}"`, text: testCase.input }))
+    ], args, io);
+    const [original, ...rest] = guarded.prompts;
+    const inputs = optimizedFile ? rest.slice(1) : rest;
+    const optimized = optimizedFile
+        ? rest[0]
+        : (await optimizeText(provider, original, {
+            library: readTemplateLibrary(io.cwd),
+            templateId: settings.templateId,
+            targetModel: settings.targetModel,
+            temperature: settings.temperature,
+            policy: settings.policy
+        })).text;
+
+    const report = restoreReport(await runEvaluation(provider, {
+        original,
+        optimized,
+        cases: cases.map((testCase, index) => ({ ...testCase, input: inputs[index] })),
+        dataset: path.basename(datasetFile)
+    }), guarded.restore);
+    const [before, after] = report.versions;
+    const failed = after.passRate < before.passRate || (minPassRate !== undefined && after.passRate < minPassRate);
+
+    if (args.flags.has('json')) {
+        io.stdout(JSON.stringify({ ...report, failed }, null, 2));
+    } else {
+        for (const version of report.versions) {
+            io.stdout(`${version.label}: ${version.passed}/${version.total} passed (${(version.passRate * 100).toFixed(1)}%)`);
+        }
+        if (failed) {
+            io.stdout(after.passRate < before.passRate ? 'The optimized prompt passes fewer cases than the original.' : `The optimized prompt is below the minimum pass rate of ${minPassRate}.`);
+        }
+    }
+    return failed ? EXIT_FAILED : EXIT_OK;
+}
+
+const COMMANDS: Record<string, (args: CliArgs, io: CliIO) => number | Promise<number>> = {
+    analyze: analyzeCommand,
+    lint: lintCommand,
+    optimize: optimizeCommand,
+    eval: evalCommand
+};
+
+export async function main(argv: string[], io: CliIO = {
+    cwd: process.cwd(),
+    env: process.env,
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`)
+}): Promise<number> {
+    try {
+        const args = parseArgs(argv);
+        if (args.flags.has('help')) {
+            io.stdout(USAGE);
+            return EXIT_OK;
+        }
+        const command = args.command && COMMANDS[args.command];
+        if (!command) {
+            io.stderr(args.command ? `Unknown command "${args.command}"\n\n${USAGE}` : USAGE);
+            return EXIT_ERROR;
+        }
+        return await command(args, io);
+    } catch (error) {
+        io.stderr(`promptious: ${error instanceof Error ? error.message : String(error)}`);
+        return EXIT_ERROR;
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { readWorkspaceConfig } from './core';
+import { createProvider, HttpOptions, isProviderId, LLMProvider, PROVIDERS, ProviderConfig, ProviderDefinition } from './providers';
+import { OptimizationPolicy } from './optimizer';
+import { getApiKey, promptForApiKey } from './secrets';
+import { trackUsage } from './usageTracking';
+import {
+    ConfigLayers,
+    EffectiveConfig,
+    effectiveConfigToPolicy,
+    LoadedWorkspaceConfig,
+    PromptiousPreset,
+    resolveEffectiveConfig,
+    resolveMachineSetting
+} from './workspaceConfig';
+
+export interface ProviderSettings {
+    definition: ProviderDefinition;
+    config: ProviderConfig;
+}
+
+// Extra CA files may be absolute, `~/`-relative or relative to the first workspace folder
+function readCaCertificates(files: string[]): string[] {
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    return files.flatMap(file => {
+        const resolved = file.startsWith('~/') ? path.join(os.homedir(), file.slice(2)) : path.resolve(root || '', file);
+        try {
+            return [fs.readFileSync(resolved, 'utf8')];
+        } catch (error) {
+            console.error(`Error reading CA certificate ${resolved}:`, error);
+            vscode.window.showWarningMessage(`Promptious could not read the CA certificate ${resolved}.`);
+            return [];
+        }
+    });
+}
+
+// Transport settings: VS Code's proxy configuration (or the usual environment
+// variables) plus `promptious.http.*`
+export function getHttpOptions(): HttpOptions {
+    const httpConfig = vscode.workspace.getConfiguration('http');
+    const config = vscode.workspace.getConfiguration('promptious');
+    const env = process.env;
+    const noProxy = httpConfig.get<string[]>('noProxy', []);
+
+    return {
+        timeoutMs: config.get<number>('http.timeout', 60) * 1000,
+        maxRetries: config.get<number>('http.maxRetries', 2),
+        proxy: httpConfig.get<string>('proxy') || env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy || undefined,
+        proxyAuthorization: httpConfig.get<string | null>('proxyAuthorization') || undefined,
+        noProxy: noProxy.length ? noProxy : (env.NO_PROXY || env.no_proxy || '').split(',').filter(Boolean),
+        strictSSL: httpConfig.get<boolean>('proxyStrictSSL', true),
+        ca: readCaCertificates(machineSetting<string[]>('http.caCertificates') || [])
+    };
+}
+
+export interface OptimizationSettings {
+    template?: string;
+    temperature?: number;
+    // The model the optimized prompt is written for, not the one optimizing it
+    targetModel?: string;
+    autoCopy: boolean;
+    showNotifications: boolean;
+    // Ask for the optimizer's rationale as JSON and show it as a report
+    structured: boolean;
+    policy: OptimizationPolicy;
+}
+
+let workspaceConfigCache: LoadedWorkspaceConfig | null | undefined;
+
+export function invalidateWorkspaceConfig(): void {
+    workspaceConfigCache = undefined;
+}
+
+// `.promptious.json` / `.yaml` in the first workspace folder, read once and cached
+// until the file watcher invalidates it
+export function getWorkspaceConfig(): LoadedWorkspaceConfig | undefined {
+    if (workspaceConfigCache !== undefined) {
+        return workspaceConfigCache || undefined;
+    }
+
+    workspaceConfigCache = null;
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const loaded = root && readWorkspaceConfig(root);
+    if (!root || !loaded) {
+        return undefined;
+    }
+
+    workspaceConfigCache = loaded;
+    const { fileName } = loaded;
+    if (workspaceConfigCache.errors.length) {
+        vscode.window.showWarningMessage(
+            `Promptious ignored ${fileName}: ${workspaceConfigCache.errors[0]}`,
+            'Open File'
+        ).then(action => {
+            if (action === 'Open File') {
+                vscode.window.showTextDocument(vscode.Uri.file(path.join(root, fileName)));
+            }
+        });
+    }
+    return workspaceConfigCache;
+}
+
+export function getPresets(): Record<string, PromptiousPreset> {
+    return getWorkspaceConfig()?.config.presets || {};
+}
+
+// `promptious.*` settings as the default, user and workspace layers
+function settingLayers(settingKey: string): ConfigLayers<unknown> {
+    const inspected = vscode.workspace.getConfiguration('promptious').inspect(settingKey);
+    return {
+        default: inspected?.defaultValue,
+        user: inspected?.globalValue,
+        workspace: inspected?.workspaceFolderValue ?? inspected?.workspaceValue
+    };
+}
+
+// A machine-scoped setting from the user layer only; see MACHINE_SETTINGS
+export function machineSetting<T>(settingKey: string): T | undefined {
+    return resolveMachineSetting(settingLayers(settingKey) as ConfigLayers<T>).value;
+}
+
+// Every value the workspace file or a preset can change, with where it came from
+export function getEffectiveConfig(presetName?: string): EffectiveConfig {
+    return resolveEffectiveConfig(getWorkspaceConfig()?.config || {}, presetName, settingLayers);
+}
+
+export function getOptimizationSettings(presetName?: string): OptimizationSettings {
+    const effective = getEffectiveConfig(presetName);
+    return {
+        template: effective.template.value,
+        temperature: effective.temperature.value,
+        targetModel: effective.targetModel.value || undefined,
+        autoCopy: effective.autoCopy.value ?? true,
+        showNotifications: effective.showNotifications.value ?? true,
+        structured: vscode.workspace.getConfiguration('promptious').get<boolean>('structuredOutput', false),
+        policy: effectiveConfigToPolicy(effective)
+    };
+}
+
+// Offer the workspace presets; resolves to undefined when the picker is dismissed
+export async function pickPreset(placeHolder = 'Choose a preset'): Promise<{ name?: string } | undefined> {
+    const presets = Object.entries(getPresets());
+    if (!presets.length) {
+        return {};
+    }
+
+    const picked = await vscode.window.showQuickPick([
+        { label: 'No preset', description: 'Workspace and user settings', name: undefined as string | undefined },
+        ...presets.map(([name, preset]) => ({
+            label: name,
+            description: [preset.provider, preset.model, preset.template].filter(Boolean).join(' · '),
+            detail: preset.description,
+            name
+        }))
+    ], { placeHolder });
+    return picked && { name: picked.name };
+}
+
+// Resolve the active provider and its per-provider settings from `promptious.*`,
+// the workspace file and an optional preset.
+// The API key lives in SecretStorage and is filled in by the caller.
+export function getProviderSettings(modelOverride?: string, presetName?: string): ProviderSettings {
+    const config = vscode.workspace.getConfiguration('promptious');
+    const effective = getEffectiveConfig(presetName);
+    const providerSetting = effective.provider.value || 'openai';
+    const definition = PROVIDERS[isProviderId(providerSetting) ? providerSetting : 'openai'];
+
+    const section = (key: string) => config.get<string>(`${definition.id}.${key}`, '');
+    const endpoint = definition.id === 'azure' ? machineSetting<string>('azure.endpoint') : machineSetting<string>(`${definition.id}.baseUrl`);
+    const model = modelOverride || effective.model.value || definition.models[0] || '';
+
+    return {
+        definition,
+        config: {
+            baseUrl: endpoint || definition.defaultBaseUrl,
+            model,
+            deployment: definition.id === 'azure' ? model : undefined,
+            apiVersion: definition.id === 'azure' ? section('apiVersion') || undefined : undefined,
+            http: getHttpOptions()
+        }
+    };
+}
+
+// Build the active provider with its API key, asking for the key when it is missing.
+// Resolves to undefined when the user dismisses the prompt. Requests are metered
+// against the spend budget.
+export async function resolveProvider(secrets: vscode.SecretStorage, modelOverride?: string, presetName?: string): Promise<LLMProvider | undefined> {
+    const { definition, config: providerConfig } = getProviderSettings(modelOverride, presetName);
+    providerConfig.apiKey = await getApiKey(secrets, definition);
+
+    if (definition.requiresApiKey && !providerConfig.apiKey) {
+        const action = await vscode.window.showErrorMessage(
+            `${definition.label} API key not configured.`,
+            'Set API Key',
+            'Open Settings'
+        );
+        if (action === 'Set API Key' && await promptForApiKey(secrets, definition)) {
+            return resolveProvider(secrets, modelOverride, presetName);
+        } else if (action === 'Open Settings') {
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'promptious');
+        }
+        return undefined;
+    }
+
+    return trackUsage(createProvider(definition.id, providerConfig));
+}
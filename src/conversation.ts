@@ -0,0 +1,167 @@
+// Structured prompts: chat message lists written as JSON, YAML or markdown
+// with `## System` / `## User` / `## Assistant` sections. Pure, so analysis and
+// the optimizer can use it outside the extension host.
+
+import { ChatMessage } from './providers/types';
+import { parseYaml, stringifyYaml } from './yaml';
+
+export type ChatRole = ChatMessage['role'];
+export type ConversationFormat = 'json' | 'yaml' | 'markdown';
+
+export interface Conversation {
+    format: ConversationFormat;
+    messages: ChatMessage[];
+    // JSON / YAML: the whole document; messages are the root list or its `messages` key
+    document?: unknown;
+    messagesKey?: string;
+    indent?: string;
+    // Markdown: text before the first section and each section's heading line
+    preamble?: string;
+    headings?: string[];
+    trailingNewline: boolean;
+}
+
+const ROLE_ALIASES: Record<string, ChatRole> = {
+    system: 'system',
+    developer: 'system',
+    user: 'user',
+    human: 'user',
+    assistant: 'assistant',
+    ai: 'assistant',
+    model: 'assistant'
+};
+
+const ROLE_HEADING = /^#{1,6}[ \t]+(system|developer|user|human|assistant|ai|model)(?:[ \t]+(?:message|prompt|turn))?[ \t]*:?[ \t]*$/gim;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Every item must be a `{ role, content }` message with plain text content
+function toMessages(value: unknown): ChatMessage[] | undefined {
+    if (!Array.isArray(value) || !value.length) {
+        return undefined;
+    }
+    const messages: ChatMessage[] = [];
+    for (const item of value) {
+        const role = isRecord(item) && typeof item.role === 'string' ? ROLE_ALIASES[item.role.toLowerCase()] : undefined;
+        if (!role || !isRecord(item) || typeof item.content !== 'string') {
+            return undefined;
+        }
+        messages.push({ role, content: item.content });
+    }
+    return messages;
+}
+
+function fromDocument(document: unknown, format: 'json' | 'yaml', text: string): Conversation | undefined {
+    const messagesKey = isRecord(document) ? 'messages' : undefined;
+    const messages = toMessages(messagesKey ? (document as Record<string, unknown>).messages : document);
+    if (!messages) {
+        return undefined;
+    }
+    return {
+        format,
+        messages,
+        document,
+        messagesKey,
+        indent: /\n([ \t]+)\S/.exec(text)?.[1],
+        trailingNewline: text.endsWith('\n')
+    };
+}
+
+function parseMarkdown(text: string): Conversation | undefined {
+    const headings = [...text.matchAll(ROLE_HEADING)];
+    if (!headings.length) {
+        return undefined;
+    }
+    const messages = headings.map((heading, index) => {
+        const start = heading.index! + heading[0].length;
+        const end = index + 1 < headings.length ? headings[index + 1].index! : text.length;
+        return { role: ROLE_ALIASES[heading[1].toLowerCase()], content: text.slice(start, end).trim() };
+    });
+    return {
+        format: 'markdown',
+        messages,
+        preamble: text.slice(0, headings[0].index).trim(),
+        headings: headings.map(heading => heading[0].trim()),
+        trailingNewline: text.endsWith('\n')
+    };
+}
+
+// Recognize a structured prompt, or undefined for a flat one
+export function parseConversation(text: string): Conversation | undefined {
+    const trimmed = text.trim();
+    // Text such as "[Important] ..." only looks like JSON; it may still be a
+    // markdown or YAML conversation
+    if (/^[[{]/.test(trimmed)) {
+        let document: unknown;
+        try {
+            document = JSON.parse(trimmed);
+        } catch {
+            document = undefined;
+        }
+        if (document !== undefined) {
+            return fromDocument(document, 'json', text);
+        }
+    }
+    const markdown = parseMarkdown(text);
+    if (markdown) {
+        return markdown;
+    }
+    if (/^\s*(-\s+)?role\s*:/m.test(text)) {
+        try {
+            return fromDocument(parseYaml(text), 'yaml', text);
+        } catch {
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+// Write `messages` back in the conversation's original structure; other
+// fields of each message and of the document are kept
+export function serializeConversation(conversation: Conversation, messages: ChatMessage[]): string {
+    const newline = conversation.trailingNewline ? '\n' : '';
+    if (conversation.format === 'markdown') {
+        const sections = messages.map((message, index) => `${conversation.headings![index]}\n\n${message.content.trim()}`);
+        return [conversation.preamble, ...sections].filter(Boolean).join('\n\n') + newline;
+    }
+
+    const document = JSON.parse(JSON.stringify(conversation.document));
+    const items: Array<Record<string, unknown>> = conversation.messagesKey ? document[conversation.messagesKey] : document;
+    messages.forEach((message, index) => {
+        items[index].content = message.content;
+    });
+    return conversation.format === 'json'
+        ? JSON.stringify(document, null, conversation.indent) + newline
+        : stringifyYaml(document);
+}
+
+// The text that defines the task: assistant turns are examples, not instructions
+export function conversationText(messages: ChatMessage[]): string {
+    return messages.filter(message => message.role !== 'assistant').map(message => message.content).join('\n\n');
+}
+
+export function formatConversationForOptimization(messages: ChatMessage[]): string {
+    return messages.map((message, index) => `<message index="${index}" role="${message.role}">\n${message.content.trim()}\n</message>`).join('\n\n');
+}
+
+export const CONVERSATION_INSTRUCTIONS = `**The prompt above is a chat conversation. Optimize each message for its role instead of returning a single prompt:**
+- system: define the assistant's role, expertise, constraints and output format
+- user: make the task, its inputs and the expected result clear and specific
+- assistant: few-shot example answers; return them unchanged
+
+Return every message in its original <message index="N" role="ROLE"> tags, in the same order, and nothing else.`;
+
+const MESSAGE_TAG = /<message\s+index="(\d+)"[^>]*>\r?\n?([\s\S]*?)\r?\n?<\/message>/g;
+
+// Take the optimized system and user messages from the model's answer; assistant
+// turns and anything missing from the answer keep their original text
+export function mergeOptimizedConversation(messages: ChatMessage[], response: string): ChatMessage[] {
+    const optimized = new Map<number, string>();
+    for (const match of response.matchAll(MESSAGE_TAG)) {
+        optimized.set(Number(match[1]), match[2].trim());
+    }
+    return messages.map((message, index) => {
+        const content = optimized.get(index);
+        return message.role === 'assistant' || !content ? message : { ...message, content };
+    });
+}
@@ -0,0 +1,176 @@
+// Host-independent core shared by the extension and the command line: prompt
+// discovery, analysis, the optimization request and linting, plus file-based
+// loading of the workspace config and template library. No vscode imports.
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzePromptType, PromptAnalysis } from './analysis';
+import { ResponseCache } from './cache';
+import { JsonSchema } from './jsonSchema';
+import { LintFinding, LintSeverityOverrides, lintPrompt } from './lint';
+import { OptimizationInput, OptimizationOutput, OptimizationPolicy, runOptimization } from './optimizer';
+import { ModelInfo } from './pricing';
+import { extractPrompts, formatForSource, PromptSpan } from './promptExtraction';
+import { QualityScore, scorePrompt } from './quality';
+import { createProvider, HttpOptions, isProviderId, LLMProvider, PROVIDERS, TokenHandler } from './providers';
+import { createBuiltInLibrary, DEFAULT_TEMPLATE_ID, libraryFromMarkdown, mergeLibraries, TemplateLibrary } from './templates';
+import { LoadedWorkspaceConfig, parseWorkspaceConfig, WORKSPACE_CONFIG_FILES } from './workspaceConfig';
+
+export interface OptimizeTextOptions {
+    // Defaults to the built-in library
+    library?: TemplateLibrary;
+    // Unknown ids fall back to the default template
+    templateId?: string;
+    // Detected from the prompt when omitted
+    analysis?: OptimizationInput['analysis'];
+    targetModel?: string;
+    temperature?: number;
+    modelInfo?: ModelInfo;
+    policy?: OptimizationPolicy;
+    structured?: boolean;
+    cache?: ResponseCache<OptimizationOutput>;
+    signal?: AbortSignal;
+}
+
+export interface TextOptimization extends OptimizationOutput {
+    analysis: OptimizationInput['analysis'];
+}
+
+export interface FileLintFinding extends LintFinding {
+    // 1-based position of the finding in the file
+    line: number;
+    column: number;
+    // The prompt the finding belongs to
+    prompt: number;
+}
+
+export interface ProviderOptions {
+    provider?: string;
+    model?: string;
+    baseUrl?: string;
+    // Azure OpenAI only
+    apiVersion?: string;
+    apiKey?: string;
+    http?: HttpOptions;
+}
+
+let workspaceConfigSchema: JsonSchema | undefined;
+
+export function buildOptimizationInput(prompt: string, options: OptimizeTextOptions = {}): OptimizationInput {
+    const library = options.library || createBuiltInLibrary();
+    const templateId = options.templateId && library.templates.has(options.templateId) ? options.templateId : DEFAULT_TEMPLATE_ID;
+    return {
+        prompt,
+        analysis: options.analysis || analyzePromptType(prompt, options.targetModel),
+        library,
+        templateId,
+        targetModel: options.targetModel,
+        temperature: options.temperature,
+        modelInfo: options.modelInfo,
+        policy: options.policy,
+        structured: options.structured,
+        cache: options.cache,
+        signal: options.signal
+    };
+}
+
+// Analyze, build the meta-prompt and call the provider in one step
+export async function optimizeText(provider: LLMProvider, prompt: string, options: OptimizeTextOptions = {}, onToken?: TokenHandler): Promise<TextOptimization> {
+    const input = buildOptimizationInput(prompt, options);
+    return { ...await runOptimization(provider, input, onToken), analysis: input.analysis };
+}
+
+// Prompts found in a file; files without recognizable prompts are one prompt
+export function promptsInFile(text: string, fileName: string): PromptSpan[] {
+    const spans = extractPrompts(text, fileName);
+    return spans.length || !text.trim() ? spans : [{ kind: 'file', start: 0, end: text.length, text }];
+}
+
+// Write optimized prompts back into the file, each in its span's own format
+export function replacePrompts(text: string, spans: PromptSpan[], optimized: string[]): string {
+    return spans
+        .map((span, index) => ({ span, replacement: optimized[index] }))
+        .filter(({ replacement }) => replacement !== undefined)
+        .sort((a, b) => b.span.start - a.span.start)
+        .reduce((result, { span, replacement }) => result.slice(0, span.start) + formatForSource(span, replacement) + result.slice(span.end), text);
+}
+
+export function offsetToPosition(text: string, offset: number): { line: number; column: number } {
+    const before = text.slice(0, offset).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+// Lint every prompt in a file. Findings inside string literals point at the
+// literal, since its decoded text no longer lines up with the source.
+export function lintFile(text: string, fileName: string, overrides: LintSeverityOverrides = {}): FileLintFinding[] {
+    return promptsInFile(text, fileName).flatMap((span, prompt) => lintPrompt(span.text, overrides).map(finding => ({
+        ...finding,
+        ...offsetToPosition(text, span.literal ? span.start : span.start + finding.start),
+        prompt
+    })));
+}
+
+export function analyzeFile(text: string, fileName: string, targetModel?: string): Array<{ span: PromptSpan; analysis: PromptAnalysis; quality: QualityScore }> {
+    return promptsInFile(text, fileName).map(span => ({ span, analysis: analyzePromptType(span.text, targetModel), quality: scorePrompt(span.text) }));
+}
+
+// `.promptious.json` / `.yaml` in `root`, or the given file relative to it;
+// undefined when there is none
+export function readWorkspaceConfig(
+    root: string,
+    fileName = WORKSPACE_CONFIG_FILES.find(name => fs.existsSync(path.join(root, name)))
+): LoadedWorkspaceConfig | undefined {
+    if (!fileName) {
+        return undefined;
+    }
+    try {
+        workspaceConfigSchema ??= JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'schemas', 'promptious.schema.json'), 'utf8')) as JsonSchema;
+        return parseWorkspaceConfig(fs.readFileSync(path.resolve(root, fileName), 'utf8'), fileName, workspaceConfigSchema);
+    } catch (error) {
+        return { fileName, config: {}, errors: [error instanceof Error ? error.message : String(error)] };
+    }
+}
+
+function readMarkdownFiles(directory: string): Array<[string, string]> {
+    if (!fs.existsSync(directory)) {
+        return [];
+    }
+    return fs.readdirSync(directory)
+        .filter(name => name.endsWith('.md'))
+        .sort()
+        .map((name): [string, string] => [path.basename(name, '.md'), fs.readFileSync(path.join(directory, name), 'utf8')]);
+}
+
+// The built-in library with `.promptious/techniques/*.md` and
+// `.promptious/templates/*.md` from `root` on top
+export function readTemplateLibrary(root: string): TemplateLibrary {
+    return mergeLibraries(createBuiltInLibrary(), libraryFromMarkdown(
+        readMarkdownFiles(path.join(root, '.promptious', 'techniques')),
+        readMarkdownFiles(path.join(root, '.promptious', 'templates')),
+        'workspace'
+    ));
+}
+
+// Build a provider outside the editor; the API key comes from the options or
+// the provider's environment variable
+export function createProviderFromEnvironment(options: ProviderOptions, env: NodeJS.ProcessEnv = process.env): LLMProvider {
+    const id = options.provider || 'openai';
+    if (!isProviderId(id)) {
+        throw new Error(`Unknown provider "${id}". Use one of: ${Object.keys(PROVIDERS).join(', ')}`);
+    }
+
+    const definition = PROVIDERS[id];
+    const apiKey = options.apiKey || (definition.apiKeyEnvVar ? env[definition.apiKeyEnvVar] : undefined);
+    if (definition.requiresApiKey && !apiKey) {
+        throw new Error(`${definition.label} API key not configured. Set ${definition.apiKeyEnvVar}.`);
+    }
+
+    const model = options.model || definition.models[0] || '';
+    return createProvider(id, {
+        apiKey,
+        baseUrl: options.baseUrl || definition.defaultBaseUrl,
+        model,
+        deployment: id === 'azure' ? model : undefined,
+        apiVersion: id === 'azure' ? options.apiVersion : undefined,
+        http: options.http
+    });
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+
+export const PROMPT_SCHEME = 'promptious';
+
+// Read-only virtual documents backing the original/optimized diff editors
+export class PromptDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly documents = new Map<string, string>();
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.documents.get(uri.toString()) ?? '';
+    }
+
+    set(uri: vscode.Uri, content: string): void {
+        this.documents.set(uri.toString(), content);
+        this.changeEmitter.fire(uri);
+    }
+
+    delete(uri: vscode.Uri): void {
+        this.documents.delete(uri.toString());
+    }
+
+    dispose(): void {
+        this.documents.clear();
+        this.changeEmitter.dispose();
+    }
+}
+
+export const promptDocuments = new PromptDocumentProvider();
+
+export interface DiffSession {
+    readonly originalUri: vscode.Uri;
+    readonly optimizedUri: vscode.Uri;
+    append(delta: string): void;
+    setText(text: string): void;
+    show(): Thenable<unknown>;
+}
+
+let nextSessionId = 1;
+const RENDER_INTERVAL_MS = 100;
+
+// Open a diff of the original prompt against a document that fills in as
+// tokens stream in. Updates are throttled so the editor stays responsive.
+export async function openStreamingDiff(original: string, title: string, initialText = ''): Promise<DiffSession> {
+    const id = nextSessionId++;
+    const originalUri = vscode.Uri.from({ scheme: PROMPT_SCHEME, path: `/${id}/original.md` });
+    const optimizedUri = vscode.Uri.from({ scheme: PROMPT_SCHEME, path: `/${id}/optimized.md` });
+
+    let text = initialText;
+    let timer: NodeJS.Timeout | undefined;
+
+    const render = () => {
+        timer = undefined;
+        promptDocuments.set(optimizedUri, text);
+    };
+
+    const show = () => {
+        promptDocuments.set(originalUri, original);
+        promptDocuments.set(optimizedUri, text);
+        return vscode.commands.executeCommand('vscode.diff', originalUri, optimizedUri, title, {
+            preview: true,
+            viewColumn: vscode.ViewColumn.Beside
+        });
+    };
+
+    await show();
+
+    return {
+        originalUri,
+        optimizedUri,
+        append(delta: string) {
+            text += delta;
+            if (!timer) {
+                timer = setTimeout(render, RENDER_INTERVAL_MS);
+            }
+        },
+        setText(value: string) {
+            text = value;
+            if (timer) {
+                clearTimeout(timer);
+            }
+            render();
+        },
+        show
+    };
+}
+
+// Show a finished original/optimized pair, e.g. from history
+export function showPromptDiff(original: string, optimized: string, title: string): Promise<DiffSession> {
+    return openStreamingDiff(original, title, optimized);
+}
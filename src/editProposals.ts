@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+
+export interface EditProposal {
+    id: number;
+    uri: vscode.Uri;
+    range: vscode.Range;
+    original: string;
+    optimized: string;
+    // String-literal content is not valid code on a line of its own, so it can
+    // only replace the original
+    inLiteral?: boolean;
+}
+
+export type ApplyMode = 'replace' | 'insertBelow';
+
+// Pending optimizations anchored to the selection they came from, surfaced as
+// Accept / Reject / Insert Below CodeLenses until the user decides.
+export class EditProposalStore implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly proposals = new Map<string, EditProposal>();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly decoration = vscode.window.createTextEditorDecorationType({
+        backgroundColor: new vscode.ThemeColor('diffEditor.removedTextBackground'),
+        isWholeLine: false
+    });
+    private nextId = 1;
+
+    readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    // One proposal per document; a new optimization replaces the previous one
+    propose(document: vscode.TextDocument, range: vscode.Range, original: string, optimized: string, inLiteral = false): EditProposal {
+        const proposal: EditProposal = { id: this.nextId++, uri: document.uri, range, original, optimized, inLiteral };
+        this.proposals.set(document.uri.toString(), proposal);
+        this.refresh();
+        return proposal;
+    }
+
+    forDocument(uri: vscode.Uri): EditProposal | undefined {
+        return this.proposals.get(uri.toString());
+    }
+
+    get(id: number): EditProposal | undefined {
+        return [...this.proposals.values()].find(p => p.id === id);
+    }
+
+    discard(id: number): void {
+        for (const [key, proposal] of this.proposals) {
+            if (proposal.id === id) {
+                this.proposals.delete(key);
+            }
+        }
+        this.refresh();
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const proposal = this.proposals.get(document.uri.toString());
+        if (!proposal) {
+            return [];
+        }
+
+        const anchor = new vscode.Range(proposal.range.start, proposal.range.start);
+        return [
+            new vscode.CodeLens(anchor, { title: '$(check) Accept optimized prompt', command: 'promptious.acceptOptimization', arguments: [proposal.id] }),
+            ...!proposal.inLiteral
+                ? [new vscode.CodeLens(anchor, { title: '$(arrow-down) Insert below', command: 'promptious.insertOptimizationBelow', arguments: [proposal.id] })]
+                : [],
+            new vscode.CodeLens(anchor, { title: '$(close) Reject', command: 'promptious.rejectOptimization', arguments: [proposal.id] })
+        ];
+    }
+
+    // Highlight the original span in every visible editor that has a proposal
+    refreshDecorations(): void {
+        for (const editor of vscode.window.visibleTextEditors) {
+            const proposal = this.proposals.get(editor.document.uri.toString());
+            editor.setDecorations(this.decoration, proposal ? [proposal.range] : []);
+        }
+    }
+
+    dispose(): void {
+        this.proposals.clear();
+        this.changeEmitter.dispose();
+        this.decoration.dispose();
+    }
+
+    private refresh(): void {
+        this.changeEmitter.fire();
+        this.refreshDecorations();
+    }
+}
+
+export const editProposals = new EditProposalStore();
+
+// Apply the optimized text as a single WorkspaceEdit so one undo restores the original
+export async function applyProposal(proposal: EditProposal, mode: ApplyMode): Promise<boolean> {
+    const document = await vscode.workspace.openTextDocument(proposal.uri);
+
+    if (document.getText(proposal.range) !== proposal.original) {
+        vscode.window.showWarningMessage('The original text changed since it was optimized. The suggestion was discarded.');
+        return false;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    if (mode === 'replace') {
+        edit.replace(proposal.uri, proposal.range, proposal.optimized);
+    } else {
+        const lineEnd = document.lineAt(proposal.range.end.line).range.end;
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        edit.insert(proposal.uri, lineEnd, `${eol}${proposal.optimized}`);
+    }
+
+    return vscode.workspace.applyEdit(edit);
+}
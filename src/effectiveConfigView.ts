@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+import { getEffectiveConfig, getWorkspaceConfig, invalidateWorkspaceConfig, pickPreset } from './config';
+import { effectiveConfigToMarkdown } from './workspaceConfig';
+
+// Watch `.promptious.json` / `.yaml` and show how every setting was resolved
+export function registerWorkspaceConfig(context: vscode.ExtensionContext): void {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/.promptious.{json,yaml,yml}');
+    watcher.onDidCreate(invalidateWorkspaceConfig);
+    watcher.onDidChange(invalidateWorkspaceConfig);
+    watcher.onDidDelete(invalidateWorkspaceConfig);
+
+    const showEffectiveConfigCommand = vscode.commands.registerCommand('promptious.showEffectiveConfig', async () => {
+        try {
+            const preset = await pickPreset('Show the configuration for a preset');
+            if (!preset) {
+                return;
+            }
+            const markdown = effectiveConfigToMarkdown(getEffectiveConfig(preset.name), getWorkspaceConfig(), preset.name);
+            const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: markdown });
+            await vscode.commands.executeCommand('markdown.showPreview', document.uri);
+        } catch (error) {
+            console.error('Error showing effective config:', error);
+            vscode.window.showErrorMessage('Error showing effective config: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    context.subscriptions.push(
+        watcher,
+        showEffectiveConfigCommand,
+        vscode.workspace.onDidChangeWorkspaceFolders(invalidateWorkspaceConfig)
+    );
+}
@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import { editProposals } from './editProposals';
+import { extractPrompts, formatForSource, PromptSpan } from './promptExtraction';
+
+export type EmbeddedPromptOptimizer = (prompt: string) => Promise<string | undefined>;
+
+const EMBEDDED_PROMPT_LANGUAGES = ['typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'python', 'markdown'];
+
+// CodeLenses and code actions ask for the same document many times
+const cache = new Map<string, { version: number; spans: PromptSpan[] }>();
+
+function isCodeLensEnabled(): boolean {
+    return vscode.workspace.getConfiguration('promptious').get<boolean>('codeLens.enabled', true);
+}
+
+// Prompts in string literals and ```prompt fences; whole prompt files have their own commands
+export function findEmbeddedPrompts(document: vscode.TextDocument): PromptSpan[] {
+    if (!EMBEDDED_PROMPT_LANGUAGES.includes(document.languageId)) {
+        return [];
+    }
+    const key = document.uri.toString();
+    const cached = cache.get(key);
+    if (cached?.version === document.version) {
+        return cached.spans;
+    }
+    const spans = extractPrompts(document.getText(), document.fileName).filter(span => span.kind !== 'file');
+    cache.set(key, { version: document.version, spans });
+    return spans;
+}
+
+function toRange(document: vscode.TextDocument, span: PromptSpan): vscode.Range {
+    return new vscode.Range(document.positionAt(span.start), document.positionAt(span.end));
+}
+
+class EmbeddedPromptCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly subscriptions = [
+        // Hide the lens while an Accept / Reject proposal sits on the same prompt
+        editProposals.onDidChangeCodeLenses(() => this.changeEmitter.fire()),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('promptious.codeLens')) {
+                this.changeEmitter.fire();
+            }
+        })
+    ];
+
+    readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!isCodeLensEnabled()) {
+            return [];
+        }
+        const proposal = editProposals.forDocument(document.uri);
+        return findEmbeddedPrompts(document)
+            .map(span => toRange(document, span))
+            .filter(range => !proposal?.range.intersection(range))
+            .map(range => new vscode.CodeLens(new vscode.Range(range.start, range.start), {
+                title: '$(sparkle) Optimize prompt',
+                command: 'promptious.optimizeEmbeddedPrompt',
+                arguments: [document.uri, document.offsetAt(range.start)]
+            }));
+    }
+
+    dispose(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.changeEmitter.dispose();
+    }
+}
+
+// Offered when the cursor sits inside a detected prompt without a selection
+export function getEmbeddedPromptActions(document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction[] {
+    if (!range.isEmpty) {
+        return [];
+    }
+    const offset = document.offsetAt(range.start);
+    const span = findEmbeddedPrompts(document).find(candidate => candidate.start <= offset && offset <= candidate.end);
+    if (!span) {
+        return [];
+    }
+    const action = new vscode.CodeAction(`Optimize ${span.name ? `"${span.name}"` : 'embedded prompt'} with Promptious`, vscode.CodeActionKind.QuickFix);
+    action.command = {
+        command: 'promptious.optimizeEmbeddedPrompt',
+        title: 'Optimize Prompt',
+        arguments: [document.uri, span.start]
+    };
+    return [action];
+}
+
+// Optimize the decoded prompt, then propose it re-encoded for the host language
+async function optimizeEmbeddedPrompt(uri: vscode.Uri, start: number, optimize: EmbeddedPromptOptimizer): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const span = findEmbeddedPrompts(document).find(candidate => candidate.start === start);
+    if (!span) {
+        vscode.window.showWarningMessage('The prompt changed since the CodeLens was shown. Please try again.');
+        return;
+    }
+
+    const range = toRange(document, span);
+    const original = document.getText(range);
+    const optimized = await optimize(span.text);
+    if (optimized) {
+        // Escaped literal content only fits back between its own delimiters
+        editProposals.propose(document, range, original, formatForSource(span, optimized), Boolean(span.literal));
+    }
+}
+
+export function registerEmbeddedPrompts(context: vscode.ExtensionContext, optimize: EmbeddedPromptOptimizer): void {
+    const codeLensProvider = new EmbeddedPromptCodeLensProvider();
+    const selector = EMBEDDED_PROMPT_LANGUAGES.map(language => ({ language }));
+
+    const optimizeEmbeddedPromptCommand = vscode.commands.registerCommand('promptious.optimizeEmbeddedPrompt', async (uri: vscode.Uri, start: number) => {
+        try {
+            await optimizeEmbeddedPrompt(uri, start, optimize);
+        } catch (error) {
+            console.error('Error in optimizeEmbeddedPrompt command:', error);
+            vscode.window.showErrorMessage('Error optimizing prompt: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    context.subscriptions.push(
+        codeLensProvider,
+        vscode.languages.registerCodeLensProvider(selector, codeLensProvider),
+        optimizeEmbeddedPromptCommand,
+        vscode.workspace.onDidCloseTextDocument(document => cache.delete(document.uri.toString()))
+    );
+}
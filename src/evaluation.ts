@@ -0,0 +1,331 @@
+import { mapWithConcurrency } from './concurrency';
+import { extractJson, JsonSchema, validateJsonSchema } from './jsonSchema';
+import { deriveMaxTokens, getModelInfo, ModelInfo } from './pricing';
+import { ChatMessage, LLMProvider, ProviderError } from './providers';
+import { countTokens } from './tokens';
+import { BudgetExceededError } from './usage';
+import { parseYaml } from './yaml';
+
+export interface EvalExpectation {
+    contains?: string | string[];
+    notContains?: string | string[];
+    regex?: string | string[];
+    jsonSchema?: JsonSchema;
+    // Graded by the model acting as a judge
+    rubric?: string;
+}
+
+export interface EvalCase {
+    name: string;
+    input: string;
+    expect: EvalExpectation;
+}
+
+export interface CheckResult {
+    check: keyof EvalExpectation;
+    passed: boolean;
+    detail: string;
+}
+
+export interface CaseResult {
+    name: string;
+    input: string;
+    output: string;
+    error?: string;
+    checks: CheckResult[];
+    passed: boolean;
+}
+
+export interface PromptVersionReport {
+    label: 'original' | 'optimized';
+    prompt: string;
+    results: CaseResult[];
+    passed: number;
+    total: number;
+    passRate: number;
+}
+
+export interface EvaluationReport {
+    dataset: string;
+    provider: string;
+    model: string;
+    timestamp: string;
+    versions: PromptVersionReport[];
+}
+
+export interface EvaluationOptions {
+    original: string;
+    optimized: string;
+    cases: EvalCase[];
+    dataset: string;
+    // Defaults to the provider under test
+    judge?: LLMProvider;
+    // Limits used to size each completion; defaults to the built-in table
+    modelInfo?: ModelInfo;
+    concurrency?: number;
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+}
+
+const isText = (value: unknown) => typeof value === 'string';
+const isTextList = (value: unknown) => isText(value) || Array.isArray(value) && value.every(isText);
+const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+interface ExpectationType {
+    description: string;
+    accepts(value: unknown): boolean;
+}
+
+// What each expectation accepts, checked on load so a bad case fails loudly
+const EXPECTATION_TYPES: Record<keyof EvalExpectation, ExpectationType> = {
+    contains: { description: 'a string or a list of strings', accepts: isTextList },
+    notContains: { description: 'a string or a list of strings', accepts: isTextList },
+    regex: { description: 'a string or a list of strings', accepts: isTextList },
+    jsonSchema: { description: 'an object', accepts: isObject },
+    rubric: { description: 'a string', accepts: isText }
+};
+
+function toCase(raw: unknown, index: number): EvalCase {
+    if (!isObject(raw)) {
+        throw new Error(`Case ${index + 1}: expected an object`);
+    }
+    const record = raw as Record<string, unknown>;
+    if (typeof record.input !== 'string') {
+        throw new Error(`Case ${index + 1}: "input" must be a string`);
+    }
+
+    // Expectations may be nested under `expect` or given inline
+    if (record.expect !== undefined && record.expect !== null && !isObject(record.expect)) {
+        throw new Error(`Case ${index + 1}: "expect" must be an object`);
+    }
+    const source = (isObject(record.expect) ? record.expect : record) as Record<string, unknown>;
+    const expect: Partial<Record<keyof EvalExpectation, unknown>> = {};
+    for (const [key, type] of Object.entries(EXPECTATION_TYPES) as Array<[keyof EvalExpectation, ExpectationType]>) {
+        const value = source[key];
+        if (value === undefined || value === null) {
+            continue;
+        }
+        if (!type.accepts(value)) {
+            throw new Error(`Case ${index + 1}: "${key}" must be ${type.description}`);
+        }
+        expect[key] = value;
+    }
+
+    return { name: typeof record.name === 'string' ? record.name : `Case ${index + 1}`, input: record.input, expect: expect as EvalExpectation };
+}
+
+// JSONL (one case per line), JSON or YAML; a top-level `cases` key is optional
+export function parseDataset(text: string, fileName: string): EvalCase[] {
+    let raw: unknown;
+    if (/\.jsonl$/i.test(fileName)) {
+        raw = text.split(/\r?\n/).map((line, index) => {
+            if (!line.trim()) {
+                return undefined;
+            }
+            try {
+                return JSON.parse(line);
+            } catch (error) {
+                throw new Error(`Line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }).filter(item => item !== undefined);
+    } else if (/\.json$/i.test(fileName)) {
+        raw = JSON.parse(text);
+    } else {
+        raw = parseYaml(text);
+    }
+
+    const list = Array.isArray(raw) ? raw : (raw as Record<string, unknown> | null)?.cases;
+    if (!Array.isArray(list)) {
+        throw new Error('Dataset must be a list of cases or an object with a "cases" list');
+    }
+    return list.map(toCase);
+}
+
+// `{{input}}` in the prompt is replaced; otherwise the prompt becomes the system message
+export function buildCaseMessages(prompt: string, input: string): ChatMessage[] {
+    if (/\{\{\s*input\s*\}\}/.test(prompt)) {
+        return [{ role: 'user', content: prompt.replace(/\{\{\s*input\s*\}\}/g, input) }];
+    }
+    return [{ role: 'system', content: prompt }, { role: 'user', content: input }];
+}
+
+const asList = (value: string | string[]) => Array.isArray(value) ? value : [value];
+
+// `/pattern/flags` or a bare pattern
+function toRegExp(pattern: string): RegExp {
+    const literal = /^\/(.*)\/([gimsuy]*)$/s.exec(pattern);
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+}
+
+async function judge(judgeProvider: LLMProvider, rubric: string, input: string, output: string, signal?: AbortSignal): Promise<CheckResult> {
+    const result = await judgeProvider.complete({
+        messages: [
+            {
+                role: 'system',
+                content: 'You are a strict evaluator. Grade the response against the rubric. Reply with JSON only: {"pass": true|false, "reason": "<one sentence>"}'
+            },
+            { role: 'user', content: `Rubric:\n${rubric}\n\nInput:\n${input}\n\nResponse:\n${output}` }
+        ],
+        maxTokens: 200,
+        temperature: 0,
+        signal
+    });
+
+    try {
+        const verdict = extractJson(result.text) as { pass?: unknown; reason?: unknown };
+        return { check: 'rubric', passed: verdict.pass === true, detail: String(verdict.reason ?? '') };
+    } catch {
+        // Fall back to a plain PASS/FAIL answer
+        return { check: 'rubric', passed: /^\s*pass\b/i.test(result.text), detail: result.text.slice(0, 200) };
+    }
+}
+
+export async function checkOutput(
+    output: string,
+    testCase: EvalCase,
+    judgeProvider?: LLMProvider,
+    signal?: AbortSignal
+): Promise<CheckResult[]> {
+    const { expect } = testCase;
+    const checks: CheckResult[] = [];
+
+    for (const needle of expect.contains !== undefined ? asList(expect.contains) : []) {
+        checks.push({ check: 'contains', passed: output.includes(needle), detail: `contains "${needle}"` });
+    }
+    for (const needle of expect.notContains !== undefined ? asList(expect.notContains) : []) {
+        checks.push({ check: 'notContains', passed: !output.includes(needle), detail: `does not contain "${needle}"` });
+    }
+    for (const pattern of expect.regex !== undefined ? asList(expect.regex) : []) {
+        let passed = false;
+        let detail = `matches ${pattern}`;
+        try {
+            passed = toRegExp(pattern).test(output);
+        } catch (error) {
+            detail = `invalid regex ${pattern}: ${error instanceof Error ? error.message : String(error)}`;
+        }
+        checks.push({ check: 'regex', passed, detail });
+    }
+    if (expect.jsonSchema) {
+        try {
+            const violations = validateJsonSchema(extractJson(output), expect.jsonSchema);
+            checks.push({ check: 'jsonSchema', passed: !violations.length, detail: violations.join('; ') || 'matches JSON schema' });
+        } catch (error) {
+            checks.push({ check: 'jsonSchema', passed: false, detail: error instanceof Error ? error.message : String(error) });
+        }
+    }
+    if (expect.rubric) {
+        if (judgeProvider) {
+            checks.push(await judge(judgeProvider, expect.rubric, testCase.input, output, signal));
+        } else {
+            checks.push({ check: 'rubric', passed: false, detail: 'No judge model available' });
+        }
+    }
+
+    return checks;
+}
+
+// Run the original and optimized prompt over every case and score both
+export async function runEvaluation(provider: LLMProvider, options: EvaluationOptions): Promise<EvaluationReport> {
+    const versions: Array<{ label: PromptVersionReport['label']; prompt: string }> = [
+        { label: 'original', prompt: options.original },
+        { label: 'optimized', prompt: options.optimized }
+    ];
+    const jobs = versions.flatMap(version => options.cases.map(testCase => ({ version, testCase })));
+    const judgeProvider = options.judge || provider;
+    const modelInfo = options.modelInfo || getModelInfo(provider.model, provider.id);
+    let done = 0;
+
+    const results = await mapWithConcurrency(jobs, options.concurrency ?? 3, async ({ version, testCase }): Promise<CaseResult> => {
+        try {
+            const messages = buildCaseMessages(version.prompt, testCase.input);
+            const completion = await provider.complete({
+                messages,
+                maxTokens: deriveMaxTokens(modelInfo, messages.reduce((total, message) => total + countTokens(message.content, provider.model), 0)),
+                temperature: 0,
+                signal: options.signal
+            });
+            const checks = await checkOutput(completion.text, testCase, judgeProvider, options.signal);
+            return { name: testCase.name, input: testCase.input, output: completion.text, checks, passed: checks.every(check => check.passed) };
+        } catch (error) {
+            if (error instanceof ProviderError && error.kind === 'cancelled' || error instanceof BudgetExceededError) {
+                throw error;
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            return { name: testCase.name, input: testCase.input, output: '', error: message, checks: [], passed: false };
+        } finally {
+            options.onProgress?.(++done, jobs.length);
+        }
+    });
+
+    return {
+        dataset: options.dataset,
+        provider: provider.label,
+        model: provider.model,
+        timestamp: new Date().toISOString(),
+        versions: versions.map((version, index) => {
+            const versionResults = results.slice(index * options.cases.length, (index + 1) * options.cases.length);
+            const passed = versionResults.filter(result => result.passed).length;
+            return {
+                label: version.label,
+                prompt: version.prompt,
+                results: versionResults,
+                passed,
+                total: versionResults.length,
+                passRate: versionResults.length ? passed / versionResults.length : 0
+            };
+        })
+    };
+}
+
+// Put redacted values back into the prompts, inputs and outputs of a report
+export function restoreReport(report: EvaluationReport, restore: (text: string) => string): EvaluationReport {
+    return {
+        ...report,
+        versions: report.versions.map(version => ({
+            ...version,
+            prompt: restore(version.prompt),
+            results: version.results.map(result => ({
+                ...result,
+                input: restore(result.input),
+                output: restore(result.output),
+                checks: result.checks.map(check => ({ ...check, detail: restore(check.detail) }))
+            }))
+        }))
+    };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export function evaluationToMarkdown(report: EvaluationReport): string {
+    const sections = report.versions.map(version => `## ${version.label === 'original' ? 'Original' : 'Optimized'} Prompt
+\`\`\`
+${version.prompt}
+\`\`\`
+
+${version.results.map(result => `### ${result.passed ? '✅' : '❌'} ${result.name}
+
+**Input:** ${result.input}
+
+${result.error ? `**Error:** ${result.error}` : `**Output:**
+\`\`\`
+${result.output}
+\`\`\``}
+
+${result.checks.map(check => `- ${check.passed ? '✅' : '❌'} \`${check.check}\` ${check.detail}`).join('\n')}
+`).join('\n')}`);
+
+    return `# Prompt Evaluation Report
+
+**Generated:** ${new Date(report.timestamp).toLocaleString()}  
+**Dataset:** ${report.dataset}  
+**Provider:** ${report.provider} (${report.model})
+
+| Prompt | Passed | Pass Rate |
+| --- | --- | --- |
+${report.versions.map(version => `| ${version.label} | ${version.passed}/${version.total} | ${percent(version.passRate)} |`).join('\n')}
+
+${sections.join('\n')}
+---
+*Generated by Promptious Optimizer Extension*
+`;
+}
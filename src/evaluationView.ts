@@ -0,0 +1,215 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { analyzePromptType } from './analysis';
+import { getOptimizationSettings, resolveProvider } from './config';
+import { EvaluationReport, evaluationToMarkdown, parseDataset, restoreReport, runEvaluation } from './evaluation';
+import { runOptimization } from './optimizer';
+import { ProviderError } from './providers';
+import { guardPrompts } from './sendGuard';
+import { getDefaultTemplateId, loadTemplateLibrary } from './templateRegistry';
+import { resolveModelInfo } from './usageTracking';
+import { createNonce, escapeHtml } from './webviewHtml';
+
+const DATASET_GLOB = '.promptious/evals/*.{jsonl,json,yaml,yml}';
+
+// Datasets live in `.promptious/evals/`; anything else can be browsed to
+async function pickDataset(): Promise<vscode.Uri | undefined> {
+    const files = await vscode.workspace.findFiles(DATASET_GLOB);
+    const browse = { label: '$(folder-opened) Browse...', uri: undefined as vscode.Uri | undefined };
+    const picked = files.length
+        ? await vscode.window.showQuickPick([
+            ...files.map(uri => ({ label: path.basename(uri.path), description: vscode.workspace.asRelativePath(uri), uri })),
+            browse
+        ], { placeHolder: 'Evaluation dataset' })
+        : browse;
+    if (!picked) {
+        return undefined;
+    }
+    if (picked.uri) {
+        return picked.uri;
+    }
+
+    const selected = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'Evaluation datasets': ['jsonl', 'json', 'yaml', 'yml'] },
+        openLabel: 'Evaluate'
+    });
+    return selected?.[0];
+}
+
+async function saveReport(report: EvaluationReport): Promise<vscode.Uri | undefined> {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+        return undefined;
+    }
+
+    const reports = vscode.Uri.joinPath(folder.uri, '.promptious', 'reports');
+    const stem = `eval-${report.timestamp.replace(/[:.]/g, '-')}`;
+    await vscode.workspace.fs.createDirectory(reports);
+    await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(reports, `${stem}.json`), Buffer.from(JSON.stringify(report, null, 2), 'utf8'));
+    const markdown = vscode.Uri.joinPath(reports, `${stem}.md`);
+    await vscode.workspace.fs.writeFile(markdown, Buffer.from(evaluationToMarkdown(report), 'utf8'));
+    return markdown;
+}
+
+function renderHtml(webview: vscode.Webview, report: EvaluationReport): string {
+    const nonce = createNonce();
+    const [original, optimized] = report.versions;
+    const rows = original.results.map((result, index) => {
+        const other = optimized.results[index];
+        const cell = (item: typeof result) => `<td class="${item.passed ? 'pass' : 'fail'}">
+    <pre>${escapeHtml(item.error || item.output)}</pre>
+    <ul>${item.checks.map(check => `<li>${check.passed ? '✅' : '❌'} <code>${check.check}</code> ${escapeHtml(check.detail)}</li>`).join('')}</ul>
+</td>`;
+        return `<tr><th><strong>${escapeHtml(result.name)}</strong><pre>${escapeHtml(result.input)}</pre></th>${cell(result)}${cell(other)}</tr>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .summary { display: flex; gap: 24px; }
+    .score { font-size: 2em; font-weight: bold; }
+    table { border-collapse: collapse; width: 100%; table-layout: fixed; }
+    th, td { border: 1px solid var(--vscode-panel-border); padding: 6px; vertical-align: top; text-align: left; }
+    td.fail { background: var(--vscode-diffEditor-removedTextBackground); }
+    pre { white-space: pre-wrap; font-family: var(--vscode-editor-font-family); }
+    ul { padding-left: 16px; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+</style>
+</head>
+<body>
+<h1>Prompt Evaluation</h1>
+<p>${escapeHtml(report.dataset)} · ${escapeHtml(report.provider)} (${escapeHtml(report.model)})</p>
+<div class="summary">
+${report.versions.map(version => `<div><div class="score">${(version.passRate * 100).toFixed(1)}%</div>${version.label} · ${version.passed}/${version.total} passed</div>`).join('\n')}
+</div>
+<p><button data-command="copyOptimized">Copy optimized prompt</button></p>
+<table>
+<thead><tr><th>Case</th><th>Original</th><th>Optimized</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('button[data-command]').forEach(button => {
+        button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command }));
+    });
+</script>
+</body>
+</html>`;
+}
+
+function showEvaluationPanel(report: EvaluationReport): vscode.WebviewPanel {
+    const panel = vscode.window.createWebviewPanel('promptious.evaluation', 'Prompt Evaluation', vscode.ViewColumn.Beside, {
+        enableScripts: true
+    });
+    panel.webview.html = renderHtml(panel.webview, report);
+    panel.webview.onDidReceiveMessage(async (message: { command: string }) => {
+        if (message.command === 'copyOptimized') {
+            await vscode.env.clipboard.writeText(report.versions[1].prompt);
+            vscode.window.showInformationMessage('Optimized prompt copied to clipboard.');
+        }
+    });
+    return panel;
+}
+
+// Optimize the prompt, then run both versions over a dataset and compare pass rates
+export async function evaluatePrompt(context: vscode.ExtensionContext, prompt: string): Promise<void> {
+    const datasetUri = await pickDataset();
+    if (!datasetUri) {
+        return;
+    }
+
+    const cases = parseDataset(Buffer.from(await vscode.workspace.fs.readFile(datasetUri)).toString('utf8'), datasetUri.path);
+    if (!cases.length) {
+        vscode.window.showWarningMessage('The dataset has no test cases.');
+        return;
+    }
+
+    const provider = await resolveProvider(context.secrets);
+    if (!provider) {
+        return;
+    }
+
+    // The prompt and every case input are sent; scan them together so redacted
+    // values share placeholders and come back in the report
+    const guarded = await guardPrompts([
+        { label: 'Prompt', text: prompt },
+        ...cases.map(testCase => ({ label: `Case "${testCase.name}"`, text: testCase.input }))
+    ], provider.label);
+    if (!guarded) {
+        return;
+    }
+    const [sentPrompt, ...inputs] = guarded.prompts as string[];
+    const sentCases = cases.map((testCase, index) => ({ ...testCase, input: inputs[index] }));
+
+    const report = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Evaluating prompt...',
+        cancellable: true
+    }, async (progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+
+        try {
+            progress.report({ message: 'Optimizing' });
+            const library = await loadTemplateLibrary();
+            const settings = getOptimizationSettings();
+            const optimized = await runOptimization(provider, {
+                prompt: sentPrompt,
+                analysis: analyzePromptType(sentPrompt, settings.targetModel),
+                library,
+                templateId: getDefaultTemplateId(library),
+                targetModel: settings.targetModel,
+                temperature: settings.temperature,
+                modelInfo: resolveModelInfo(provider.model, provider.id),
+                policy: settings.policy,
+                signal: controller.signal
+            });
+
+            let reported = 0;
+            const evaluated = await runEvaluation(provider, {
+                original: sentPrompt,
+                optimized: optimized.text,
+                cases: sentCases,
+                dataset: vscode.workspace.asRelativePath(datasetUri),
+                modelInfo: resolveModelInfo(provider.model, provider.id),
+                signal: controller.signal,
+                onProgress: (done, total) => {
+                    progress.report({ increment: (done - reported) * 100 / total, message: `${done} of ${total} runs` });
+                    reported = done;
+                }
+            });
+            return restoreReport(evaluated, guarded.restore);
+        } catch (error) {
+            if (error instanceof ProviderError && error.kind === 'cancelled') {
+                return undefined;
+            }
+            throw error;
+        } finally {
+            cancellation.dispose();
+        }
+    });
+
+    if (!report) {
+        vscode.window.showInformationMessage('Evaluation cancelled.');
+        return;
+    }
+
+    showEvaluationPanel(report);
+    const saved = await saveReport(report);
+    if (saved) {
+        const choice = await vscode.window.showInformationMessage(
+            `Evaluation report saved to ${vscode.workspace.asRelativePath(saved)}.`,
+            'Open Report'
+        );
+        if (choice === 'Open Report') {
+            await vscode.window.showTextDocument(saved);
+        }
+    }
+}
@@ -1,4 +1,37 @@
 import * as vscode from 'vscode';
+import { analyzePromptType, PromptAnalysis } from './analysis';
+import { reviewAnalysis } from './analysisView';
+import { optimizeWorkspace } from './batchView';
+import { getOptimizationSettings, getProviderSettings, pickPreset, resolveProvider } from './config';
+import { openStreamingDiff, PROMPT_SCHEME, promptDocuments } from './diffView';
+import { describeCacheAge } from './cache';
+import { buildOptimizationInput } from './core';
+import { applyProposal, ApplyMode, editProposals } from './editProposals';
+import { registerWorkspaceConfig } from './effectiveConfigView';
+import { getEmbeddedPromptActions, registerEmbeddedPrompts } from './embeddedPrompts';
+import { evaluatePrompt } from './evaluationView';
+import { recordOptimization, registerHistoryView } from './historyView';
+import { fillPlaceholder, getLintCodeActions, PROMPT_LANGUAGE_ID, registerPromptLinter } from './promptLanguage';
+import { optimizationReportToMarkdown } from './optimizationReport';
+import { applyTechniquePolicy, estimateOptimization, runOptimization } from './optimizer';
+import { describePlaceholderReport } from './placeholders';
+import { estimateCost, formatCost } from './pricing';
+import { registerPromptTemplateView } from './promptTemplateView';
+import { LLMProvider, ProviderError } from './providers';
+import { compareQuality, formatQualityChange, judgePromptQuality, QualityComparison, scorePrompt, toQualityRecord } from './quality';
+import { registerQualityHover } from './qualityHover';
+import { refinePrompt } from './refinementView';
+import { getResponseCache, registerResponseCache } from './responseCache';
+import { deleteApiKey, migratePlaintextApiKey, promptForApiKey } from './secrets';
+import { guardPrompt } from './sendGuard';
+import { getDefaultTemplateId, loadTemplateLibrary, pickTemplate } from './templateRegistry';
+import { countTokens, INTERACTIVE_ENCODED_LENGTH } from './tokens';
+import { BudgetExceededError } from './usage';
+import { registerUsageTracking, resolveModelInfo } from './usageTracking';
+import { optimizeVariants } from './variants';
+
+// Quiet time after the last selection change before the token count updates
+const STATUS_BAR_DELAY_MS = 150;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Promptious Optimizer extension activated');
@@ -12,12 +45,42 @@ export function activate(context: vscode.ExtensionContext) {
     statusBarItem.show();
     console.log('Status bar item created and shown');
 
+    // Token count of the selection with the configured model's tokenizer; large
+    // selections are estimated so cursor moves stay cheap
+    const updateStatusBarTokens = () => {
+        const editor = vscode.window.activeTextEditor;
+        const selectedText = editor?.document.getText(editor.selection) || '';
+        if (!selectedText.trim()) {
+            statusBarItem.text = "$(lightbulb) Promptious";
+            statusBarItem.tooltip = "Click to optimize prompt";
+            return;
+        }
+
+        const { definition, config: providerConfig } = getProviderSettings();
+        const tokens = countTokens(selectedText, providerConfig.model, INTERACTIVE_ENCODED_LENGTH);
+        const approximate = selectedText.length > INTERACTIVE_ENCODED_LENGTH ? '~' : '';
+        const cost = estimateCost(resolveModelInfo(providerConfig.model, definition.id), tokens, 0);
+        statusBarItem.text = `$(lightbulb) ${approximate}${tokens} tokens`;
+        statusBarItem.tooltip = `${approximate}${tokens} tokens with ${providerConfig.model} (${formatCost(cost)} as input)\nClick to optimize prompt`;
+    };
+    let statusBarTimer: NodeJS.Timeout | undefined;
+    const scheduleStatusBarTokens = () => {
+        clearTimeout(statusBarTimer);
+        statusBarTimer = setTimeout(updateStatusBarTokens, STATUS_BAR_DELAY_MS);
+    };
+    const statusBarSelection = vscode.window.onDidChangeTextEditorSelection(scheduleStatusBarTokens);
+    const statusBarEditor = vscode.window.onDidChangeActiveTextEditor(scheduleStatusBarTokens);
+    context.subscriptions.push({ dispose: () => clearTimeout(statusBarTimer) });
+
     // Register code action provider for lightbulb suggestions
     const codeActionProvider = vscode.languages.registerCodeActionsProvider(
         '*', // All languages
         {
             provideCodeActions(document, range, context, token) {
                 try {
+                    // Quick fixes for prompt lint diagnostics
+                    const lintActions = getLintCodeActions(document, context.diagnostics);
+
                     const selectedText = document.getText(range);
                     console.log('Code action provider called with text:', selectedText, 'length:', selectedText.length);
 
@@ -34,11 +97,22 @@ export function activate(context: vscode.ExtensionContext) {
                             arguments: []
                         };
                         action.isPreferred = true;
-                        return [action];
+
+                        const replaceAction = new vscode.CodeAction(
+                            'Optimize and replace with Promptious',
+                            vscode.CodeActionKind.QuickFix
+                        );
+                        replaceAction.command = {
+                            command: 'promptious.optimizeAndReplace',
+                            title: 'Optimize and Replace Selection',
+                            arguments: []
+                        };
+                        return [...lintActions, action, replaceAction];
                     }
 
                     console.log('No code action created - no text selected');
-                    return [];
+                    // The cursor may still be inside a prompt embedded in code
+                    return [...lintActions, ...getEmbeddedPromptActions(document, range)];
                 } catch (error) {
                     console.error('Error in code action provider:', error);
                     return [];
@@ -51,32 +125,39 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     // Simple command registration with optimization logic
-    const optimizePromptCommand = vscode.commands.registerCommand('promptious.optimizePrompt', async () => {
+    // `{ bypassCache: true }` (or the "Bypass Cache" variants) always calls the model
+    const optimizePromptHandler = async (args?: { bypassCache?: boolean }) => {
         try {
             const prompt = await vscode.window.showInputBox({
                 prompt: 'Enter the prompt to optimize:',
                 placeHolder: 'Type your prompt here...'
             });
 
-            if (prompt) {
-                await optimizePrompt(prompt);
+            if (!prompt) {
+                return;
+            }
+
+            // Team presets from `.promptious.json`, if the workspace defines any
+            const preset = await pickPreset();
+            if (preset) {
+                await optimizePrompt(context, prompt, { preset: preset.name, bypassCache: args?.bypassCache });
             }
         } catch (error) {
             console.error('Error in optimizePrompt command:', error);
             vscode.window.showErrorMessage('Error optimizing prompt: ' + (error instanceof Error ? error.message : String(error)));
         }
-    });
+    };
+    const optimizePromptCommand = vscode.commands.registerCommand('promptious.optimizePrompt', optimizePromptHandler);
+    const optimizePromptNoCacheCommand = vscode.commands.registerCommand('promptious.optimizePromptNoCache', () => optimizePromptHandler({ bypassCache: true }));
 
-    // Add optimize selection command
-    const optimizeSelectionCommand = vscode.commands.registerCommand('promptious.optimizeSelection', async () => {
+    // Add optimize selection command; the result is offered back as an
+    // Accept / Reject / Insert Below proposal anchored to the selection
+    const optimizeSelectionHandler = async (args?: { bypassCache?: boolean }) => {
         try {
             const editor = vscode.window.activeTextEditor;
             if (editor) {
-                const selection = editor.selection;
-                const selectedText = editor.document.getText(selection);
-
-                if (selectedText.trim()) {
-                    await optimizePrompt(selectedText);
+                if (editor.document.getText(editor.selection).trim()) {
+                    await optimizeEditorSelection(context, editor, { bypassCache: args?.bypassCache });
                 } else {
                     vscode.window.showWarningMessage('Please select some text to optimize.');
                 }
@@ -87,8 +168,206 @@ export function activate(context: vscode.ExtensionContext) {
             console.error('Error in optimizeSelection command:', error);
             vscode.window.showErrorMessage('Error optimizing selection: ' + (error instanceof Error ? error.message : String(error)));
         }
+    };
+    const optimizeSelectionCommand = vscode.commands.registerCommand('promptious.optimizeSelection', optimizeSelectionHandler);
+    const optimizeSelectionNoCacheCommand = vscode.commands.registerCommand('promptious.optimizeSelectionNoCache', () => optimizeSelectionHandler({ bypassCache: true }));
+
+    // Pick a template from the technique library for this run only
+    const optimizeWithTemplateCommand = vscode.commands.registerCommand('promptious.optimizeWithTemplate', async () => {
+        try {
+            const template = await pickTemplate(await loadTemplateLibrary());
+            if (!template) {
+                return;
+            }
+
+            const editor = vscode.window.activeTextEditor;
+            if (editor && editor.document.getText(editor.selection).trim()) {
+                await optimizeEditorSelection(context, editor, { template });
+                return;
+            }
+
+            const prompt = await vscode.window.showInputBox({
+                prompt: 'Enter the prompt to optimize:',
+                placeHolder: 'Type your prompt here...'
+            });
+            if (prompt) {
+                await optimizePrompt(context, prompt, { template });
+            }
+        } catch (error) {
+            console.error('Error in optimizeWithTemplate command:', error);
+            vscode.window.showErrorMessage('Error optimizing prompt: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    // Several candidates compared side by side in a webview
+    const optimizeVariantsCommand = vscode.commands.registerCommand('promptious.optimizeVariants', async () => {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            const selectedText = editor?.document.getText(editor.selection);
+            const prompt = selectedText?.trim()
+                ? selectedText
+                : await vscode.window.showInputBox({
+                    prompt: 'Enter the prompt to optimize:',
+                    placeHolder: 'Type your prompt here...'
+                });
+            if (prompt) {
+                // With no selection the chosen variant is inserted at the cursor
+                await optimizeVariants(context, prompt, editor ? { uri: editor.document.uri, range: editor.selection, original: selectedText || '' } : undefined);
+            }
+        } catch (error) {
+            console.error('Error in optimizeVariants command:', error);
+            vscode.window.showErrorMessage('Error generating variants: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    // Keep revising an optimized prompt with follow-up instructions
+    const refinePromptCommand = vscode.commands.registerCommand('promptious.refinePrompt', async () => {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            const selectedText = editor?.document.getText(editor.selection);
+            const prompt = selectedText?.trim()
+                ? selectedText
+                : await vscode.window.showInputBox({
+                    prompt: 'Enter the prompt to refine:',
+                    placeHolder: 'Type your prompt here...'
+                });
+            if (prompt?.trim()) {
+                // With no selection a revision is inserted at the cursor
+                await refinePrompt(context, prompt, editor ? { uri: editor.document.uri, range: editor.selection, original: selectedText || '' } : undefined);
+            }
+        } catch (error) {
+            console.error('Error in refinePrompt command:', error);
+            vscode.window.showErrorMessage('Error refining prompt: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    // Compare original and optimized prompt on a dataset of test cases
+    const evaluateCommand = vscode.commands.registerCommand('promptious.evaluate', async () => {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            const selectedText = editor?.document.getText(editor.selection);
+            // Without a selection a prompt file is evaluated as a whole
+            const prompt = selectedText?.trim()
+                ? selectedText
+                : editor?.document.languageId === PROMPT_LANGUAGE_ID
+                    ? editor.document.getText()
+                    : await vscode.window.showInputBox({
+                        prompt: 'Enter the prompt to evaluate:',
+                        placeHolder: 'Type your prompt here...'
+                    });
+            if (prompt?.trim()) {
+                await evaluatePrompt(context, prompt);
+            }
+        } catch (error) {
+            console.error('Error in evaluate command:', error);
+            vscode.window.showErrorMessage('Error evaluating prompt: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    // Optimize every prompt in the workspace, or in a folder from the explorer
+    const optimizeWorkspaceCommand = vscode.commands.registerCommand('promptious.optimizeWorkspace', async (folder?: vscode.Uri) => {
+        try {
+            await optimizeWorkspace(context, folder instanceof vscode.Uri ? folder : undefined);
+        } catch (error) {
+            console.error('Error in optimizeWorkspace command:', error);
+            vscode.window.showErrorMessage('Error optimizing workspace: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    // Show the classifier's reasoning and optionally optimize with overrides
+    const analyzePromptCommand = vscode.commands.registerCommand('promptious.analyzePrompt', async () => {
+        try {
+            const activeEditor = vscode.window.activeTextEditor;
+            const editor = activeEditor?.document.getText(activeEditor.selection).trim() ? activeEditor : undefined;
+            const prompt = editor
+                ? editor.document.getText(editor.selection)
+                : await vscode.window.showInputBox({
+                    prompt: 'Enter the prompt to analyze:',
+                    placeHolder: 'Type your prompt here...'
+                });
+            if (!prompt) {
+                return;
+            }
+
+            const analysis = await reviewAnalysis(analyzePromptType(prompt, getOptimizationSettings().targetModel), await loadTemplateLibrary());
+            if (!analysis) {
+                return;
+            }
+
+            if (editor) {
+                await optimizeEditorSelection(context, editor, { analysis });
+            } else {
+                await optimizePrompt(context, prompt, { analysis });
+            }
+        } catch (error) {
+            console.error('Error in analyzePrompt command:', error);
+            vscode.window.showErrorMessage('Error analyzing prompt: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    // Optimize the selection and replace it straight away
+    const optimizeAndReplaceCommand = vscode.commands.registerCommand('promptious.optimizeAndReplace', async () => {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showWarningMessage('No active editor found.');
+                return;
+            }
+
+            const selection = editor.selection;
+            const selectedText = editor.document.getText(selection);
+            if (!selectedText.trim()) {
+                vscode.window.showWarningMessage('Please select some text to optimize.');
+                return;
+            }
+
+            const optimizedPrompt = await optimizePrompt(context, selectedText);
+            if (optimizedPrompt) {
+                const proposal = editProposals.propose(editor.document, selection, selectedText, optimizedPrompt);
+                await resolveProposal(proposal.id, 'replace');
+            }
+        } catch (error) {
+            console.error('Error in optimizeAndReplace command:', error);
+            vscode.window.showErrorMessage('Error optimizing selection: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    // Prompt file linting and its quick-fix commands
+    registerPromptLinter(context);
+
+    const optimizeRangeCommand = vscode.commands.registerCommand('promptious.optimizeRange', async (uri: vscode.Uri, range: vscode.Range) => {
+        try {
+            await optimizeDocumentRange(context, await vscode.workspace.openTextDocument(uri), range);
+        } catch (error) {
+            console.error('Error in optimizeRange command:', error);
+            vscode.window.showErrorMessage('Error optimizing prompt: ' + (error instanceof Error ? error.message : String(error)));
+        }
     });
 
+    const fillPlaceholderCommand = vscode.commands.registerCommand('promptious.fillPlaceholder', async (uri: vscode.Uri, range: vscode.Range) => {
+        try {
+            await fillPlaceholder(uri, range);
+        } catch (error) {
+            console.error('Error in fillPlaceholder command:', error);
+            vscode.window.showErrorMessage('Error filling placeholder: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    // "Optimize prompt" CodeLenses over prompts in string literals and fences
+    registerEmbeddedPrompts(context, prompt => optimizePrompt(context, prompt));
+
+    // Proposal CodeLens actions
+    const proposalCodeLens = vscode.languages.registerCodeLensProvider({ scheme: 'file' }, editProposals);
+    const untitledProposalCodeLens = vscode.languages.registerCodeLensProvider({ scheme: 'untitled' }, editProposals);
+    const proposalDecorations = vscode.window.onDidChangeVisibleTextEditors(() => editProposals.refreshDecorations());
+
+    const acceptOptimizationCommand = vscode.commands.registerCommand('promptious.acceptOptimization', (id: number) =>
+        resolveProposal(id, 'replace'));
+    const insertOptimizationBelowCommand = vscode.commands.registerCommand('promptious.insertOptimizationBelow', (id: number) =>
+        resolveProposal(id, 'insertBelow'));
+    const rejectOptimizationCommand = vscode.commands.registerCommand('promptious.rejectOptimization', (id: number) =>
+        editProposals.discard(id));
+
     // Add settings command
     const openSettingsCommand = vscode.commands.registerCommand('promptious.openSettings', async () => {
         try {
@@ -99,183 +378,322 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    // Add to subscriptions
-    context.subscriptions.push(optimizePromptCommand, optimizeSelectionCommand, openSettingsCommand, codeActionProvider, statusBarItem);
-}
-
-// Smart prompt analysis function
-function analyzePromptType(prompt: string): { type: string; complexity: string; techniques: string[] } {
-    const lowerPrompt = prompt.toLowerCase();
-
-    // Determine prompt type
-    let type = 'general';
-    if (lowerPrompt.includes('code') || lowerPrompt.includes('program') || lowerPrompt.includes('function')) {
-        type = 'coding';
-    } else if (lowerPrompt.includes('explain') || lowerPrompt.includes('what is') || lowerPrompt.includes('how does')) {
-        type = 'explanation';
-    } else if (lowerPrompt.includes('write') || lowerPrompt.includes('create') || lowerPrompt.includes('generate')) {
-        type = 'creative';
-    } else if (lowerPrompt.includes('analyze') || lowerPrompt.includes('compare') || lowerPrompt.includes('evaluate')) {
-        type = 'analysis';
-    } else if (lowerPrompt.includes('translate') || lowerPrompt.includes('convert')) {
-        type = 'transformation';
-    }
+    // API key commands backed by SecretStorage
+    const setApiKeyCommand = vscode.commands.registerCommand('promptious.setApiKey', async () => {
+        try {
+            await promptForApiKey(context.secrets, getProviderSettings().definition);
+        } catch (error) {
+            console.error('Error setting API key:', error);
+            vscode.window.showErrorMessage('Error setting API key: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
 
-    // Determine complexity
-    let complexity = 'simple';
-    if (prompt.length > 200 || lowerPrompt.includes('step') || lowerPrompt.includes('process')) {
-        complexity = 'complex';
-    } else if (prompt.length > 100) {
-        complexity = 'medium';
-    }
+    const clearApiKeyCommand = vscode.commands.registerCommand('promptious.clearApiKey', async () => {
+        try {
+            const { definition } = getProviderSettings();
+            await deleteApiKey(context.secrets, definition);
+            vscode.window.showInformationMessage(`${definition.label} API key removed.`);
+        } catch (error) {
+            console.error('Error clearing API key:', error);
+            vscode.window.showErrorMessage('Error clearing API key: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
 
-    // Select appropriate techniques based on type and complexity
-    let techniques: string[] = ['zero-shot', 'role-definition'];
+    // Virtual documents for the live original/optimized diff
+    const promptDocumentRegistration = vscode.workspace.registerTextDocumentContentProvider(PROMPT_SCHEME, promptDocuments);
+    const promptDocumentCleanup = vscode.workspace.onDidCloseTextDocument(document => {
+        if (document.uri.scheme === PROMPT_SCHEME) {
+            promptDocuments.delete(document.uri);
+        }
+    });
 
-    if (complexity === 'complex') {
-        techniques.push('chain-of-thought');
-    }
+    // `.promptious.json` presets and the effective configuration
+    registerWorkspaceConfig(context);
 
-    if (type === 'coding' || type === 'creative') {
-        techniques.push('few-shot');
-    }
+    // Spend tracking, budget enforcement and the usage summary
+    registerUsageTracking(context);
 
-    if (type === 'analysis' || type === 'explanation') {
-        techniques.push('meta-prompting');
-    }
+    // Cached answers for repeated optimizations and the clear command
+    registerResponseCache(context);
 
-    if (complexity === 'complex' && (type === 'analysis' || type === 'explanation')) {
-        techniques.push('self-consistency');
-    }
+    // Quality score of the selected text on hover
+    registerQualityHover(context);
 
-    return { type, complexity, techniques };
-}
+    // Template preview with fixture values; optimizing the rendered prompt
+    // carries the changes back onto the template
+    registerPromptTemplateView(context, prompt => optimizePrompt(context, prompt));
 
-// Smart optimization prompt creation
-function createSmartOptimizationPrompt(originalPrompt: string, analysis: { type: string; complexity: string; techniques: string[] }): string {
-    const techniqueDescriptions = {
-        'zero-shot': 'Zero-shot Prompting: Direct instruction without examples',
-        'few-shot': 'Few-shot Prompting: Include 2-3 relevant examples',
-        'chain-of-thought': 'Chain-of-Thought: Add step-by-step reasoning structure',
-        'meta-prompting': 'Meta Prompting: Ask AI to think about its own process',
-        'self-consistency': 'Self-Consistency: Generate multiple perspectives',
-        'role-definition': 'Role Definition: Establish clear AI expertise and context'
-    };
+    // Optimization history view; re-runs go through the normal optimization path
+    // but always ask the model for a new answer
+    registerHistoryView(context, (prompt, model) => optimizePrompt(context, prompt, { model, bypassCache: true }));
 
-    const appliedTechniques = analysis.techniques.map(t => techniqueDescriptions[t as keyof typeof techniqueDescriptions]).join('\n- ');
+    // Move any plaintext key out of settings.json
+    migratePlaintextApiKey(context.secrets, getProviderSettings().definition).then(migrated => {
+        if (migrated) {
+            vscode.window.showInformationMessage('Promptious moved your API key from settings into secure storage.');
+        }
+    }, error => console.error('Error migrating API key:', error));
 
-    return `You are an expert prompt engineer specializing in ${analysis.type} tasks. Optimize this ${analysis.complexity} prompt using these advanced techniques from the Prompt Engineering Guide:
+    // Add to subscriptions
+    context.subscriptions.push(
+        optimizePromptCommand, optimizePromptNoCacheCommand, optimizeSelectionCommand, optimizeSelectionNoCacheCommand, optimizeWithTemplateCommand, optimizeVariantsCommand, refinePromptCommand,
+        evaluateCommand, optimizeWorkspaceCommand, analyzePromptCommand, optimizeAndReplaceCommand, openSettingsCommand, setApiKeyCommand, clearApiKeyCommand,
+        codeActionProvider, statusBarItem, statusBarSelection, statusBarEditor, promptDocuments,
+        promptDocumentRegistration, promptDocumentCleanup, editProposals, proposalCodeLens, untitledProposalCodeLens,
+        proposalDecorations, acceptOptimizationCommand, insertOptimizationBelowCommand, rejectOptimizationCommand,
+        optimizeRangeCommand, fillPlaceholderCommand
+    );
+}
 
-**Techniques to apply:**
-- ${appliedTechniques}
+// Optimize the editor's selection and anchor the result to it as a proposal
+function optimizeEditorSelection(context: vscode.ExtensionContext, editor: vscode.TextEditor, options: OptimizeOptions = {}): Promise<void> {
+    return optimizeDocumentRange(context, editor.document, editor.selection, options);
+}
 
-**Original prompt:**
-${originalPrompt}
+async function optimizeDocumentRange(
+    context: vscode.ExtensionContext,
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    options: OptimizeOptions = {}
+): Promise<void> {
+    const text = document.getText(range);
+    const optimizedPrompt = await optimizePrompt(context, text, options);
+    if (optimizedPrompt) {
+        editProposals.propose(document, range, text, optimizedPrompt);
+    }
+}
 
-**Optimization strategy:**
-1. **Analyze**: Identify the core intent and potential weaknesses
-2. **Enhance**: Apply the selected techniques appropriately
-3. **Structure**: Improve clarity, specificity, and logical flow
-4. **Validate**: Ensure the prompt will produce high-quality responses
+// Write an accepted proposal back into its document
+async function resolveProposal(id: number, mode: ApplyMode): Promise<void> {
+    try {
+        const proposal = editProposals.get(id);
+        if (!proposal) {
+            return;
+        }
+        editProposals.discard(id);
+        if (!(await applyProposal(proposal, mode))) {
+            return;
+        }
+        await vscode.window.showTextDocument(proposal.uri, { preview: false });
+    } catch (error) {
+        console.error('Error applying optimized prompt:', error);
+        vscode.window.showErrorMessage('Error applying optimized prompt: ' + (error instanceof Error ? error.message : String(error)));
+    }
+}
 
-**Return ONLY the optimized prompt text, no explanations, no JSON, no quotes:**`;
+interface OptimizeOptions {
+    // Overrides the configured model for this run only
+    model?: string;
+    // Template id from the technique library; defaults to `promptious.template`
+    template?: string;
+    // Reviewed analysis from "Analyze Prompt"; skips automatic classification
+    analysis?: PromptAnalysis;
+    // Name of a preset from the workspace file
+    preset?: string;
+    // Skip the response cache and always call the model
+    bypassCache?: boolean;
 }
 
-// Optimization function using built-in fetch API
-async function optimizePrompt(originalPrompt: string): Promise<void> {
+// Optimization function using the configured LLM provider
+async function optimizePrompt(context: vscode.ExtensionContext, originalPrompt: string, options: OptimizeOptions = {}): Promise<string | undefined> {
     try {
         // Get configuration
-        const config = vscode.workspace.getConfiguration('promptious');
-        const apiKey = config.get<string>('apiKey');
-        const autoCopy = config.get<boolean>('autoCopy', true);
-        const showNotifications = config.get<boolean>('showNotifications', true);
-        const model = config.get<string>('model', 'gpt-3.5-turbo');
-
-        if (!apiKey) {
-            const action = await vscode.window.showErrorMessage(
-                'OpenAI API key not configured. Please set it in settings.',
-                'Open Settings'
-            );
-            if (action === 'Open Settings') {
-                await vscode.commands.executeCommand('workbench.action.openSettings', 'promptious');
-            }
+        const settings = getOptimizationSettings(options.preset);
+        const { autoCopy, showNotifications } = settings;
+        const provider = await resolveProvider(context.secrets, options.model, options.preset);
+        if (!provider) {
+            return;
+        }
+
+        // Secrets and personal data are only sent when the user agrees; redacted
+        // values are restored in the answer
+        const guarded = await guardPrompt(originalPrompt, provider.label);
+        if (!guarded) {
             return;
         }
 
-        // Show progress
-        await vscode.window.withProgress({
+        // Show progress; cancelling aborts the streamed request
+        return await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: "Optimizing prompt...",
-            cancellable: false
-        }, async (progress) => {
-            progress.report({ increment: 0, message: `Sending request to OpenAI using ${model}...` });
-
-            // Analyze prompt type and apply smart technique selection
-            const promptAnalysis = analyzePromptType(originalPrompt);
-            const optimizationPrompt = createSmartOptimizationPrompt(originalPrompt, promptAnalysis);
-
-            // Call OpenAI API using built-in fetch
-            const response = await fetch('https://api.openai.com/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${apiKey}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    model: model,
-                    messages: [
-                        {
-                            role: 'user',
-                            content: optimizationPrompt
-                        }
-                    ],
-                    max_tokens: 1000,
-                    temperature: 0.7
-                })
-            });
+            cancellable: true
+        }, async (progress, token) => {
+            const controller = new AbortController();
+            const cancellation = token.onCancellationRequested(() => controller.abort());
+
+            try {
+                // Analyze prompt type and apply smart technique selection
+                const library = await loadTemplateLibrary();
+                const modelInfo = resolveModelInfo(provider.model, provider.id);
+                const input = buildOptimizationInput(guarded.prompt, {
+                    analysis: options.analysis,
+                    library,
+                    templateId: options.template || getDefaultTemplateId(library, options.preset),
+                    targetModel: settings.targetModel,
+                    temperature: settings.temperature,
+                    modelInfo,
+                    policy: settings.policy,
+                    structured: settings.structured,
+                    cache: getResponseCache(options.bypassCache),
+                    signal: controller.signal
+                });
+
+                const estimate = estimateOptimization(provider, input);
+                progress.report({
+                    increment: 0,
+                    message: `Sending request to ${provider.label} using ${provider.model} (${estimate.promptTokens} tokens, up to ${formatCost(estimate.maxCost)})...`
+                });
 
-            progress.report({ increment: 50, message: "Processing response..." });
+                // Render tokens live into a diff against the original prompt
+                const diff = await openStreamingDiff(originalPrompt, `Original (quality ${scorePrompt(originalPrompt).overall}) ↔ Optimized Prompt`);
+                let receivedFirstToken = false;
 
-            if (!response.ok) {
-                if (response.status === 401) {
-                    throw new Error('Invalid API key. Please check your OpenAI API key in settings.');
-                } else if (response.status === 429) {
-                    throw new Error('Rate limit exceeded. Please try again later.');
-                } else {
-                    const errorData = await response.json().catch(() => ({})) as any;
-                    throw new Error(`OpenAI API error: ${errorData.error?.message || response.statusText}`);
+                // Structured answers are JSON, so they are not streamed into the diff
+                const result = await runOptimization(provider, input, settings.structured ? undefined : delta => {
+                    if (!receivedFirstToken) {
+                        receivedFirstToken = true;
+                        progress.report({ increment: 50, message: "Receiving response..." });
+                    }
+                    diff.append(delta);
+                });
+                // A cached answer cost nothing this time
+                const cost = result.usage && result.cachedAt === undefined ? estimateCost(modelInfo, result.usage.promptTokens, result.usage.completionTokens) : undefined;
+
+                const optimizedPrompt = guarded.restore(result.text);
+                diff.setText(optimizedPrompt);
+
+                // Cached answers are not judged again, so they make no API call
+                const quality = await scoreOptimization(
+                    result.cachedAt === undefined ? provider : undefined,
+                    [originalPrompt, optimizedPrompt],
+                    [guarded.prompt, result.text],
+                    controller.signal
+                );
+
+                if (result.structured) {
+                    const report = await vscode.workspace.openTextDocument({
+                        language: 'markdown',
+                        content: optimizationReportToMarkdown(originalPrompt, optimizedPrompt, result.structured, {
+                            provider: provider.label,
+                            model: result.model,
+                            timestamp: Date.now(),
+                            usage: result.usage,
+                            cost,
+                            quality
+                        })
+                    });
+                    await vscode.commands.executeCommand('markdown.showPreviewToSide', report.uri);
                 }
-            }
 
-            const data = await response.json() as any;
-            const optimizedPrompt = data.choices[0].message.content.trim();
+                // Placeholders that could not be kept are always reported
+                const placeholderNotice = describePlaceholderReport(result.placeholders);
+                if (result.placeholders?.unresolved) {
+                    vscode.window.showWarningMessage(placeholderNotice!, 'View Diff').then(selection => {
+                        if (selection === 'View Diff') {
+                            diff.show();
+                        }
+                    });
+                }
 
-            // Copy to clipboard if enabled
-            if (autoCopy) {
-                await vscode.env.clipboard.writeText(optimizedPrompt);
-            }
+                // The cached answer is already in the history from its first run
+                if (result.cachedAt === undefined) {
+                    await recordOptimization(context, {
+                        original: originalPrompt,
+                        optimized: optimizedPrompt,
+                        provider: provider.label,
+                        model: result.model,
+                        analysis: {
+                            type: input.analysis.type,
+                            complexity: input.analysis.complexity,
+                            techniques: applyTechniquePolicy(input.analysis.techniques, settings.policy)
+                        },
+                        usage: result.usage,
+                        cost,
+                        quality: toQualityRecord(quality)
+                    });
+                }
 
-            progress.report({ increment: 100, message: "Complete!" });
+                // Copy to clipboard if enabled
+                if (autoCopy) {
+                    await vscode.env.clipboard.writeText(optimizedPrompt);
+                }
 
-            // Show result
-            if (showNotifications) {
-                vscode.window.showInformationMessage(
-                    autoCopy ? '✨ Prompt optimized and copied to clipboard!' : '✨ Prompt optimized!',
-                    'View Result'
-                ).then(selection => {
-                    if (selection === 'View Result') {
-                        vscode.window.showInformationMessage(`Optimized prompt:\n\n${optimizedPrompt}`);
-                    }
-                });
+                progress.report({ increment: 100, message: "Complete!" });
+
+                // Show result
+                if (showNotifications) {
+                    const spent = result.cachedAt !== undefined
+                        ? ` (from cache, stored ${describeCacheAge(result.cachedAt)}; no API call)`
+                        : result.usage ? ` (${result.usage.totalTokens} tokens · ${formatCost(cost)})` : '';
+                    const repaired = placeholderNotice && !result.placeholders?.unresolved ? ` ${placeholderNotice}` : '';
+                    vscode.window.showInformationMessage(
+                        (autoCopy ? '✨ Prompt optimized and copied to clipboard!' : '✨ Prompt optimized!') + spent + ` Quality ${formatQualityChange(quality)}.` + repaired,
+                        'View Diff'
+                    ).then(selection => {
+                        if (selection === 'View Diff') {
+                            diff.show();
+                        }
+                    });
+                }
+
+                return optimizedPrompt;
+            } finally {
+                cancellation.dispose();
             }
         });
 
     } catch (error) {
+        if (error instanceof ProviderError && error.kind === 'cancelled') {
+            vscode.window.showInformationMessage('Prompt optimization cancelled.');
+            return;
+        }
         console.error('Error optimizing prompt:', error);
+        if (error instanceof BudgetExceededError) {
+            const action = await vscode.window.showErrorMessage(error.message, 'Show Usage', 'Open Settings');
+            if (action === 'Show Usage') {
+                await vscode.commands.executeCommand('promptious.showUsage');
+            } else if (action === 'Open Settings') {
+                await vscode.commands.executeCommand('workbench.action.openSettings', 'promptious.budget');
+            }
+            return;
+        }
+        if (error instanceof ProviderError && error.kind === 'auth') {
+            const action = await vscode.window.showErrorMessage('Error optimizing prompt: ' + error.message, 'Set API Key');
+            if (action === 'Set API Key') {
+                await promptForApiKey(context.secrets, getProviderSettings().definition);
+            }
+            return;
+        }
         vscode.window.showErrorMessage('Error optimizing prompt: ' + (error instanceof Error ? error.message : String(error)));
     }
 }
 
+// Local quality scores of both versions. With `promptious.quality.judge` and a
+// provider, the model also rates the texts as they were sent (possibly redacted).
+async function scoreOptimization(
+    provider: LLMProvider | undefined,
+    [original, optimized]: [string, string],
+    sent: [string, string],
+    signal?: AbortSignal
+): Promise<QualityComparison> {
+    let before = scorePrompt(original);
+    let after = scorePrompt(optimized);
+    if (provider && vscode.workspace.getConfiguration('promptious').get<boolean>('quality.judge', false)) {
+        try {
+            const [judgedBefore, judgedAfter] = await Promise.all(sent.map(text => judgePromptQuality(provider, text, signal)));
+            before = { ...before, judge: judgedBefore };
+            after = { ...after, judge: judgedAfter };
+        } catch (error) {
+            if (error instanceof ProviderError && error.kind === 'cancelled') {
+                throw error;
+            }
+            // The local scores still stand
+            console.error('Error judging prompt quality:', error);
+        }
+    }
+    return compareQuality(before, after);
+}
+
 export function deactivate() {
     console.log('Promptious Optimizer extension deactivated');
 }
\ No newline at end of file
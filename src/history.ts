@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { formatCost } from './pricing';
+import { TokenUsage } from './providers';
+import { QualityRecord } from './quality';
+
+export interface HistoryEntry {
+    id: string;
+    original: string;
+    optimized: string;
+    provider: string;
+    model: string;
+    analysis: { type: string; complexity: string; techniques: string[] };
+    usage?: TokenUsage;
+    // Estimated USD cost of the request
+    cost?: number;
+    // Prompt quality scores of the original and optimized text
+    quality?: QualityRecord;
+    timestamp: number;
+    pinned: boolean;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'pinned' | 'timestamp'>;
+
+export const HISTORY_STATE_KEY = 'promptious.history';
+export const DEFAULT_MAX_HISTORY_SIZE = 100;
+
+export function readHistory(state: vscode.Memento): HistoryEntry[] {
+    return state.get<HistoryEntry[]>(HISTORY_STATE_KEY, []);
+}
+
+export async function writeHistory(state: vscode.Memento, entries: HistoryEntry[]): Promise<void> {
+    await state.update(HISTORY_STATE_KEY, entries);
+}
+
+export async function addHistoryEntry(state: vscode.Memento, entry: NewHistoryEntry, maxSize: number, pinned = false): Promise<HistoryEntry> {
+    const created: HistoryEntry = {
+        ...entry,
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: Date.now(),
+        pinned
+    };
+    await writeHistory(state, trimHistory([created, ...readHistory(state)], maxSize));
+    return created;
+}
+
+export async function updateHistoryEntry(state: vscode.Memento, id: string, changes: Partial<HistoryEntry>): Promise<void> {
+    await writeHistory(state, readHistory(state).map(entry => entry.id === id ? { ...entry, ...changes, id } : entry));
+}
+
+export async function deleteHistoryEntry(state: vscode.Memento, id: string): Promise<void> {
+    await writeHistory(state, readHistory(state).filter(entry => entry.id !== id));
+}
+
+// Newest first; pinned entries are never dropped by the retention limit
+export function trimHistory(entries: HistoryEntry[], maxSize: number): HistoryEntry[] {
+    let unpinnedAllowed = Math.max(0, maxSize - entries.filter(entry => entry.pinned).length);
+    return entries.filter(entry => entry.pinned || unpinnedAllowed-- > 0);
+}
+
+// Case-insensitive match on the prompt text, model, provider and detected type
+export function filterHistory(entries: HistoryEntry[], query: string): HistoryEntry[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+        return entries;
+    }
+    return entries.filter(entry => [
+        entry.original,
+        entry.optimized,
+        entry.model,
+        entry.provider,
+        entry.analysis.type,
+        ...entry.analysis.techniques
+    ].some(field => field.toLowerCase().includes(needle)));
+}
+
+// Pinned first, then newest first
+export function sortHistory(entries: HistoryEntry[]): HistoryEntry[] {
+    return [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.timestamp - a.timestamp);
+}
+
+export function historyEntryToMarkdown(entry: HistoryEntry): string {
+    const usage = entry.usage
+        ? `${entry.usage.totalTokens} tokens (${entry.usage.promptTokens} prompt, ${entry.usage.completionTokens} completion)${entry.cost !== undefined ? ` · ${formatCost(entry.cost)}` : ''}`
+        : 'N/A';
+
+    return `# Prompt Optimization Results
+
+**Generated:** ${new Date(entry.timestamp).toLocaleString()}  
+**Provider:** ${entry.provider} (${entry.model})  
+**Detected Type:** ${entry.analysis.type} (${entry.analysis.complexity})  
+${entry.quality ? `**Quality Score:** ${entry.quality.before} → ${entry.quality.after}  \n` : ''}**Token Usage:** ${usage}
+
+## Original Prompt
+\`\`\`
+${entry.original}
+\`\`\`
+
+## Optimized Prompt
+\`\`\`
+${entry.optimized}
+\`\`\`
+
+## Applied Techniques
+${entry.analysis.techniques.map(technique => `- ${technique}`).join('\n') || 'No techniques specified'}
+`;
+}
+
+export function historyToMarkdown(entries: HistoryEntry[]): string {
+    return entries.map(historyEntryToMarkdown).join('\n---\n\n') + '\n---\n*Generated by Promptious Optimizer Extension*\n';
+}
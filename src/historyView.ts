@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import { getProviderSettings } from './config';
+import { showPromptDiff } from './diffView';
+import {
+    addHistoryEntry,
+    DEFAULT_MAX_HISTORY_SIZE,
+    deleteHistoryEntry,
+    filterHistory,
+    HistoryEntry,
+    historyToMarkdown,
+    NewHistoryEntry,
+    readHistory,
+    sortHistory,
+    trimHistory,
+    updateHistoryEntry,
+    writeHistory
+} from './history';
+import { compareQuality, qualityTrendToMarkdown, scorePrompt, toQualityRecord } from './quality';
+
+export type RerunHandler = (prompt: string, model: string) => Promise<unknown>;
+
+const historyChanged = new vscode.EventEmitter<void>();
+
+// `promptious.history.scope` picks per-workspace or global storage
+function getHistoryState(context: vscode.ExtensionContext): vscode.Memento {
+    const scope = vscode.workspace.getConfiguration('promptious').get<string>('history.scope', 'global');
+    return scope === 'workspace' && vscode.workspace.workspaceFolders ? context.workspaceState : context.globalState;
+}
+
+function getMaxHistorySize(): number {
+    return vscode.workspace.getConfiguration('promptious').get<number>('history.maxEntries', DEFAULT_MAX_HISTORY_SIZE);
+}
+
+// Entries without quality scores get the local ones
+export async function recordOptimization(context: vscode.ExtensionContext, entry: NewHistoryEntry, pinned = false): Promise<void> {
+    const quality = entry.quality || toQualityRecord(compareQuality(scorePrompt(entry.original), scorePrompt(entry.optimized)));
+    await addHistoryEntry(getHistoryState(context), { ...entry, quality }, getMaxHistorySize(), pinned);
+    historyChanged.fire();
+}
+
+class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryEntry> {
+    readonly onDidChangeTreeData = historyChanged.event;
+    query = '';
+
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    getChildren(element?: HistoryEntry): HistoryEntry[] {
+        if (element) {
+            return [];
+        }
+        return sortHistory(filterHistory(readHistory(getHistoryState(this.context)), this.query));
+    }
+
+    getTreeItem(entry: HistoryEntry): vscode.TreeItem {
+        const firstLine = entry.original.trim().split(/\r?\n/)[0];
+        const item = new vscode.TreeItem(firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine);
+        item.id = entry.id;
+        item.description = `${entry.model} · ${new Date(entry.timestamp).toLocaleString()}`;
+        item.iconPath = new vscode.ThemeIcon(entry.pinned ? 'pinned' : 'history');
+        item.contextValue = entry.pinned ? 'historyEntryPinned' : 'historyEntry';
+        item.tooltip = new vscode.MarkdownString(
+            `**${entry.analysis.type}** (${entry.analysis.complexity}) via ${entry.provider} / ${entry.model}\n\n` +
+            `Techniques: ${entry.analysis.techniques.join(', ')}\n\n` +
+            (entry.quality ? `Quality: ${entry.quality.before} → ${entry.quality.after}\n\n` : '') +
+            `---\n\n${entry.optimized.slice(0, 500)}`
+        );
+        item.command = { command: 'promptious.history.open', title: 'Open', arguments: [entry] };
+        return item;
+    }
+}
+
+export function registerHistoryView(context: vscode.ExtensionContext, rerun: RerunHandler): void {
+    const provider = new HistoryTreeProvider(context);
+    const treeView = vscode.window.createTreeView('promptious.history', { treeDataProvider: provider, showCollapseAll: false });
+
+    const setQuery = (query: string) => {
+        provider.query = query;
+        treeView.message = query ? `Filtered by "${query}"` : undefined;
+        vscode.commands.executeCommand('setContext', 'promptious.historyFiltered', !!query);
+        historyChanged.fire();
+    };
+
+    const run = (name: string, handler: (...args: any[]) => unknown) =>
+        vscode.commands.registerCommand(name, async (...args: any[]) => {
+            try {
+                await handler(...args);
+            } catch (error) {
+                console.error(`Error in ${name} command:`, error);
+                vscode.window.showErrorMessage('Error updating history: ' + (error instanceof Error ? error.message : String(error)));
+            }
+        });
+
+    context.subscriptions.push(
+        treeView,
+        run('promptious.history.open', (entry: HistoryEntry) =>
+            showPromptDiff(entry.original, entry.optimized, `History: ${entry.model}`)),
+        run('promptious.history.search', async () => {
+            const query = await vscode.window.showInputBox({
+                prompt: 'Search optimization history',
+                placeHolder: 'Prompt text, model, provider or technique',
+                value: provider.query
+            });
+            if (query !== undefined) {
+                setQuery(query);
+            }
+        }),
+        run('promptious.history.clearSearch', () => setQuery('')),
+        run('promptious.history.copy', async (entry: HistoryEntry) => {
+            await vscode.env.clipboard.writeText(entry.optimized);
+            vscode.window.showInformationMessage('Optimized prompt copied to clipboard.');
+        }),
+        run('promptious.history.pin', async (entry: HistoryEntry) => {
+            await updateHistoryEntry(getHistoryState(context), entry.id, { pinned: true });
+            historyChanged.fire();
+        }),
+        run('promptious.history.unpin', async (entry: HistoryEntry) => {
+            const state = getHistoryState(context);
+            await updateHistoryEntry(state, entry.id, { pinned: false });
+            // Unpinning may push the history back over its limit
+            await writeHistory(state, trimHistory(readHistory(state), getMaxHistorySize()));
+            historyChanged.fire();
+        }),
+        run('promptious.history.delete', async (entry: HistoryEntry) => {
+            await deleteHistoryEntry(getHistoryState(context), entry.id);
+            historyChanged.fire();
+        }),
+        run('promptious.history.clear', async () => {
+            const answer = await vscode.window.showWarningMessage(
+                'Delete all unpinned optimization history?',
+                { modal: true },
+                'Delete'
+            );
+            if (answer === 'Delete') {
+                const state = getHistoryState(context);
+                await writeHistory(state, readHistory(state).filter(entry => entry.pinned));
+                historyChanged.fire();
+            }
+        }),
+        run('promptious.history.rerun', async (entry: HistoryEntry) => {
+            const model = await pickModel(entry.model);
+            if (model) {
+                await rerun(entry.original, model);
+            }
+        }),
+        run('promptious.history.qualityTrend', async () => {
+            const document = await vscode.workspace.openTextDocument({
+                language: 'markdown',
+                content: qualityTrendToMarkdown(readHistory(getHistoryState(context)))
+            });
+            await vscode.commands.executeCommand('markdown.showPreviewToSide', document.uri);
+        }),
+        run('promptious.history.export', async () => {
+            const entries = sortHistory(filterHistory(readHistory(getHistoryState(context)), provider.query));
+            if (!entries.length) {
+                vscode.window.showInformationMessage('No optimization history to export.');
+                return;
+            }
+
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.workspace.workspaceFolders
+                    ? vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, 'promptious-history.md')
+                    : undefined,
+                filters: { 'Markdown': ['md'], 'JSON': ['json'] }
+            });
+            if (!uri) {
+                return;
+            }
+
+            const content = uri.path.endsWith('.json') ? JSON.stringify(entries, null, 2) : historyToMarkdown(entries);
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+            vscode.window.showInformationMessage(`Exported ${entries.length} history entries to ${vscode.workspace.asRelativePath(uri)}.`);
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('promptious.history')) {
+                historyChanged.fire();
+            }
+        })
+    );
+}
+
+// Offer the active provider's known models, or any model name typed in
+async function pickModel(current: string): Promise<string | undefined> {
+    const { definition } = getProviderSettings();
+    const other = 'Other model...';
+    const items = [...definition.models.map(model => ({
+        label: model,
+        description: model === current ? 'used last time' : undefined
+    })), { label: other, description: undefined }];
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `Re-run with a ${definition.label} model`
+    });
+    if (!picked) {
+        return undefined;
+    }
+    if (picked.label !== other) {
+        return picked.label;
+    }
+    return vscode.window.showInputBox({ prompt: 'Model name', value: current });
+}
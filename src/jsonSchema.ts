@@ -0,0 +1,139 @@
+// Validator for the JSON Schema keywords that matter for checking model output
+export interface JsonSchema {
+    type?: string | string[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    enum?: unknown[];
+    const?: unknown;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    minItems?: number;
+    maxItems?: number;
+    // Local references only, e.g. "#/definitions/preset"
+    $ref?: string;
+    definitions?: Record<string, JsonSchema>;
+    // Ignored by the validator; passed on to models that take a schema
+    description?: string;
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    if (typeof value === 'number' && Number.isInteger(value)) {
+        return 'integer';
+    }
+    return typeof value;
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+    if (!ref.startsWith('#')) {
+        throw new Error(`Unsupported schema reference ${ref}`);
+    }
+    const target = ref.slice(1).split('/').filter(Boolean).reduce<any>((node, key) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+    if (!target || typeof target !== 'object') {
+        throw new Error(`Unresolved schema reference ${ref}`);
+    }
+    return target;
+}
+
+// Returns a list of violations; empty means valid
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$', root: JsonSchema = schema): string[] {
+    if (schema.$ref) {
+        return validateJsonSchema(value, resolveRef(root, schema.$ref), path, root);
+    }
+    const errors: string[] = [];
+    const actual = typeOf(value);
+
+    if (schema.type) {
+        const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+        const matches = allowed.some(type => type === actual || (type === 'number' && actual === 'integer'));
+        if (!matches) {
+            return [`${path}: expected ${allowed.join(' or ')}, got ${actual}`];
+        }
+    }
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+    }
+    if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+        errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path}: shorter than ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${path}: longer than ${schema.maxLength} characters`);
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+            errors.push(`${path}: does not match ${schema.pattern}`);
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path}: less than ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path}: greater than ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path}: fewer than ${schema.minItems} items`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path}: more than ${schema.maxItems} items`);
+        }
+        if (schema.items) {
+            value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`, root)));
+        }
+    }
+
+    if (actual === 'object') {
+        const object = value as Record<string, unknown>;
+        for (const key of schema.required || []) {
+            if (!(key in object)) {
+                errors.push(`${path}: missing required property "${key}"`);
+            }
+        }
+        for (const [key, child] of Object.entries(object)) {
+            const propertySchema = schema.properties?.[key];
+            if (propertySchema) {
+                errors.push(...validateJsonSchema(child, propertySchema, `${path}.${key}`, root));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}: unexpected property "${key}"`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateJsonSchema(child, schema.additionalProperties, `${path}.${key}`, root));
+            }
+        }
+    }
+
+    return errors;
+}
+
+// Models often wrap JSON in a ```json fence or surrounding prose
+export function extractJson(text: string): unknown {
+    const fenced = /```(?:json)?\s*\n([\s\S]*?)```/.exec(text);
+    const candidate = fenced ? fenced[1] : text;
+    try {
+        return JSON.parse(candidate.trim());
+    } catch {
+        const start = candidate.search(/[[{]/);
+        const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+        if (start >= 0 && end > start) {
+            return JSON.parse(candidate.slice(start, end + 1));
+        }
+        throw new Error('Response does not contain valid JSON');
+    }
+}
@@ -0,0 +1,169 @@
+// Static prompt linter. Pure so it can run in the extension, tests and CI.
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+    | 'vague-verb'
+    | 'missing-output-format'
+    | 'missing-role'
+    | 'unbounded-length'
+    | 'conflicting-instructions'
+    | 'unfilled-placeholder';
+
+export const LINT_RULES: Record<LintRule, { severity: LintSeverity; description: string }> = {
+    'vague-verb': { severity: 'warning', description: 'Vague verbs such as "handle" or "improve" leave the task open to interpretation' },
+    'missing-output-format': { severity: 'info', description: 'The prompt does not say what the response should look like' },
+    'missing-role': { severity: 'info', description: 'The prompt does not establish a role or expertise' },
+    'unbounded-length': { severity: 'warning', description: 'The prompt asks for an open-ended amount of output without a length limit' },
+    'conflicting-instructions': { severity: 'warning', description: 'Two instructions contradict each other' },
+    'unfilled-placeholder': { severity: 'warning', description: 'A {{placeholder}} has not been filled in' }
+};
+
+// Deterministic edit; offsets are into the linted text
+export interface LintEdit {
+    title: string;
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface LintFinding {
+    rule: LintRule;
+    severity: LintSeverity;
+    message: string;
+    start: number;
+    end: number;
+    // A deterministic rewrite when one exists; otherwise the span is sent to the optimizer
+    fix?: LintEdit;
+    related?: { start: number; end: number; message: string };
+}
+
+export type LintSeverityOverrides = Partial<Record<LintRule, LintSeverity | 'off'>>;
+
+const VAGUE_VERBS: Record<string, string> = {
+    'handle': 'describe exactly what should happen',
+    'deal with': 'describe exactly what should happen',
+    'improve': 'say what "better" means (shorter, faster, clearer, ...)',
+    'make it better': 'say what "better" means (shorter, faster, clearer, ...)',
+    'fix it': 'describe the problem and the expected result',
+    'look at': 'say what to check and what to report',
+    'do something': 'state the concrete action',
+    'stuff': 'name the specific items',
+    'things': 'name the specific items',
+    'etc': 'list every item that matters'
+};
+
+const OUTPUT_FORMAT_PATTERN = /\b(json|yaml|xml|csv|markdown|table|bullet(ed)? (points|list)|numbered list|format|respond (only )?(with|in)|return (only )?|output|reply with|answer with|in \d+ (words|sentences|paragraphs))\b/i;
+const ROLE_PATTERN = /\b(you are|act as|acting as|as an? (expert|senior|experienced|professional)|your role)\b/i;
+const UNBOUNDED_PATTERN = /\b(in detail|detailed|comprehensive|exhaustive|everything|all (of the )?(details|information)|as much as possible|elaborate)\b/i;
+export const LENGTH_LIMIT_PATTERN = /\b(\d+|one|two|three|four|five|ten)\s*(-|to\s+\d+\s*)?(words?|sentences?|paragraphs?|characters?|chars|tokens|lines|bullets?|items|pages?)\b|\b(brief|concise|short|max(imum)?|at most|no more than|under|limit)\b/i;
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+const CONFLICTS: Array<[RegExp, RegExp, string]> = [
+    [/\b(brief|concise|short|succinct)\b/i, /\b(detailed|in detail|comprehensive|exhaustive|in depth|in-depth)\b/i, 'asks for both a brief and a detailed answer'],
+    [/\b(use|in|with) markdown\b/i, /\b(plain text|no markdown|without markdown)\b/i, 'asks for both markdown and plain text'],
+    [/\b(formal|professional) tone\b/i, /\b(casual|informal|playful|friendly) tone\b/i, 'asks for both a formal and a casual tone'],
+    [/\b(include|add|provide) (code )?examples?\b/i, /\b(no|without|don't include|do not include) examples?\b/i, 'asks both to include and to omit examples']
+];
+
+function findAll(text: string, pattern: RegExp): RegExpExecArray[] {
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+    const matches: RegExpExecArray[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = global.exec(text))) {
+        matches.push(match);
+        if (match[0] === '') {
+            global.lastIndex++;
+        }
+    }
+    return matches;
+}
+
+export function lintPrompt(text: string, overrides: LintSeverityOverrides = {}): LintFinding[] {
+    const findings: LintFinding[] = [];
+    const trimmedEnd = text.replace(/\s+$/, '').length;
+    const firstLineEnd = text.search(/\r?\n/) === -1 ? text.length : text.search(/\r?\n/);
+    const add = (finding: Omit<LintFinding, 'severity'>) => {
+        const severity = overrides[finding.rule] ?? LINT_RULES[finding.rule].severity;
+        if (severity !== 'off') {
+            findings.push({ ...finding, severity });
+        }
+    };
+
+    if (!text.trim()) {
+        return findings;
+    }
+
+    for (const [phrase, advice] of Object.entries(VAGUE_VERBS)) {
+        for (const match of findAll(text, new RegExp(`\\b${phrase}\\b`, 'i'))) {
+            add({
+                rule: 'vague-verb',
+                message: `"${match[0]}" is vague: ${advice}.`,
+                start: match.index,
+                end: match.index + match[0].length
+            });
+        }
+    }
+
+    if (!OUTPUT_FORMAT_PATTERN.test(text)) {
+        add({
+            rule: 'missing-output-format',
+            message: 'No output format is specified. Say how the answer should be structured.',
+            start: 0,
+            end: firstLineEnd,
+            fix: {
+                title: 'Add an output format section',
+                start: trimmedEnd,
+                end: trimmedEnd,
+                text: '\n\nOutput format: <describe the structure of the response, e.g. a markdown list or JSON object>'
+            }
+        });
+    }
+
+    if (!ROLE_PATTERN.test(text)) {
+        add({
+            rule: 'missing-role',
+            message: 'No role is defined. Tell the model who it should act as.',
+            start: 0,
+            end: firstLineEnd,
+            fix: { title: 'Add a role definition', start: 0, end: 0, text: 'You are an expert assistant in <domain>.\n\n' }
+        });
+    }
+
+    const unbounded = UNBOUNDED_PATTERN.exec(text);
+    if (unbounded && !LENGTH_LIMIT_PATTERN.test(text)) {
+        add({
+            rule: 'unbounded-length',
+            message: `"${unbounded[0]}" without a length limit can produce very long responses.`,
+            start: unbounded.index,
+            end: unbounded.index + unbounded[0].length,
+            fix: { title: 'Add a length limit', start: trimmedEnd, end: trimmedEnd, text: '\n\nKeep the response under 300 words.' }
+        });
+    }
+
+    for (const [first, second, description] of CONFLICTS) {
+        const a = first.exec(text);
+        const b = second.exec(text);
+        if (a && b) {
+            const [earlier, later] = a.index <= b.index ? [a, b] : [b, a];
+            add({
+                rule: 'conflicting-instructions',
+                message: `Conflicting instructions: the prompt ${description}.`,
+                start: later.index,
+                end: later.index + later[0].length,
+                related: { start: earlier.index, end: earlier.index + earlier[0].length, message: `Conflicts with "${later[0]}"` }
+            });
+        }
+    }
+
+    for (const match of findAll(text, PLACEHOLDER_PATTERN)) {
+        add({
+            rule: 'unfilled-placeholder',
+            message: `Placeholder "${match[0]}" has not been filled in.`,
+            start: match.index,
+            end: match.index + match[0].length
+        });
+    }
+
+    return findings.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,128 @@
+// Structured optimizer answers: the optimized prompt plus what changed and why,
+// requested as JSON and rendered as a markdown report. Pure, so it can be used
+// outside the extension host.
+
+import { extractJson, JsonSchema, validateJsonSchema } from './jsonSchema';
+import { formatCost } from './pricing';
+import { TokenUsage } from './providers';
+import { formatQualityChange, QualityComparison, qualityComparisonToMarkdown } from './quality';
+
+export interface StructuredOptimization {
+    optimized_prompt: string;
+    changes: Array<{ change: string; reason: string }>;
+    applied_techniques: Array<{ name: string; description: string }>;
+    weaknesses: string[];
+    // Self-rated by the model, 0 to 1
+    improvement_score: number;
+    explanation: string;
+}
+
+// Every property is required and closed, as OpenAI's strict mode expects
+export const STRUCTURED_OPTIMIZATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        optimized_prompt: { type: 'string', description: 'The complete optimized prompt' },
+        changes: {
+            type: 'array',
+            description: 'Each change made to the original prompt',
+            items: {
+                type: 'object',
+                properties: { change: { type: 'string' }, reason: { type: 'string' } },
+                required: ['change', 'reason'],
+                additionalProperties: false
+            }
+        },
+        applied_techniques: {
+            type: 'array',
+            description: 'Techniques actually used in the optimized prompt',
+            items: {
+                type: 'object',
+                properties: { name: { type: 'string' }, description: { type: 'string' } },
+                required: ['name', 'description'],
+                additionalProperties: false
+            }
+        },
+        weaknesses: { type: 'array', description: 'Weaknesses found in the original prompt', items: { type: 'string' } },
+        improvement_score: { type: 'number', description: 'How much better the optimized prompt is, from 0 to 1' },
+        explanation: { type: 'string', description: 'A short summary of the optimization' }
+    },
+    required: ['optimized_prompt', 'changes', 'applied_techniques', 'weaknesses', 'improvement_score', 'explanation'],
+    additionalProperties: false
+};
+
+// Appended to the meta-prompt; overrides a template's "return only the prompt"
+export const STRUCTURED_INSTRUCTIONS = `**Answer format:** ignore any earlier instruction to return only the prompt. Reply with a single JSON object and nothing else:
+{
+  "optimized_prompt": "the complete optimized prompt",
+  "changes": [{ "change": "what you changed", "reason": "why" }],
+  "applied_techniques": [{ "name": "technique", "description": "how it was applied" }],
+  "weaknesses": ["weaknesses of the original prompt"],
+  "improvement_score": 0.0 to 1.0,
+  "explanation": "a short summary"
+}`;
+
+// Throws when the answer is not JSON or does not match the schema
+export function parseStructuredOptimization(text: string): StructuredOptimization {
+    const value = extractJson(text);
+    const violations = validateJsonSchema(value, STRUCTURED_OPTIMIZATION_SCHEMA);
+    if (violations.length) {
+        throw new Error(`Structured answer does not match the schema: ${violations.slice(0, 3).join('; ')}`);
+    }
+    const result = value as StructuredOptimization;
+    return { ...result, improvement_score: Math.min(1, Math.max(0, result.improvement_score)) };
+}
+
+export interface ReportDetails {
+    provider: string;
+    model: string;
+    timestamp: number;
+    usage?: TokenUsage;
+    cost?: number;
+    quality?: QualityComparison;
+}
+
+const listOr = (items: string[], empty: string) => items.length ? items.join('\n') : empty;
+
+export function optimizationReportToMarkdown(original: string, optimized: string, result: StructuredOptimization, details: ReportDetails): string {
+    const usage = details.usage
+        ? `${details.usage.totalTokens} tokens${details.cost !== undefined ? ` · ${formatCost(details.cost)}` : ''}`
+        : 'N/A';
+
+    return `# Prompt Optimization Results
+
+**Generated:** ${new Date(details.timestamp).toLocaleString()}  
+**Provider:** ${details.provider} (${details.model})  
+**Improvement Score:** ${(result.improvement_score * 100).toFixed(1)}% (self-rated)  
+${details.quality ? `**Quality Score:** ${formatQualityChange(details.quality)}  \n` : ''}**Token Usage:** ${usage}
+
+## Original Prompt
+\`\`\`\`
+${original}
+\`\`\`\`
+
+## Optimized Prompt
+\`\`\`\`
+${optimized}
+\`\`\`\`
+
+## Applied Techniques
+${listOr(result.applied_techniques.map(technique => `- **${technique.name}**: ${technique.description}`), 'No techniques specified')}
+
+## Changes
+${listOr(result.changes.map(change => `- ${change.change} — ${change.reason}`), 'No changes listed')}
+
+## Weaknesses Found
+${listOr(result.weaknesses.map(weakness => `- ${weakness}`), 'None reported')}
+${details.quality ? `\n## Quality\n${qualityComparisonToMarkdown(details.quality)}\n` : ''}
+## Explanation
+${result.explanation || 'No explanation provided'}
+
+## Next Steps
+1. Review the optimized prompt above
+2. Test it with your AI model
+3. Adjust if needed based on results
+
+---
+*Generated by Promptious Optimizer Extension*
+`;
+}
@@ -0,0 +1,262 @@
+import { cacheKey, ResponseCache } from './cache';
+import {
+    Conversation,
+    CONVERSATION_INSTRUCTIONS,
+    formatConversationForOptimization,
+    mergeOptimizedConversation,
+    parseConversation,
+    serializeConversation
+} from './conversation';
+import {
+    checkPlaceholders,
+    extractPlaceholders,
+    isPlaceholderCheckClean,
+    PlaceholderCheck,
+    PlaceholderMismatchError,
+    PlaceholderOptions,
+    placeholderCorrection,
+    PlaceholderReport,
+    placeholderRequirement,
+    repairPlaceholders
+} from './placeholders';
+import { parseStructuredOptimization, STRUCTURED_INSTRUCTIONS, STRUCTURED_OPTIMIZATION_SCHEMA, StructuredOptimization } from './optimizationReport';
+import { deriveMaxTokens, estimateCost, getModelInfo, ModelInfo } from './pricing';
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderError, TokenHandler, TokenUsage } from './providers';
+import { createRefinementPrompt, RefinementStep } from './refinement';
+import { formatTargetGuidelines } from './targetModels';
+import { createSmartOptimizationPrompt, TemplateLibrary } from './templates';
+import { countTokens } from './tokens';
+
+export const DEFAULT_TEMPERATURE = 0.7;
+
+// Team rules from presets and `.promptious.json`
+export interface OptimizationPolicy {
+    forceTechniques?: string[];
+    forbidTechniques?: string[];
+    // Characters
+    maxLength?: number;
+    outputLanguage?: string;
+    // Syntaxes checked in the answer and what to do when they change
+    placeholders?: PlaceholderOptions;
+}
+
+export interface OptimizationInput {
+    prompt: string;
+    analysis: { type: string; complexity: string; techniques: string[] };
+    library: TemplateLibrary;
+    templateId: string;
+    // The model the optimized prompt will run on; adds its prompting guidelines
+    targetModel?: string;
+    temperature?: number;
+    // Derived from the prompt size and the model's limits when omitted
+    maxTokens?: number;
+    // Limits and prices; defaults to the built-in table
+    modelInfo?: ModelInfo;
+    policy?: OptimizationPolicy;
+    // Ask for JSON with the changes made and why, alongside the prompt
+    structured?: boolean;
+    // Revise `prompt` with a follow-up instruction instead of optimizing it afresh
+    refinement?: RefinementStep;
+    // Answers to identical requests are reused instead of calling the model again
+    cache?: ResponseCache<OptimizationOutput>;
+    signal?: AbortSignal;
+}
+
+export interface OptimizationOutput extends CompletionResult {
+    // The meta-prompt that was sent to the model
+    metaPrompt: string;
+    // Set when the answer changed the prompt's placeholders
+    placeholders?: PlaceholderReport;
+    // The model's account of the optimization, in structured mode
+    structured?: StructuredOptimization;
+    // Set when the answer came from the cache: when it was stored
+    cachedAt?: number;
+}
+
+export interface OptimizationEstimate {
+    promptTokens: number;
+    maxTokens: number;
+    // Upper bound: the prompt plus a completion of maxTokens
+    maxCost?: number;
+}
+
+export function applyTechniquePolicy(techniques: string[], policy: OptimizationPolicy = {}): string[] {
+    const forbidden = policy.forbidTechniques || [];
+    return [...new Set([...techniques, ...policy.forceTechniques || []])].filter(id => !forbidden.includes(id));
+}
+
+function appendRequirements(metaPrompt: string, policy: OptimizationPolicy, prompt: string): string {
+    const placeholders = extractPlaceholders(prompt, policy.placeholders);
+    const requirements = [
+        ...policy.maxLength ? [`Keep the optimized prompt under ${policy.maxLength} characters.`] : [],
+        ...policy.outputLanguage ? [`Write the optimized prompt in ${policy.outputLanguage}.`] : [],
+        ...placeholders.length ? [placeholderRequirement(placeholders)] : []
+    ];
+    return requirements.length
+        ? `${metaPrompt}\n\nAdditional requirements:\n${requirements.map(requirement => `- ${requirement}`).join('\n')}`
+        : metaPrompt;
+}
+
+interface PreparedRequest {
+    request: CompletionRequest;
+    metaPrompt: string;
+    estimate: OptimizationEstimate;
+    // Chat-message prompts are optimized per message and rebuilt afterwards
+    conversation?: Conversation;
+}
+
+function prepareRequest(provider: LLMProvider, input: OptimizationInput): PreparedRequest {
+    const policy = input.policy || {};
+    const analysis = { ...input.analysis, techniques: applyTechniquePolicy(input.analysis.techniques, policy) };
+    const conversation = parseConversation(input.prompt);
+    const subject = conversation ? formatConversationForOptimization(conversation.messages) : input.prompt;
+    const template = input.refinement
+        ? [createRefinementPrompt(subject, input.refinement), formatTargetGuidelines(input.targetModel)].filter(Boolean).join('\n\n')
+        : createSmartOptimizationPrompt(subject, analysis, input.library, input.templateId, policy.forbidTechniques, input.targetModel);
+    const instructions = [template, ...conversation ? [CONVERSATION_INSTRUCTIONS] : []].join('\n\n');
+    const metaPrompt = [appendRequirements(instructions, policy, input.prompt), ...input.structured ? [STRUCTURED_INSTRUCTIONS] : []].join('\n\n');
+    const info = input.modelInfo || getModelInfo(provider.model, provider.id);
+    const promptTokens = countTokens(metaPrompt, provider.model);
+    const maxTokens = input.maxTokens ?? deriveMaxTokens(info, promptTokens);
+
+    return {
+        metaPrompt,
+        conversation,
+        estimate: { promptTokens, maxTokens, maxCost: estimateCost(info, promptTokens, maxTokens) },
+        request: {
+            messages: [
+                {
+                    role: 'user',
+                    content: metaPrompt
+                }
+            ],
+            maxTokens,
+            temperature: input.temperature ?? DEFAULT_TEMPERATURE,
+            responseFormat: input.structured ? { name: 'prompt_optimization', schema: STRUCTURED_OPTIMIZATION_SCHEMA } : undefined,
+            signal: input.signal
+        }
+    };
+}
+
+// Pre-flight token count and cost bound, without calling the model
+export function estimateOptimization(provider: LLMProvider, input: OptimizationInput): OptimizationEstimate {
+    return prepareRequest(provider, input).estimate;
+}
+
+const issueCount = (check: PlaceholderCheck) => check.missing.length + check.added.length + check.renamed.length;
+
+function addUsage(first?: TokenUsage, second?: TokenUsage): TokenUsage | undefined {
+    return first && second
+        ? {
+            promptTokens: first.promptTokens + second.promptTokens,
+            completionTokens: first.completionTokens + second.completionTokens,
+            totalTokens: first.totalTokens + second.totalTokens
+        }
+        : first || second;
+}
+
+// Make the answer keep the prompt's placeholders: renames are put back, other
+// changes get one corrective follow-up, and whatever is left is reported (or
+// rejected, depending on `onMismatch`)
+async function preservePlaceholders(
+    provider: LLMProvider,
+    input: OptimizationInput,
+    request: CompletionRequest,
+    first: CompletionResult,
+    finish: (answer: string) => string
+): Promise<{ answer: string; text: string; usage?: TokenUsage; placeholders?: PlaceholderReport }> {
+    const options = input.policy?.placeholders || {};
+    const mode = options.onMismatch || 'repair';
+    const settle = (answer: string) => {
+        const text = finish(answer);
+        const check = checkPlaceholders(input.prompt, text, options);
+        if (mode !== 'repair' || !check.renamed.length) {
+            return { answer, text, check, repaired: [] as PlaceholderCheck['renamed'] };
+        }
+        const repairedText = repairPlaceholders(text, check, options);
+        return { answer, text: repairedText, check: checkPlaceholders(input.prompt, repairedText, options), repaired: check.renamed };
+    };
+
+    let outcome = settle(first.text);
+    let usage = first.usage;
+    let retried = false;
+    if (mode !== 'warn' && !isPlaceholderCheckClean(outcome.check)) {
+        const retry = await provider.complete({
+            ...request,
+            messages: [
+                ...request.messages,
+                { role: 'assistant', content: first.text },
+                { role: 'user', content: placeholderCorrection(outcome.check, extractPlaceholders(input.prompt, options)) }
+            ]
+        });
+        retried = true;
+        usage = addUsage(usage, retry.usage);
+        const second = settle(retry.text);
+        if (issueCount(second.check) <= issueCount(outcome.check)) {
+            outcome = second;
+        }
+    }
+
+    const clean = isPlaceholderCheckClean(outcome.check);
+    if (!clean && mode === 'reject') {
+        throw new PlaceholderMismatchError(outcome.check);
+    }
+    return {
+        answer: outcome.answer,
+        text: outcome.text,
+        usage,
+        placeholders: clean && !outcome.repaired.length && !retried
+            ? undefined
+            : { repaired: outcome.repaired, retried, unresolved: clean ? undefined : outcome.check }
+    };
+}
+
+function parseStructured(provider: LLMProvider, answer: string): StructuredOptimization {
+    try {
+        return parseStructuredOptimization(answer);
+    } catch (error) {
+        throw new ProviderError(
+            `${provider.label} did not return a valid structured answer: ${error instanceof Error ? error.message : String(error)}`,
+            'invalidResponse',
+            provider.label
+        );
+    }
+}
+
+// Identical prompts sent with the same meta-prompt, provider, model and
+// temperature share a key
+function requestCacheKey(provider: LLMProvider, input: OptimizationInput, { request, metaPrompt }: PreparedRequest): string {
+    return cacheKey([input.prompt, metaPrompt, provider.id, provider.model, request.temperature, input.policy?.placeholders?.onMismatch]);
+}
+
+// One optimization round trip; streams when a token handler is given. The
+// answer is checked for the prompt's placeholders before it is returned.
+export async function runOptimization(provider: LLMProvider, input: OptimizationInput, onToken?: TokenHandler): Promise<OptimizationOutput> {
+    const prepared = prepareRequest(provider, input);
+    const key = input.cache && requestCacheKey(provider, input, prepared);
+    const hit = key ? await input.cache!.get(key) : undefined;
+    if (hit) {
+        return { ...hit.value, cachedAt: hit.timestamp };
+    }
+
+    const { request, metaPrompt, conversation } = prepared;
+    const result = onToken ? await provider.stream(request, onToken) : await provider.complete(request);
+    const finish = (answer: string) => {
+        const prompt = input.structured ? parseStructured(provider, answer).optimized_prompt : answer;
+        return conversation ? serializeConversation(conversation, mergeOptimizedConversation(conversation.messages, prompt)) : prompt;
+    };
+    const { answer, text, usage, placeholders } = await preservePlaceholders(provider, input, request, result, finish);
+    const output: OptimizationOutput = {
+        ...result,
+        text,
+        usage,
+        model: result.model || provider.model,
+        metaPrompt,
+        placeholders,
+        structured: input.structured ? parseStructured(provider, answer) : undefined
+    };
+    if (key) {
+        await input.cache!.set(key, output);
+    }
+    return output;
+}
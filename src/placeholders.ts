@@ -0,0 +1,214 @@
+// Template variables a prompt must keep through optimization: `{{name}}`,
+// `{input}`, `$VAR` / `${VAR}` and `<context>` tags, plus workspace-defined
+// patterns. Pure, so the optimizer can check answers outside the extension host.
+
+export type PlaceholderSyntax = 'mustache' | 'brace' | 'dollar' | 'xml';
+
+export const PLACEHOLDER_SYNTAXES: PlaceholderSyntax[] = ['mustache', 'brace', 'dollar', 'xml'];
+
+// What happens when the answer drops, renames or adds placeholders:
+// repair renames and retry once, reject after a failed retry, or only report
+export type PlaceholderMismatchMode = 'repair' | 'reject' | 'warn';
+
+export interface PlaceholderOptions {
+    syntaxes?: PlaceholderSyntax[];
+    // Extra regular expressions; the first capture group is the name
+    patterns?: string[];
+    onMismatch?: PlaceholderMismatchMode;
+}
+
+export interface Placeholder {
+    // `mustache`, `xml`, ... or `pattern:N` for the Nth custom pattern
+    syntax: string;
+    name: string;
+    // As first written in the text
+    text: string;
+}
+
+export interface PlaceholderCheck {
+    missing: Placeholder[];
+    added: Placeholder[];
+    renamed: Array<{ from: Placeholder; to: Placeholder }>;
+}
+
+// Capture group 1 is the name; earlier syntaxes win where matches overlap
+const SYNTAX_PATTERNS: Record<PlaceholderSyntax, string> = {
+    mustache: String.raw`\{\{\s*([\w.-]+)\s*\}\}`,
+    dollar: String.raw`\$\{\s*([A-Za-z_][\w.]*)\s*\}|\$([A-Za-z_]\w*)`,
+    brace: String.raw`(?<![{$])\{\s*([A-Za-z_][\w.]*)\s*\}(?!\})`,
+    xml: String.raw`</?([A-Za-z][\w-]*)(?:\s+[\w-]+(?:=(?:"[^"]*"|'[^']*'|[^\s<>"']+))?)*\s*/?>`
+};
+
+interface Matcher {
+    syntax: string;
+    pattern: RegExp;
+}
+
+// Custom patterns that are not valid regular expressions are skipped
+function matchers(options: PlaceholderOptions): Matcher[] {
+    const builtIn = (['mustache', 'dollar', 'brace', 'xml'] as PlaceholderSyntax[])
+        .filter(syntax => (options.syntaxes || PLACEHOLDER_SYNTAXES).includes(syntax))
+        .map(syntax => ({ syntax, pattern: new RegExp(SYNTAX_PATTERNS[syntax], 'y') }));
+    const custom = (options.patterns || []).flatMap((source, index) => {
+        try {
+            return [{ syntax: `pattern:${index}`, pattern: new RegExp(source, 'y') }];
+        } catch {
+            return [];
+        }
+    });
+    return [...custom, ...builtIn];
+}
+
+interface Occurrence extends Placeholder {
+    start: number;
+    end: number;
+}
+
+function scan(text: string, options: PlaceholderOptions): Occurrence[] {
+    const active = matchers(options);
+    const found: Occurrence[] = [];
+    let index = 0;
+    while (index < text.length) {
+        let matched: Occurrence | undefined;
+        for (const { syntax, pattern } of active) {
+            pattern.lastIndex = index;
+            const match = pattern.exec(text);
+            if (match && match[0]) {
+                const name = match.slice(1).find(group => group !== undefined) ?? match[0];
+                matched = { syntax, name, text: match[0], start: index, end: index + match[0].length };
+                break;
+            }
+        }
+        if (matched) {
+            found.push(matched);
+        }
+        index = matched ? matched.end : index + 1;
+    }
+    return found;
+}
+
+const keyOf = (placeholder: Placeholder) => `${placeholder.syntax}\u0000${placeholder.name}`;
+
+// Each distinct placeholder once, in order of first appearance; closing XML tags
+// count as their opening tag
+export function extractPlaceholders(text: string, options: PlaceholderOptions = {}): Placeholder[] {
+    const unique = new Map<string, Placeholder>();
+    for (const { syntax, name, text: source } of scan(text, options)) {
+        const placeholder = { syntax, name, text: syntax === 'xml' ? `<${name}>` : source };
+        if (!unique.has(keyOf(placeholder))) {
+            unique.set(keyOf(placeholder), placeholder);
+        }
+    }
+    return [...unique.values()];
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Compare the placeholders of the original prompt with the optimized text. A
+// missing placeholder is taken as renamed when an added one has the same name in
+// another syntax or casing, or when it is the only change of its syntax. XML tags
+// are only paired with XML tags, and those the model adds for structure are not
+// reported.
+export function checkPlaceholders(original: string, optimized: string, options: PlaceholderOptions = {}): PlaceholderCheck {
+    const before = extractPlaceholders(original, options);
+    const after = extractPlaceholders(optimized, options);
+    const beforeKeys = new Set(before.map(keyOf));
+    const afterKeys = new Set(after.map(keyOf));
+    const missing = before.filter(placeholder => !afterKeys.has(keyOf(placeholder)));
+    let added = after.filter(placeholder => !beforeKeys.has(keyOf(placeholder)));
+    const renamed: PlaceholderCheck['renamed'] = [];
+
+    const pair = (from: Placeholder, to: Placeholder) => {
+        renamed.push({ from, to });
+        added = added.filter(placeholder => placeholder !== to);
+    };
+    for (const from of missing) {
+        const sameName = added.find(to => normalizeName(to.name) === normalizeName(from.name) && (to.syntax === 'xml') === (from.syntax === 'xml'));
+        if (sameName) {
+            pair(from, sameName);
+        }
+    }
+    for (const syntax of new Set(missing.map(placeholder => placeholder.syntax))) {
+        const stillMissing = missing.filter(from => from.syntax === syntax && !renamed.some(rename => rename.from === from));
+        const candidates = added.filter(to => to.syntax === syntax);
+        if (stillMissing.length === 1 && candidates.length === 1) {
+            pair(stillMissing[0], candidates[0]);
+        }
+    }
+
+    return {
+        missing: missing.filter(from => !renamed.some(rename => rename.from === from)),
+        added: added.filter(placeholder => placeholder.syntax !== 'xml'),
+        renamed
+    };
+}
+
+// What the optimizer did about a changed answer; `unresolved` is left for the user
+export interface PlaceholderReport {
+    repaired: PlaceholderCheck['renamed'];
+    retried: boolean;
+    unresolved?: PlaceholderCheck;
+}
+
+export function isPlaceholderCheckClean(check: PlaceholderCheck): boolean {
+    return !check.missing.length && !check.added.length && !check.renamed.length;
+}
+
+// Put the original placeholders back where the model renamed them; XML tags keep
+// their attributes and closing slash
+export function repairPlaceholders(text: string, check: PlaceholderCheck, options: PlaceholderOptions = {}): string {
+    if (!check.renamed.length) {
+        return text;
+    }
+    let repaired = '';
+    let index = 0;
+    for (const occurrence of scan(text, options)) {
+        const rename = check.renamed.find(({ to }) => keyOf(to) === keyOf(occurrence));
+        if (!rename) {
+            continue;
+        }
+        const replacement = occurrence.syntax === 'xml' && rename.from.syntax === 'xml'
+            ? occurrence.text.replace(occurrence.name, rename.from.name)
+            : rename.from.text;
+        repaired += text.slice(index, occurrence.start) + replacement;
+        index = occurrence.end;
+    }
+    return repaired + text.slice(index);
+}
+
+export function describePlaceholderCheck(check: PlaceholderCheck): string {
+    const list = (placeholders: Placeholder[]) => placeholders.map(placeholder => placeholder.text).join(', ');
+    return [
+        ...check.missing.length ? [`missing ${list(check.missing)}`] : [],
+        ...check.renamed.length ? [`renamed ${check.renamed.map(({ from, to }) => `${from.text} → ${to.text}`).join(', ')}`] : [],
+        ...check.added.length ? [`added ${list(check.added)}`] : []
+    ].join('; ');
+}
+
+// One line for the user, or undefined when nothing needed attention
+export function describePlaceholderReport(report?: PlaceholderReport): string | undefined {
+    if (report?.unresolved) {
+        return `Placeholders changed in the optimized prompt: ${describePlaceholderCheck(report.unresolved)}.`;
+    }
+    if (report?.repaired.length) {
+        return `Restored renamed placeholders: ${report.repaired.map(({ from, to }) => `${to.text} → ${from.text}`).join(', ')}.`;
+    }
+    return undefined;
+}
+
+// Requirement line for the meta-prompt
+export function placeholderRequirement(placeholders: Placeholder[]): string {
+    return `Keep these placeholders exactly as written, each at least once: ${placeholders.map(placeholder => `\`${placeholder.text}\``).join(', ')}. Do not rename them, change their syntax or add new placeholders; they are filled in later.`;
+}
+
+// Follow-up message asking the model to fix its previous answer
+export function placeholderCorrection(check: PlaceholderCheck, placeholders: Placeholder[]): string {
+    return `Your answer changed the prompt's placeholders (${describePlaceholderCheck(check)}). Return the complete answer again in the same format, using exactly these placeholders as written: ${placeholders.map(placeholder => `\`${placeholder.text}\``).join(', ') || 'none'}.`;
+}
+
+export class PlaceholderMismatchError extends Error {
+    constructor(readonly check: PlaceholderCheck) {
+        super(`The optimized prompt changed its placeholders: ${describePlaceholderCheck(check)}.`);
+        this.name = 'PlaceholderMismatchError';
+    }
+}
@@ -0,0 +1,79 @@
+import { ProviderId } from './providers';
+
+export interface ModelInfo {
+    contextWindow: number;
+    maxOutputTokens: number;
+    // USD per million tokens; undefined when the price is unknown
+    inputCostPer1M?: number;
+    outputCostPer1M?: number;
+}
+
+// Matched by longest prefix so dated snapshots (gpt-4o-2024-08-06) resolve too
+export const MODEL_INFO: Record<string, ModelInfo> = {
+    'gpt-3.5-turbo': { contextWindow: 16385, maxOutputTokens: 4096, inputCostPer1M: 0.5, outputCostPer1M: 1.5 },
+    'gpt-4': { contextWindow: 8192, maxOutputTokens: 8192, inputCostPer1M: 30, outputCostPer1M: 60 },
+    'gpt-4-turbo': { contextWindow: 128000, maxOutputTokens: 4096, inputCostPer1M: 10, outputCostPer1M: 30 },
+    'gpt-4o': { contextWindow: 128000, maxOutputTokens: 16384, inputCostPer1M: 2.5, outputCostPer1M: 10 },
+    'gpt-4o-mini': { contextWindow: 128000, maxOutputTokens: 16384, inputCostPer1M: 0.15, outputCostPer1M: 0.6 },
+    'gpt-4.1': { contextWindow: 1047576, maxOutputTokens: 32768, inputCostPer1M: 2, outputCostPer1M: 8 },
+    'gpt-4.1-mini': { contextWindow: 1047576, maxOutputTokens: 32768, inputCostPer1M: 0.4, outputCostPer1M: 1.6 },
+    'gpt-4.1-nano': { contextWindow: 1047576, maxOutputTokens: 32768, inputCostPer1M: 0.1, outputCostPer1M: 0.4 },
+    'o1': { contextWindow: 200000, maxOutputTokens: 100000, inputCostPer1M: 15, outputCostPer1M: 60 },
+    'o3-mini': { contextWindow: 200000, maxOutputTokens: 100000, inputCostPer1M: 1.1, outputCostPer1M: 4.4 },
+    'claude-3-5-sonnet': { contextWindow: 200000, maxOutputTokens: 8192, inputCostPer1M: 3, outputCostPer1M: 15 },
+    'claude-3-7-sonnet': { contextWindow: 200000, maxOutputTokens: 64000, inputCostPer1M: 3, outputCostPer1M: 15 },
+    'claude-sonnet-4': { contextWindow: 200000, maxOutputTokens: 64000, inputCostPer1M: 3, outputCostPer1M: 15 },
+    'claude-3-5-haiku': { contextWindow: 200000, maxOutputTokens: 8192, inputCostPer1M: 0.8, outputCostPer1M: 4 },
+    'claude-3-opus': { contextWindow: 200000, maxOutputTokens: 4096, inputCostPer1M: 15, outputCostPer1M: 75 },
+    'claude-opus-4': { contextWindow: 200000, maxOutputTokens: 32000, inputCostPer1M: 15, outputCostPer1M: 75 }
+};
+
+// Conservative limits for models we know nothing about
+export const DEFAULT_MODEL_INFO: ModelInfo = { contextWindow: 8192, maxOutputTokens: 4096 };
+
+// Never ask for less than this, even for a one-line prompt
+export const MIN_COMPLETION_TOKENS = 1000;
+
+// Headroom for chat formatting tokens the tokenizer does not see
+const MESSAGE_OVERHEAD_TOKENS = 64;
+
+const LOCAL_PROVIDERS: ProviderId[] = ['ollama', 'openaiCompatible'];
+
+export function getModelInfo(model: string, provider?: ProviderId, overrides: Record<string, Partial<ModelInfo>> = {}): ModelInfo {
+    const table: Record<string, Partial<ModelInfo>> = { ...MODEL_INFO, ...overrides };
+    const key = Object.keys(table)
+        .filter(name => model.toLowerCase().startsWith(name.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+    const info: ModelInfo = { ...DEFAULT_MODEL_INFO, ...(key ? MODEL_INFO[key] : {}), ...(key ? overrides[key] : {}) };
+
+    // Local servers cost nothing unless a price was configured
+    if (provider && LOCAL_PROVIDERS.includes(provider) && !(key && overrides[key]?.inputCostPer1M !== undefined)) {
+        return { ...info, inputCostPer1M: 0, outputCostPer1M: 0 };
+    }
+    return info;
+}
+
+// Undefined when the model's price is unknown
+export function estimateCost(info: ModelInfo, promptTokens: number, completionTokens: number): number | undefined {
+    if (info.inputCostPer1M === undefined || info.outputCostPer1M === undefined) {
+        return undefined;
+    }
+    return (promptTokens * info.inputCostPer1M + completionTokens * info.outputCostPer1M) / 1_000_000;
+}
+
+export function formatCost(cost: number | undefined): string {
+    if (cost === undefined) {
+        return 'unknown cost';
+    }
+    return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+// Room for a rewrite about twice the input's size, bounded by the model's output
+// limit and by what is left of its context window
+export function deriveMaxTokens(info: ModelInfo, promptTokens: number): number {
+    const available = info.contextWindow - promptTokens - MESSAGE_OVERHEAD_TOKENS;
+    if (available <= 0) {
+        throw new Error(`The prompt is ${promptTokens} tokens, which exceeds the model's ${info.contextWindow}-token context window.`);
+    }
+    return Math.min(Math.max(MIN_COMPLETION_TOKENS, promptTokens * 2), info.maxOutputTokens, available);
+}
@@ -0,0 +1,364 @@
+// Finds prompts inside workspace files: whole prompt files, ```prompt fences in
+// markdown and likely LLM prompts in source code string literals.
+
+export type PromptSpanKind = 'file' | 'fence' | 'string';
+
+// How a string literal is written, so an optimized prompt can be written back
+// in the same style
+export interface LiteralFormat {
+    // Opening delimiter, e.g. `"`, `'''`, `` ` ``
+    quote: string;
+    // Python string prefix, e.g. `f`
+    prefix: string;
+    // Interpolations kept verbatim, e.g. `${user.name}`, `{topic}`
+    placeholders: string[];
+    // Indentation removed from continuation lines of multi-line literals
+    indent: string;
+    // Line break after the opening delimiter and before the closing one
+    leading: string;
+    trailing: string;
+    eol: string;
+}
+
+export interface PromptSpan {
+    kind: PromptSpanKind;
+    // Offsets of the raw text between the delimiters
+    start: number;
+    end: number;
+    // Decoded prompt text
+    text: string;
+    // Variable, key or call the literal belongs to
+    name?: string;
+    literal?: LiteralFormat;
+}
+
+type SourceLanguage = 'js' | 'python';
+
+const PROMPT_FILE = /\.prompt(\.md)?$/i;
+const MARKDOWN_FILE = /\.(md|mdx|markdown)$/i;
+const SOURCE_LANGUAGES: Array<[RegExp, SourceLanguage]> = [
+    [/\.[cm]?[jt]sx?$/i, 'js'],
+    [/\.py$/i, 'python']
+];
+
+// Literals shorter than this are labels or ids rather than prompts
+export const MIN_PROMPT_LENGTH = 40;
+
+const LITERAL_START = '(?=[fFuU]?["\'`])';
+
+interface Detector {
+    pattern: RegExp;
+    name(match: RegExpExecArray, text: string): string | undefined;
+}
+
+// Roles mentioned shortly before a `content` key belong to the same message
+const ROLE_WINDOW = 200;
+
+const DETECTORS: Detector[] = [
+    // `systemPrompt = "..."`, `prompt = '...'`, `instructions: '...'`, `"user_prompt": """..."""`, `system="..."`
+    {
+        pattern: new RegExp(`["']?(?<![\\w$])((?:[A-Za-z_$][\\w$]*?)?(?:prompt|instructions?|system)[\\w$]*)["']?\\s*(?::\\s*[\\w.<>[\\]| ]+?\\s*=|:|=)\\s*${LITERAL_START}`, 'gi'),
+        name: match => match[1]
+    },
+    // `messages: [{ role: 'system', content: '...' }]`, `SystemMessage(content="...")`
+    {
+        pattern: new RegExp(`["']?content["']?\\s*[:=]\\s*${LITERAL_START}`, 'g'),
+        name: (match, text) => {
+            const before = text.slice(Math.max(0, match.index - ROLE_WINDOW), match.index);
+            const roles = [...before.matchAll(/["']?role["']?\s*[:=]\s*["'](\w+)["']|\b(\w+)Message\s*\(/g)];
+            const role = roles[roles.length - 1];
+            return role ? `${(role[1] || role[2]).toLowerCase()} message` : undefined;
+        }
+    },
+    // LangChain-style constructors and template factories taking the prompt first
+    {
+        pattern: new RegExp(`\\b(fromTemplate|from_template|PromptTemplate|SystemMessage|HumanMessage|SystemMessagePromptTemplate|HumanMessagePromptTemplate)\\s*\\(\\s*${LITERAL_START}`, 'g'),
+        name: match => match[1]
+    },
+    // `("system", "...")` message tuples
+    {
+        pattern: new RegExp(`[([]\\s*["'](system|human|user)["']\\s*,\\s*${LITERAL_START}`, 'g'),
+        name: match => `${match[1]} message`
+    }
+];
+
+// Opening line and info string of a fenced code block
+const FENCE = /^([ \t]*)(`{3,}|~{3,})[ \t]*([^\s`]*)[^\n]*$/gm;
+
+export function isPromptFile(fileName: string): boolean {
+    return PROMPT_FILE.test(fileName);
+}
+
+function sourceLanguage(fileName: string): SourceLanguage | undefined {
+    return SOURCE_LANGUAGES.find(([pattern]) => pattern.test(fileName))?.[1];
+}
+
+export function extractPrompts(text: string, fileName: string): PromptSpan[] {
+    if (isPromptFile(fileName)) {
+        return text.trim() ? [{ kind: 'file', start: 0, end: text.length, text }] : [];
+    }
+    if (MARKDOWN_FILE.test(fileName)) {
+        return extractFences(text);
+    }
+    const language = sourceLanguage(fileName);
+    return language ? extractStringLiterals(text, language) : [];
+}
+
+// Fenced blocks tagged `prompt`; the closing fence must match the opening one
+function extractFences(text: string): PromptSpan[] {
+    const spans: PromptSpan[] = [];
+    FENCE.lastIndex = 0;
+    let open: RegExpExecArray | null;
+    while ((open = FENCE.exec(text))) {
+        const [, , marker, info] = open;
+        const start = open.index + open[0].length + 1;
+        const close = new RegExp(`^[ \\t]*${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*\\r?$`, 'm');
+        const rest = text.slice(start);
+        const match = close.exec(rest);
+        const end = match ? start + match.index : text.length;
+        if (info.toLowerCase() === 'prompt' && start <= end) {
+            // Keep the final newline outside the span
+            const contentEnd = end > start && text[end - 1] === '\n' ? end - (text[end - 2] === '\r' ? 2 : 1) : end;
+            const content = text.slice(start, contentEnd);
+            if (content.trim()) {
+                spans.push({ kind: 'fence', start, end: contentEnd, text: content });
+            }
+        }
+        FENCE.lastIndex = match ? start + match.index + match[0].length : text.length;
+    }
+    return spans;
+}
+
+function extractStringLiterals(text: string, language: SourceLanguage): PromptSpan[] {
+    const candidates = new Map<number, string | undefined>();
+    for (const detector of DETECTORS) {
+        detector.pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = detector.pattern.exec(text))) {
+            const offset = match.index + match[0].length;
+            if (!candidates.has(offset)) {
+                candidates.set(offset, detector.name(match, text));
+            }
+        }
+    }
+
+    const spans: PromptSpan[] = [];
+    let lastEnd = 0;
+    for (const offset of [...candidates.keys()].sort((a, b) => a - b)) {
+        // A match inside an earlier literal is part of that prompt's text
+        if (offset < lastEnd) {
+            continue;
+        }
+        const literal = readLiteral(text, offset, language);
+        if (!literal) {
+            continue;
+        }
+        lastEnd = literal.end;
+        const { text: prompt, format } = decodePrompt(text.slice(literal.start, literal.end), literal);
+        if (prompt.trim().length >= MIN_PROMPT_LENGTH && /\s/.test(prompt.trim())) {
+            spans.push({ kind: 'string', start: literal.start, end: literal.end, text: prompt, name: candidates.get(offset), literal: format });
+        }
+    }
+    return spans;
+}
+
+interface LiteralMatch {
+    start: number;
+    end: number;
+    quote: string;
+    prefix: string;
+    // Interpolations, relative to `start`
+    placeholders: Array<{ start: number; end: number }>;
+}
+
+// Index of the brace closing the one at `open`, or -1
+function findClosingBrace(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '{') {
+            depth++;
+        } else if (text[i] === '}' && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+// Locate the raw body of the literal opening at `offset` and its interpolations.
+// Raw, byte and unterminated strings are skipped rather than guessed at.
+function readLiteral(text: string, offset: number, language: SourceLanguage): LiteralMatch | undefined {
+    const prefix = language === 'python' ? /^[fFuU]?/.exec(text.slice(offset, offset + 1))![0] : '';
+    const position = offset + prefix.length;
+    const quote = language === 'python' && /^("""|''')/.test(text.slice(position, position + 3)) ? text.slice(position, position + 3) : text[position];
+    if (!quote || !/^["'`]/.test(quote) || quote === '`' && language !== 'js') {
+        return undefined;
+    }
+    const multiline = quote.length === 3 || quote === '`';
+    const interpolation = quote === '`' ? '${' : /f/i.test(prefix) ? '{' : undefined;
+    const start = position + quote.length;
+    const placeholders: LiteralMatch['placeholders'] = [];
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            i++;
+            continue;
+        }
+        if (char === '\n' && !multiline) {
+            return undefined;
+        }
+        if (interpolation && text.startsWith(interpolation, i)) {
+            // `{{` is a literal brace in f-strings
+            if (interpolation === '{' && text[i + 1] === '{') {
+                i++;
+                continue;
+            }
+            const close = findClosingBrace(text, i + interpolation.length - 1);
+            if (close < 0) {
+                return undefined;
+            }
+            placeholders.push({ start: i - start, end: close + 1 - start });
+            i = close;
+            continue;
+        }
+        if (text.startsWith(quote, i)) {
+            return { start, end: i, quote, prefix, placeholders };
+        }
+    }
+    return undefined;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+
+// Escapes that decode to a plain character. Anything else (`\u00e9`, `\x41`, `\N{...}`,
+// `\0`, ...) is kept as written so that writing the text back leaves it alone
+const isDecodedEscape = (char: string, quote: string) =>
+    char in ESCAPES || char === '\\' || char === '"' || char === "'" || char === '`' || char === '$' && quote === '`' || char === '\n' || char === '\r';
+
+export function decodeLiteral(raw: string, quote: string): string {
+    return raw.replace(/\\(\r?\n|.)/g, (escape, char: string, offset: number) => {
+        if (char === '\n' || char === '\r\n') {
+            // Line continuation
+            return '';
+        }
+        if (char in ESCAPES) {
+            return ESCAPES[char];
+        }
+        const next = raw[offset + 2];
+        if (char === '\\' && next !== undefined && !isDecodedEscape(next, quote)) {
+            // An escaped backslash before a kept escape stays doubled, or it would read as that escape
+            return escape;
+        }
+        return isDecodedEscape(char, quote) ? char : escape;
+    });
+}
+
+function encodeBackslashes(text: string, quote: string): string {
+    let raw = '';
+    for (let i = 0; i < text.length; i++) {
+        const next = text[i + 1];
+        if (text[i] !== '\\') {
+            raw += text[i];
+        } else if (next === '\\' && text[i + 2] !== undefined && !isDecodedEscape(text[i + 2], quote)) {
+            raw += '\\\\';
+            i++;
+        } else {
+            raw += next !== undefined && !isDecodedEscape(next, quote) ? '\\' : '\\\\';
+        }
+    }
+    return raw;
+}
+
+// Inverse of decodeLiteral for the same delimiter, so the surrounding code is untouched
+export function encodeLiteral(text: string, quote: string): string {
+    let raw = encodeBackslashes(text, quote);
+    if (quote === '`') {
+        return raw.replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+    }
+    if (quote.length === 3) {
+        // Keep a trailing quote off the closing delimiter and break up any inside
+        raw = raw.endsWith(quote[0]) ? `${raw.slice(0, -1)}\\${quote[0]}` : raw;
+        return raw.split(quote).join(`${quote[0]}${quote[0]}\\${quote[0]}`);
+    }
+    return raw
+        .replace(new RegExp(quote, 'g'), `\\${quote}`)
+        .replace(/\r/g, '\\r')
+        .replace(/\n/g, '\\n');
+}
+
+const isFString = (prefix: string) => /f/i.test(prefix);
+
+function decodeSegment(raw: string, quote: string, prefix: string): string {
+    const decoded = decodeLiteral(raw, quote);
+    return isFString(prefix) ? decoded.replace(/\{\{/g, '{').replace(/\}\}/g, '}') : decoded;
+}
+
+function encodeSegment(text: string, quote: string, prefix: string): string {
+    const encoded = isFString(prefix) ? text.replace(/\{/g, '{{').replace(/\}/g, '}}') : text;
+    return encodeLiteral(encoded, quote);
+}
+
+const commonPrefix = (a: string, b: string) => {
+    let i = 0;
+    while (i < a.length && a[i] === b[i]) {
+        i++;
+    }
+    return a.slice(0, i);
+};
+
+// Decode escapes around the interpolations and strip the code's indentation
+// from multi-line literals
+function decodePrompt(raw: string, literal: LiteralMatch): { text: string; format: LiteralFormat } {
+    let decoded = '';
+    let position = 0;
+    for (const placeholder of literal.placeholders) {
+        decoded += decodeSegment(raw.slice(position, placeholder.start), literal.quote, literal.prefix) + raw.slice(placeholder.start, placeholder.end);
+        position = placeholder.end;
+    }
+    decoded += decodeSegment(raw.slice(position), literal.quote, literal.prefix);
+
+    const format: LiteralFormat = {
+        quote: literal.quote,
+        prefix: literal.prefix,
+        placeholders: [...new Set(literal.placeholders.map(placeholder => raw.slice(placeholder.start, placeholder.end)))],
+        indent: '',
+        leading: '',
+        trailing: '',
+        eol: decoded.includes('\r\n') ? '\r\n' : '\n'
+    };
+    if (literal.quote.length === 1 && literal.quote !== '`') {
+        return { text: decoded, format };
+    }
+
+    format.leading = /^[ \t]*\r?\n/.exec(decoded)?.[0] ?? '';
+    format.trailing = /\r?\n[ \t]*$/.exec(decoded.slice(format.leading.length))?.[0] ?? '';
+    const lines = decoded.slice(format.leading.length, decoded.length - format.trailing.length).split(/\r?\n/);
+    // The first line follows the opening quote unless the literal starts with a line break
+    const indented = (format.leading ? lines : lines.slice(1)).filter(line => line.trim());
+    format.indent = indented.length ? indented.map(line => /^[ \t]*/.exec(line)![0]).reduce(commonPrefix) : '';
+    const text = lines.map((line, index) => (index > 0 || format.leading) ? line.slice(format.indent.length) : line).join('\n');
+    return { text, format };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Re-indent, re-escape and keep the original interpolations live. Placeholders the
+// optimizer invented are escaped as plain text so they can't reference unknown variables.
+export function encodePrompt(text: string, format: LiteralFormat): string {
+    const lines = text.trim().split(/\r?\n/);
+    const body = lines.map((line, index) => (index > 0 || format.leading) && line ? format.indent + line : line).join(format.eol);
+    const full = format.leading + body + format.trailing;
+    if (!format.placeholders.length) {
+        return encodeSegment(full, format.quote, format.prefix);
+    }
+
+    const placeholders = new RegExp(`(${[...format.placeholders].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`);
+    return full.split(placeholders)
+        .map((part, index) => index % 2 ? part : encodeSegment(part, format.quote, format.prefix))
+        .join('');
+}
+
+// Text to put between the span's delimiters for an optimized prompt
+export function formatForSource(span: PromptSpan, optimized: string): string {
+    return span.literal ? encodePrompt(optimized, span.literal) : optimized;
+}
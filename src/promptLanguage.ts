@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import { LintFinding, LintRule, LintSeverity, LintSeverityOverrides, lintPrompt } from './lint';
+
+export const PROMPT_LANGUAGE_ID = 'prompt';
+const DIAGNOSTIC_SOURCE = 'promptious';
+const LINT_DELAY_MS = 300;
+
+const SEVERITIES: Record<LintSeverity, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information
+};
+
+function getLintSettings(): { enabled: boolean; overrides: LintSeverityOverrides } {
+    const config = vscode.workspace.getConfiguration('promptious');
+    return {
+        enabled: config.get<boolean>('lint.enabled', true),
+        overrides: config.get<LintSeverityOverrides>('lint.rules', {})
+    };
+}
+
+function lintDocument(document: vscode.TextDocument): LintFinding[] {
+    return lintPrompt(document.getText(), getLintSettings().overrides);
+}
+
+function toRange(document: vscode.TextDocument, start: number, end: number): vscode.Range {
+    return new vscode.Range(document.positionAt(start), document.positionAt(end));
+}
+
+function toDiagnostic(document: vscode.TextDocument, finding: LintFinding): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(toRange(document, finding.start, finding.end), finding.message, SEVERITIES[finding.severity]);
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = finding.rule;
+    if (finding.related) {
+        diagnostic.relatedInformation = [new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(document.uri, toRange(document, finding.related.start, finding.related.end)),
+            finding.related.message
+        )];
+    }
+    return diagnostic;
+}
+
+// Lint `prompt` documents as they are opened and edited
+export function registerPromptLinter(context: vscode.ExtensionContext): void {
+    const diagnostics = vscode.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+    const pending = new Map<string, NodeJS.Timeout>();
+
+    const update = (document: vscode.TextDocument) => {
+        if (document.languageId !== PROMPT_LANGUAGE_ID || !getLintSettings().enabled) {
+            diagnostics.delete(document.uri);
+            return;
+        }
+        diagnostics.set(document.uri, lintDocument(document).map(finding => toDiagnostic(document, finding)));
+    };
+
+    const schedule = (document: vscode.TextDocument) => {
+        const key = document.uri.toString();
+        clearTimeout(pending.get(key));
+        pending.set(key, setTimeout(() => {
+            pending.delete(key);
+            update(document);
+        }, LINT_DELAY_MS));
+    };
+
+    vscode.workspace.textDocuments.forEach(update);
+
+    context.subscriptions.push(
+        diagnostics,
+        vscode.workspace.onDidOpenTextDocument(update),
+        vscode.workspace.onDidChangeTextDocument(event => schedule(event.document)),
+        vscode.workspace.onDidCloseTextDocument(document => diagnostics.delete(document.uri)),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('promptious.lint')) {
+                vscode.workspace.textDocuments.forEach(update);
+            }
+        }),
+        { dispose: () => pending.forEach(timer => clearTimeout(timer)) }
+    );
+}
+
+// Quick fixes for our diagnostics: a deterministic rewrite when the rule has
+// one, otherwise optimize just the flagged span
+export function getLintCodeActions(document: vscode.TextDocument, diagnostics: readonly vscode.Diagnostic[]): vscode.CodeAction[] {
+    const ours = diagnostics.filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE);
+    if (!ours.length) {
+        return [];
+    }
+
+    const findings = lintDocument(document);
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of ours) {
+        const finding = findings.find(candidate =>
+            candidate.rule === diagnostic.code as LintRule &&
+            toRange(document, candidate.start, candidate.end).isEqual(diagnostic.range));
+        if (!finding) {
+            continue;
+        }
+
+        if (finding.fix) {
+            const action = new vscode.CodeAction(finding.fix.title, vscode.CodeActionKind.QuickFix);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, toRange(document, finding.fix.start, finding.fix.end), finding.fix.text);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = true;
+            actions.push(action);
+        } else if (finding.rule === 'unfilled-placeholder') {
+            const action = new vscode.CodeAction(`Fill in ${document.getText(diagnostic.range)}`, vscode.CodeActionKind.QuickFix);
+            action.command = { command: 'promptious.fillPlaceholder', title: 'Fill Placeholder', arguments: [document.uri, diagnostic.range] };
+            action.diagnostics = [diagnostic];
+            actions.push(action);
+        }
+
+        // The optimizer works on the whole line so it has enough context
+        const line = document.lineAt(diagnostic.range.start.line);
+        if (!line.isEmptyOrWhitespace) {
+            const optimize = new vscode.CodeAction('Optimize this line with Promptious', vscode.CodeActionKind.QuickFix);
+            optimize.command = { command: 'promptious.optimizeRange', title: 'Optimize Range', arguments: [document.uri, line.range] };
+            optimize.diagnostics = [diagnostic];
+            actions.push(optimize);
+        }
+    }
+
+    return actions;
+}
+
+// Replace every occurrence of a placeholder with a value the user types
+export async function fillPlaceholder(uri: vscode.Uri, range: vscode.Range): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const placeholder = document.getText(range);
+    const value = await vscode.window.showInputBox({ prompt: `Value for ${placeholder}` });
+    if (value === undefined) {
+        return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const text = document.getText();
+    for (let index = text.indexOf(placeholder); index !== -1; index = text.indexOf(placeholder, index + placeholder.length)) {
+        edit.replace(uri, toRange(document, index, index + placeholder.length), value);
+    }
+    await vscode.workspace.applyEdit(edit);
+}
@@ -0,0 +1,576 @@
+import { diffWords } from './wordDiff';
+import { parseYaml } from './yaml';
+
+// Handlebars/Jinja-like prompt templates: `{{ name }}` values with dotted paths
+// and filters, `{{#if}}` / `{% if %}` conditionals, `{{#each}}` / `{% for %}`
+// loops and comments. Rendering records where each piece of output came from,
+// so changes made to the rendered prompt can be mapped back onto the template.
+// Pure, so it is testable outside the extension host.
+
+export class TemplateSyntaxError extends Error {
+    constructor(message: string, public readonly offset: number, public readonly line: number) {
+        super(`${message} (line ${line + 1})`);
+        this.name = 'TemplateSyntaxError';
+    }
+}
+
+interface Filter {
+    name: string;
+    args: unknown[];
+}
+
+interface Condition {
+    path: string[];
+    negate: boolean;
+}
+
+interface TextNode {
+    type: 'text';
+    start: number;
+    end: number;
+}
+
+interface OutputNode {
+    type: 'output';
+    start: number;
+    end: number;
+    path: string[];
+    filters: Filter[];
+}
+
+interface IfNode {
+    type: 'if';
+    branches: Array<{ condition?: Condition; body: TemplateNode[] }>;
+}
+
+interface EachNode {
+    type: 'each';
+    path: string[];
+    // `{% for item in items %}` / `{{#each items as |item|}}`
+    alias?: string;
+    body: TemplateNode[];
+    // `{{else}}` / `{% else %}` inside the loop: rendered for an empty list
+    otherwise: TemplateNode[];
+}
+
+type TemplateNode = TextNode | OutputNode | IfNode | EachNode;
+
+export interface ParsedTemplate {
+    source: string;
+    nodes: TemplateNode[];
+}
+
+type Tag =
+    | { kind: 'comment' }
+    | { kind: 'output'; path: string[]; filters: Filter[] }
+    | { kind: 'if'; condition: Condition; closer: string }
+    | { kind: 'elseif'; condition: Condition }
+    | { kind: 'else' }
+    | { kind: 'each'; path: string[]; alias?: string; closer: string }
+    | { kind: 'end'; closer: string };
+
+// Comments, then Handlebars (group 1) and Jinja (group 2) tags
+const TAG_PATTERN = /\{\{!--[\s\S]*?--\}\}|\{\{![\s\S]*?\}\}|\{#[\s\S]*?#\}|\{\{\s*([\s\S]*?)\s*\}\}|\{%-?\s*([\s\S]*?)\s*-?%\}/g;
+
+const PATH_PATTERN = /^(?:this|@?[A-Za-z_][\w-]*)(?:\.[\w-]+)*$/;
+
+// Names a loop binds for its body; never looked up in the supplied values
+const LOOP_NAMES = ['this', '@index', '@first', '@last', 'loop'];
+
+type FilterFunction = (value: unknown, args: unknown[]) => unknown;
+
+const FILTERS: Record<string, FilterFunction> = {
+    default: (value, [fallback]) => value === undefined || value === null || value === '' ? fallback ?? '' : value,
+    upper: value => stringify(value).toUpperCase(),
+    lower: value => stringify(value).toLowerCase(),
+    trim: value => stringify(value).trim(),
+    join: (value, [separator]) => Array.isArray(value) ? value.map(stringify).join(separator === undefined ? ', ' : String(separator)) : value,
+    length: value => Array.isArray(value) || typeof value === 'string' ? value.length : 0
+};
+
+function lineAt(source: string, offset: number): number {
+    return source.slice(0, offset).split('\n').length - 1;
+}
+
+function parsePath(text: string, fail: (message: string) => never): string[] {
+    if (!PATH_PATTERN.test(text)) {
+        fail(`"${text}" is not a variable name`);
+    }
+    return text.split('.');
+}
+
+function parseLiteral(text: string, fail: (message: string) => never): unknown {
+    const quoted = /^(["'])([\s\S]*)\1$/.exec(text);
+    if (quoted) {
+        return quoted[2];
+    }
+    if (/^-?\d+(?:\.\d+)?$/.test(text)) {
+        return Number(text);
+    }
+    if (text === 'true' || text === 'false') {
+        return text === 'true';
+    }
+    return fail(`${text} is not a quoted string or number`);
+}
+
+function parseFilter(text: string, fail: (message: string) => never): Filter {
+    const match = /^(\w+)(?:\(([\s\S]*)\))?$/.exec(text);
+    if (!match || !FILTERS[match[1]]) {
+        fail(`Unknown filter "${text}"; use ${Object.keys(FILTERS).join(', ')}`);
+    }
+    const args = match![2]?.trim() ? match![2].split(',').map(arg => parseLiteral(arg.trim(), fail)) : [];
+    return { name: match![1], args };
+}
+
+function parseCondition(text: string, fail: (message: string) => never): Condition {
+    const negated = /^not\s+([\s\S]+)$/.exec(text);
+    return { path: parsePath((negated ? negated[1] : text).trim(), fail), negate: !!negated };
+}
+
+function parseOutput(text: string, fail: (message: string) => never): Tag {
+    const [expression, ...filters] = text.split('|').map(part => part.trim());
+    return { kind: 'output', path: parsePath(expression, fail), filters: filters.map(filter => parseFilter(filter, fail)) };
+}
+
+function parseHandlebarsTag(text: string, fail: (message: string) => never): Tag {
+    let match: RegExpExecArray | null;
+    if ((match = /^#(if|unless)\s+([\s\S]+)$/.exec(text))) {
+        const condition = parseCondition(match[2], fail);
+        return { kind: 'if', condition: { ...condition, negate: condition.negate !== (match[1] === 'unless') }, closer: `/${match[1]}` };
+    }
+    if ((match = /^#each\s+(\S+)(?:\s+as\s+\|\s*(\w+)\s*\|)?$/.exec(text))) {
+        return { kind: 'each', path: parsePath(match[1], fail), alias: match[2], closer: '/each' };
+    }
+    if ((match = /^else\s+if\s+([\s\S]+)$/.exec(text))) {
+        return { kind: 'elseif', condition: parseCondition(match[1], fail) };
+    }
+    if (text === 'else') {
+        return { kind: 'else' };
+    }
+    if (/^\/(if|unless|each)$/.test(text)) {
+        return { kind: 'end', closer: text };
+    }
+    if (/^[#/]/.test(text)) {
+        fail(`Unsupported block {{${text}}}`);
+    }
+    return parseOutput(text, fail);
+}
+
+function parseJinjaTag(text: string, fail: (message: string) => never): Tag {
+    let match: RegExpExecArray | null;
+    if ((match = /^if\s+([\s\S]+)$/.exec(text))) {
+        return { kind: 'if', condition: parseCondition(match[1], fail), closer: 'endif' };
+    }
+    if ((match = /^elif\s+([\s\S]+)$/.exec(text))) {
+        return { kind: 'elseif', condition: parseCondition(match[1], fail) };
+    }
+    if ((match = /^for\s+(\w+)\s+in\s+(\S+)$/.exec(text))) {
+        return { kind: 'each', path: parsePath(match[2], fail), alias: match[1], closer: 'endfor' };
+    }
+    if (text === 'else') {
+        return { kind: 'else' };
+    }
+    if (text === 'endif' || text === 'endfor') {
+        return { kind: 'end', closer: text };
+    }
+    return fail(`Unsupported tag {% ${text} %}`);
+}
+
+// A block tag alone on its line takes the whole line with it, so conditionals
+// and loops do not leave blank lines in the rendered prompt
+function standaloneRange(source: string, start: number, end: number): [number, number] {
+    const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+    const newline = source.indexOf('\n', end);
+    const lineEnd = newline === -1 ? source.length : newline + 1;
+    const before = source.slice(lineStart, start);
+    const after = source.slice(end, newline === -1 ? source.length : newline);
+    return /^[ \t]*$/.test(before) && /^[ \t\r]*$/.test(after) ? [lineStart, lineEnd] : [start, end];
+}
+
+interface Frame {
+    tag: Extract<Tag, { kind: 'if' | 'each' }>;
+    start: number;
+    node: IfNode | EachNode;
+    // Where the next nodes go: the open branch or loop section
+    target: TemplateNode[];
+}
+
+export function parseTemplate(source: string): ParsedTemplate {
+    const nodes: TemplateNode[] = [];
+    const stack: Frame[] = [];
+    const target = () => stack.length ? stack[stack.length - 1].target : nodes;
+    let position = 0;
+
+    TAG_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TAG_PATTERN.exec(source))) {
+        const offset = match.index;
+        const fail = (message: string): never => {
+            throw new TemplateSyntaxError(message, offset, lineAt(source, offset));
+        };
+        const tag = match[1] !== undefined ? parseHandlebarsTag(match[1], fail)
+            : match[2] !== undefined ? parseJinjaTag(match[2], fail)
+            : { kind: 'comment' } as Tag;
+        const [start, end] = tag.kind === 'output'
+            ? [offset, offset + match[0].length]
+            : standaloneRange(source, offset, offset + match[0].length);
+
+        if (start > position) {
+            target().push({ type: 'text', start: position, end: start });
+        }
+        position = end;
+
+        const frame = stack[stack.length - 1];
+        switch (tag.kind) {
+            case 'comment':
+                break;
+            case 'output':
+                target().push({ type: 'output', start, end, path: tag.path, filters: tag.filters });
+                break;
+            case 'if': {
+                const node: IfNode = { type: 'if', branches: [{ condition: tag.condition, body: [] }] };
+                target().push(node);
+                stack.push({ tag, start: offset, node, target: node.branches[0].body });
+                break;
+            }
+            case 'each': {
+                const node: EachNode = { type: 'each', path: tag.path, alias: tag.alias, body: [], otherwise: [] };
+                target().push(node);
+                stack.push({ tag, start: offset, node, target: node.body });
+                break;
+            }
+            case 'elseif':
+            case 'else':
+                if (frame?.node.type === 'if' && !frame.node.branches.some(branch => !branch.condition)) {
+                    const branch = { condition: tag.kind === 'elseif' ? tag.condition : undefined, body: [] };
+                    frame.node.branches.push(branch);
+                    frame.target = branch.body;
+                } else if (frame?.node.type === 'each' && tag.kind === 'else' && frame.target === frame.node.body) {
+                    frame.target = frame.node.otherwise;
+                } else {
+                    fail('Unexpected else');
+                }
+                break;
+            case 'end':
+                if (!frame) {
+                    fail(`Unexpected ${match[0]} with no open block`);
+                } else if (frame.tag.closer !== tag.closer) {
+                    fail(`${match[0]} closes a block opened with ${frame.tag.closer.replace(/^\/|^end/, '')}`);
+                }
+                stack.pop();
+                break;
+        }
+    }
+
+    if (stack.length) {
+        const open = stack[stack.length - 1];
+        throw new TemplateSyntaxError(`Block is never closed; add ${open.tag.closer.startsWith('/') ? `{{${open.tag.closer}}}` : `{% ${open.tag.closer} %}`}`, open.start, lineAt(source, open.start));
+    }
+    if (position < source.length) {
+        nodes.push({ type: 'text', start: position, end: source.length });
+    }
+    return { source, nodes };
+}
+
+export type VariableKind = 'text' | 'flag' | 'list';
+
+export interface TemplateVariable {
+    name: string;
+    kind: VariableKind;
+    // Properties used on the value, or on each item of a list
+    fields: string[];
+}
+
+// Values the template reads, in order of first use. A variable that is only
+// tested is a flag; one that is looped over is a list.
+export function templateVariables(template: ParsedTemplate): TemplateVariable[] {
+    const variables = new Map<string, TemplateVariable>();
+    const rank: Record<VariableKind, number> = { flag: 0, text: 1, list: 2 };
+
+    const use = (path: string[], kind: VariableKind, loops: Array<{ alias?: string; list: TemplateVariable }>) => {
+        const [first, field] = path;
+        const loop = [...loops].reverse().find(open => open.alias ? open.alias === first : first === 'this' || !LOOP_NAMES.includes(first));
+        if (loop) {
+            // A field of the current item, e.g. `{{item.name}}` or a bare `{{name}}` in `{{#each}}`
+            const name = loop.alias || first === 'this' ? field : first;
+            if (name && !loop.list.fields.includes(name)) {
+                loop.list.fields.push(name);
+            }
+            return undefined;
+        }
+        if (LOOP_NAMES.includes(first)) {
+            return undefined;
+        }
+        const variable = variables.get(first) || { name: first, kind, fields: [] };
+        variables.set(first, variable);
+        if (rank[kind] > rank[variable.kind]) {
+            variable.kind = kind;
+        }
+        if (field && !variable.fields.includes(field)) {
+            variable.fields.push(field);
+        }
+        return variable;
+    };
+
+    const visit = (nodes: TemplateNode[], loops: Array<{ alias?: string; list: TemplateVariable }>) => {
+        for (const node of nodes) {
+            if (node.type === 'output') {
+                use(node.path, 'text', loops);
+            } else if (node.type === 'if') {
+                for (const branch of node.branches) {
+                    if (branch.condition) {
+                        use(branch.condition.path, 'flag', loops);
+                    }
+                    visit(branch.body, loops);
+                }
+            } else if (node.type === 'each') {
+                const list = use(node.path, 'list', loops) || { name: node.path.join('.'), kind: 'list', fields: [] };
+                visit(node.body, [...loops, { alias: node.alias, list }]);
+                visit(node.otherwise, loops);
+            }
+        }
+    };
+
+    visit(template.nodes, []);
+    return [...variables.values()];
+}
+
+// Values to start a fixture from: empty text, false flags and one list item
+export function fixtureSkeleton(variables: TemplateVariable[]): Record<string, unknown> {
+    const fields = (names: string[]) => Object.fromEntries(names.map(name => [name, '']));
+    return Object.fromEntries(variables.map(variable => [
+        variable.name,
+        variable.kind === 'flag' ? false
+            : variable.kind === 'list' ? [variable.fields.length ? fields(variable.fields) : '']
+            : variable.fields.length ? fields(variable.fields) : ''
+    ]));
+}
+
+// Sidecar fixtures next to the template, e.g. `support.prompt.fixture.yaml`
+export function fixtureFileNames(fileName: string): string[] {
+    return ['json', 'yaml', 'yml'].map(extension => `${fileName}.fixture.${extension}`);
+}
+
+export function parseFixture(text: string, fileName: string): Record<string, unknown> {
+    const values = /\.ya?ml$/i.test(fileName) ? parseYaml(text) : JSON.parse(text);
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        throw new Error(`${fileName} must contain a map of variable names to values`);
+    }
+    return values as Record<string, unknown>;
+}
+
+export interface RenderedSegment {
+    // Range in the rendered text
+    start: number;
+    end: number;
+    // Range in the template: the copied text for static segments, the tag for values
+    source: { start: number; end: number };
+    static: boolean;
+}
+
+export interface RenderResult {
+    text: string;
+    segments: RenderedSegment[];
+    // Values that were not supplied, as written in the template
+    missing: string[];
+}
+
+export interface RenderOptions {
+    // Keep the `{{tag}}` of a missing value (default) or render nothing
+    missing?: 'keep' | 'empty';
+}
+
+interface Scope {
+    names: Record<string, unknown>;
+    // The loop item; a bare name is looked up on it first, as in Handlebars
+    item?: unknown;
+}
+
+function stringify(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (Array.isArray(value)) {
+        return value.map(stringify).join(', ');
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function truthy(value: unknown): boolean {
+    return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function lookup(path: string[], scopes: Scope[]): unknown {
+    const [first, ...rest] = path;
+    let value: unknown;
+    for (let index = scopes.length - 1; index >= 0; index--) {
+        const scope = scopes[index];
+        if (first in scope.names) {
+            value = scope.names[first];
+            break;
+        }
+        if (isRecord(scope.item) && first in scope.item) {
+            value = scope.item[first];
+            break;
+        }
+    }
+    for (const key of rest) {
+        value = isRecord(value) || Array.isArray(value) ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value;
+}
+
+export function renderTemplate(template: ParsedTemplate, values: Record<string, unknown>, options: RenderOptions = {}): RenderResult {
+    const { source } = template;
+    const segments: RenderedSegment[] = [];
+    const missing: string[] = [];
+    let text = '';
+
+    const emit = (output: string, start: number, end: number, isStatic: boolean) => {
+        if (output) {
+            segments.push({ start: text.length, end: text.length + output.length, source: { start, end }, static: isStatic });
+            text += output;
+        }
+    };
+    const markMissing = (path: string[]) => {
+        if (!missing.includes(path.join('.'))) {
+            missing.push(path.join('.'));
+        }
+    };
+
+    const render = (nodes: TemplateNode[], scopes: Scope[]) => {
+        for (const node of nodes) {
+            if (node.type === 'text') {
+                emit(source.slice(node.start, node.end), node.start, node.end, true);
+            } else if (node.type === 'output') {
+                const value = node.filters.reduce((current, filter) => FILTERS[filter.name](current, filter.args), lookup(node.path, scopes));
+                if (value === undefined) {
+                    markMissing(node.path);
+                    emit(options.missing === 'empty' ? '' : source.slice(node.start, node.end), node.start, node.end, false);
+                } else {
+                    emit(stringify(value), node.start, node.end, false);
+                }
+            } else if (node.type === 'if') {
+                const branch = node.branches.find(candidate => !candidate.condition || truthy(lookup(candidate.condition.path, scopes)) !== candidate.condition.negate);
+                render(branch?.body || [], scopes);
+            } else {
+                const list = lookup(node.path, scopes);
+                if (list === undefined) {
+                    markMissing(node.path);
+                }
+                const items = Array.isArray(list) ? list : [];
+                items.forEach((item, index) => {
+                    const position = { index: index + 1, index0: index, first: index === 0, last: index === items.length - 1, length: items.length };
+                    const names: Record<string, unknown> = { this: item, '@index': index, '@first': position.first, '@last': position.last, loop: position };
+                    if (node.alias) {
+                        names[node.alias] = item;
+                    }
+                    render(node.body, [...scopes, { names, item: node.alias ? undefined : item }]);
+                });
+                if (!items.length) {
+                    render(node.otherwise, scopes);
+                }
+            }
+        }
+    };
+
+    render(template.nodes, [{ names: { ...values, this: values } }]);
+    return { text, segments, missing };
+}
+
+export interface TemplateMapping {
+    template: string;
+    // Changes written into the template's own text
+    applied: number;
+    // Changes to values, loop output or conflicting loop repeats, left out
+    skipped: Array<{ removed: string; added: string }>;
+}
+
+interface TemplateEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+// Rendered range [start, end) replaced by `added`, with the text both sides
+// share trimmed off so punctuation next to a value does not touch the value
+function trimHunk(rendered: string, start: number, end: number, added: string): { start: number; end: number; added: string } {
+    let prefix = 0;
+    while (start + prefix < end && prefix < added.length && rendered[start + prefix] === added[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (end - suffix > start + prefix && added.length - suffix > prefix && rendered[end - suffix - 1] === added[added.length - suffix - 1]) {
+        suffix++;
+    }
+    return { start: start + prefix, end: end - suffix, added: added.slice(prefix, added.length - suffix) };
+}
+
+// Carry changes between the rendered prompt and its optimized version over to
+// the template. Changes inside static text are applied once, even when a loop
+// repeated that text; changes to supplied values cannot be placed and are skipped.
+export function mapToTemplate(template: ParsedTemplate, rendered: RenderResult, optimized: string): TemplateMapping {
+    const hunks: Array<{ start: number; end: number; added: string }> = [];
+    let position = 0;
+    let open: { start: number; end: number; added: string } | undefined;
+    for (const segment of diffWords(rendered.text, optimized)) {
+        if (segment.type === 'equal') {
+            if (open) {
+                hunks.push(open);
+                open = undefined;
+            }
+            position += segment.text.length;
+            continue;
+        }
+        open = open || { start: position, end: position, added: '' };
+        if (segment.type === 'removed') {
+            position += segment.text.length;
+            open.end = position;
+        } else {
+            open.added += segment.text;
+        }
+    }
+    if (open) {
+        hunks.push(open);
+    }
+
+    const edits: TemplateEdit[] = [];
+    const skipped: TemplateMapping['skipped'] = [];
+    for (const raw of hunks) {
+        const hunk = trimHunk(rendered.text, raw.start, raw.end, raw.added);
+        if (hunk.start === hunk.end && !hunk.added) {
+            continue;
+        }
+        const skip = () => skipped.push({ removed: rendered.text.slice(raw.start, raw.end), added: raw.added });
+        const segment = rendered.segments.find(candidate => candidate.static && candidate.start <= hunk.start && hunk.end <= candidate.end);
+        let edit: TemplateEdit | undefined;
+        if (segment) {
+            const offset = segment.source.start - segment.start;
+            edit = { start: hunk.start + offset, end: hunk.end + offset, text: hunk.added };
+        } else if (hunk.start === hunk.end && (hunk.start === 0 || hunk.start === rendered.text.length)) {
+            const at = hunk.start === 0 ? 0 : template.source.length;
+            edit = { start: at, end: at, text: hunk.added };
+        }
+        if (!edit) {
+            skip();
+            continue;
+        }
+        const clash = edits.find(other => other.start < edit!.end && edit!.start < other.end || other.start === edit!.start && other.end === edit!.end);
+        if (!clash) {
+            edits.push(edit);
+        } else if (clash.start !== edit.start || clash.end !== edit.end || clash.text !== edit.text) {
+            // A loop repeat changed differently from the first one
+            skip();
+        }
+    }
+
+    let result = template.source;
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+        result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
+    return { template: result, applied: edits.length, skipped };
+}
@@ -0,0 +1,330 @@
+import * as vscode from 'vscode';
+import { getProviderSettings } from './config';
+import { showPromptDiff } from './diffView';
+import { applyProposal } from './editProposals';
+import {
+    fixtureFileNames,
+    fixtureSkeleton,
+    mapToTemplate,
+    ParsedTemplate,
+    parseFixture,
+    parseTemplate,
+    renderTemplate,
+    RenderResult,
+    TemplateVariable,
+    templateVariables
+} from './promptTemplate';
+import { countTokens } from './tokens';
+import { createNonce, escapeHtml } from './webviewHtml';
+import { stringifyYaml } from './yaml';
+
+// Runs the rendered prompt through the normal optimization path
+export type RenderedOptimizeHandler = (prompt: string) => Promise<string | undefined>;
+
+interface TemplateTarget {
+    uri: vscode.Uri;
+    range: vscode.Range;
+}
+
+// Form fields arrive as text or, for flags, as booleans
+type FormValues = Record<string, string | boolean>;
+
+type PanelMessage =
+    | { command: 'values'; values: FormValues }
+    | { command: 'copy' | 'optimize' | 'loadFixture' | 'saveFixture' };
+
+// Lists of plain items are edited one per line; anything with fields as JSON
+const editsAsLines = (variable: TemplateVariable) => variable.kind === 'list' && !variable.fields.length;
+const editsAsJson = (variable: TemplateVariable) => variable.fields.length > 0;
+
+function fieldText(variable: TemplateVariable, value: unknown): string {
+    if (editsAsLines(variable)) {
+        return Array.isArray(value) ? value.map(String).join('\n') : '';
+    }
+    if (editsAsJson(variable)) {
+        return value === undefined ? '' : JSON.stringify(value, null, 2);
+    }
+    return value === undefined || value === null ? '' : String(value);
+}
+
+// Empty text fields count as not supplied, so the preview shows the missing tag
+function valuesFromForm(variables: TemplateVariable[], form: FormValues): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const variable of variables) {
+        const raw = form[variable.name];
+        if (typeof raw === 'boolean') {
+            values[variable.name] = raw;
+        } else if (editsAsLines(variable)) {
+            values[variable.name] = (raw || '').split('\n').map(line => line.trim()).filter(Boolean);
+        } else if (editsAsJson(variable)) {
+            try {
+                values[variable.name] = JSON.parse(raw || 'null') ?? undefined;
+            } catch {
+                throw new Error(`${variable.name} is not valid JSON`);
+            }
+        } else if (raw) {
+            values[variable.name] = raw;
+        }
+    }
+    return values;
+}
+
+function renderField(variable: TemplateVariable, value: unknown): string {
+    const name = escapeHtml(variable.name);
+    if (variable.kind === 'flag') {
+        return `<label class="flag"><input type="checkbox" data-name="${name}"${value ? ' checked' : ''}> ${name}</label>`;
+    }
+    const hint = editsAsLines(variable) ? 'one item per line' : editsAsJson(variable) ? 'JSON' : '';
+    const example = editsAsJson(variable) ? ` placeholder="${escapeHtml(JSON.stringify(fixtureSkeleton([variable])[variable.name]))}"` : '';
+    return `<label for="field-${name}">${name}${hint ? ` <span class="meta">(${hint})</span>` : ''}</label>
+    <textarea id="field-${name}" data-name="${name}" rows="${editsAsJson(variable) || editsAsLines(variable) ? 4 : 2}"${example}>${escapeHtml(fieldText(variable, value))}</textarea>`;
+}
+
+function renderHtml(webview: vscode.Webview, variables: TemplateVariable[], values: Record<string, unknown>, fixture: string | undefined): string {
+    const nonce = createNonce();
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .layout { display: grid; grid-template-columns: minmax(200px, 320px) 1fr; gap: 16px; }
+    label { display: block; margin-top: 8px; }
+    .meta { opacity: 0.8; font-size: 0.9em; }
+    .error { color: var(--vscode-errorForeground); }
+    pre { white-space: pre-wrap; font-family: var(--vscode-editor-font-family); border: 1px solid var(--vscode-panel-border); padding: 8px; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+    .secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    textarea { width: 100%; box-sizing: border-box; font-family: var(--vscode-editor-font-family); color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+</style>
+</head>
+<body>
+<h1>Render Prompt</h1>
+<div class="layout">
+<form id="values">
+    <h2>Values</h2>
+    <p class="meta">${fixture ? `From ${escapeHtml(fixture)}` : 'No fixture loaded'}</p>
+    <p>
+        <button type="button" class="secondary" data-command="loadFixture">Load Fixture...</button>
+        <button type="button" class="secondary" data-command="saveFixture">Save Fixture</button>
+    </p>
+    ${variables.length ? variables.map(variable => renderField(variable, values[variable.name])).join('\n    ') : '<p class="meta">The prompt has no variables.</p>'}
+</form>
+<main>
+    <h2>Rendered prompt</h2>
+    <p class="meta" id="meta"></p>
+    <p class="error" id="error"></p>
+    <div class="actions">
+        <button data-command="copy">Copy</button>
+        <button data-command="optimize">Optimize</button>
+    </div>
+    <pre id="rendered"></pre>
+</main>
+</div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const fields = Array.from(document.querySelectorAll('[data-name]'));
+    let timer;
+    const send = () => {
+        const values = {};
+        fields.forEach(field => values[field.dataset.name] = field.type === 'checkbox' ? field.checked : field.value);
+        vscode.postMessage({ command: 'values', values });
+    };
+    fields.forEach(field => field.addEventListener('input', () => {
+        clearTimeout(timer);
+        timer = setTimeout(send, 250);
+    }));
+    document.querySelectorAll('button[data-command]').forEach(button => {
+        button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command }));
+    });
+    window.addEventListener('message', event => {
+        const message = event.data;
+        document.getElementById('error').textContent = message.error || '';
+        if (message.command === 'rendered') {
+            document.getElementById('rendered').textContent = message.text;
+            document.getElementById('meta').textContent = message.meta;
+        }
+    });
+    send();
+</script>
+</body>
+</html>`;
+}
+
+function describeRender(rendered: RenderResult, model: string): string {
+    const missing = rendered.missing.length ? ` · missing ${rendered.missing.join(', ')}` : '';
+    return `${rendered.text.length} chars · ${countTokens(rendered.text, model)} tokens${model ? ` · ${model}` : ''}${missing}`;
+}
+
+// First sidecar fixture that exists next to a saved template
+async function findFixture(uri: vscode.Uri): Promise<vscode.Uri | undefined> {
+    if (uri.scheme !== 'file') {
+        return undefined;
+    }
+    for (const name of fixtureFileNames(uri.fsPath)) {
+        const candidate = vscode.Uri.file(name);
+        try {
+            await vscode.workspace.fs.stat(candidate);
+            return candidate;
+        } catch {
+            // Try the next extension
+        }
+    }
+    return undefined;
+}
+
+async function readFixture(uri: vscode.Uri): Promise<Record<string, unknown>> {
+    return parseFixture(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'), uri.path);
+}
+
+// Render the template in the editor (or the selection) with values from its
+// fixture or the form, and optimize the result back into the template
+export async function renderPrompt(editor: vscode.TextEditor, optimize: RenderedOptimizeHandler): Promise<void> {
+    const document = editor.document;
+    const range = editor.selection.isEmpty
+        ? new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length))
+        : new vscode.Range(editor.selection.start, editor.selection.end);
+    let target: TemplateTarget = { uri: document.uri, range };
+    let template: ParsedTemplate = parseTemplate(document.getText(range));
+    let variables = templateVariables(template);
+
+    let fixture = await findFixture(document.uri);
+    let values: Record<string, unknown> = fixture ? await readFixture(fixture) : {};
+    let rendered = renderTemplate(template, values);
+    const model = getProviderSettings().config.model;
+
+    const panel = vscode.window.createWebviewPanel('promptious.renderPrompt', 'Render Prompt', vscode.ViewColumn.Beside, {
+        enableScripts: true,
+        retainContextWhenHidden: true
+    });
+    const show = () => {
+        panel.webview.html = renderHtml(panel.webview, variables, values, fixture && vscode.workspace.asRelativePath(fixture));
+    };
+    show();
+
+    const update = (form: FormValues) => {
+        try {
+            // Fixture values the template does not use are kept for saving
+            const others = Object.entries(values).filter(([name]) => !variables.some(variable => variable.name === name));
+            values = { ...Object.fromEntries(others), ...valuesFromForm(variables, form) };
+            rendered = renderTemplate(template, values);
+            panel.webview.postMessage({ command: 'rendered', text: rendered.text, meta: describeRender(rendered, model) });
+        } catch (error) {
+            panel.webview.postMessage({ command: 'error', error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    const loadFixture = async () => {
+        const selected = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Prompt fixtures': ['json', 'yaml', 'yml'] },
+            openLabel: 'Load Fixture'
+        });
+        if (selected?.[0]) {
+            fixture = selected[0];
+            values = await readFixture(fixture);
+            rendered = renderTemplate(template, values);
+            show();
+        }
+    };
+
+    const saveFixture = async () => {
+        const defaultUri = fixture || (document.uri.scheme === 'file' ? vscode.Uri.file(fixtureFileNames(document.uri.fsPath)[0]) : undefined);
+        const uri = fixture || await vscode.window.showSaveDialog({ defaultUri, filters: { 'Prompt fixtures': ['json', 'yaml', 'yml'] } });
+        if (!uri) {
+            return;
+        }
+        const saved = { ...fixtureSkeleton(variables), ...values };
+        const text = /\.ya?ml$/i.test(uri.path) ? stringifyYaml(saved) : JSON.stringify(saved, null, 2) + '\n';
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(text, 'utf8'));
+        fixture = uri;
+        show();
+        vscode.window.showInformationMessage(`Fixture saved to ${vscode.workspace.asRelativePath(uri)}.`);
+    };
+
+    // Changes the model made to the template's own text are applied to the
+    // editor; changes to supplied values stay in the rendered prompt only
+    const optimizeRendered = async () => {
+        const source = template.source;
+        const current = rendered;
+        const optimized = await optimize(current.text);
+        if (!optimized) {
+            return;
+        }
+        const mapping = mapToTemplate(template, current, optimized);
+        const skipped = mapping.skipped.length
+            ? ` ${mapping.skipped.length} change${mapping.skipped.length === 1 ? '' : 's'} to supplied values or loop output cannot be carried over.`
+            : '';
+        if (!mapping.applied) {
+            vscode.window.showInformationMessage(`No changes to the template's own text.${skipped}`);
+            return;
+        }
+
+        let action: string | undefined;
+        do {
+            action = await vscode.window.showInformationMessage(
+                `Apply ${mapping.applied} change${mapping.applied === 1 ? '' : 's'} to the template?${skipped}`,
+                'Apply', 'Show Diff'
+            );
+            if (action === 'Show Diff') {
+                await showPromptDiff(source, mapping.template, 'Template ↔ Optimized Template');
+            }
+        } while (action === 'Show Diff');
+        if (action !== 'Apply') {
+            return;
+        }
+
+        const applied = await applyProposal({ id: 0, uri: target.uri, range: target.range, original: source, optimized: mapping.template }, 'replace');
+        if (applied) {
+            const start = document.offsetAt(target.range.start);
+            target = { uri: target.uri, range: new vscode.Range(target.range.start, document.positionAt(start + mapping.template.length)) };
+            template = parseTemplate(mapping.template);
+            variables = templateVariables(template);
+            rendered = renderTemplate(template, values);
+            show();
+        }
+    };
+
+    panel.webview.onDidReceiveMessage(async (message: PanelMessage) => {
+        try {
+            switch (message.command) {
+                case 'values':
+                    update(message.values);
+                    break;
+                case 'copy':
+                    await vscode.env.clipboard.writeText(rendered.text);
+                    vscode.window.showInformationMessage('Rendered prompt copied to clipboard.');
+                    break;
+                case 'optimize':
+                    await optimizeRendered();
+                    break;
+                case 'loadFixture':
+                    await loadFixture();
+                    break;
+                case 'saveFixture':
+                    await saveFixture();
+                    break;
+            }
+        } catch (error) {
+            console.error('Error in render prompt panel:', error);
+            vscode.window.showErrorMessage('Error rendering prompt: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+}
+
+export function registerPromptTemplateView(context: vscode.ExtensionContext, optimize: RenderedOptimizeHandler): void {
+    context.subscriptions.push(vscode.commands.registerCommand('promptious.renderPrompt', async () => {
+        try {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showWarningMessage('No active editor found.');
+                return;
+            }
+            await renderPrompt(editor, optimize);
+        } catch (error) {
+            console.error('Error in renderPrompt command:', error);
+            vscode.window.showErrorMessage('Error rendering prompt: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    }));
+}
@@ -0,0 +1,96 @@
+import { ProviderError } from './errors';
+import { postJson, readJson, readSseEvents } from './http';
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderConfig, TokenHandler } from './types';
+
+const LABEL = 'Anthropic';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export function createAnthropicProvider(config: ProviderConfig): LLMProvider {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+    const send = async (request: CompletionRequest, onToken?: TokenHandler): Promise<CompletionResult> => {
+        // The Messages API takes the system prompt separately from the turns
+        const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+        const messages = request.messages.filter(m => m.role !== 'system');
+
+        const response = await postJson(LABEL, `${baseUrl}/v1/messages`, {
+            'x-api-key': config.apiKey || '',
+            'anthropic-version': ANTHROPIC_VERSION
+        }, {
+            model: config.model,
+            max_tokens: request.maxTokens,
+            temperature: request.temperature,
+            ...(system ? { system } : {}),
+            messages,
+            ...(onToken ? { stream: true } : {})
+        }, request.signal, config.http);
+
+        let text = '';
+        let model = config.model;
+        let inputTokens = 0;
+        let outputTokens = 0;
+        let stopReason: string | undefined;
+
+        if (!onToken) {
+            const data = await readJson(LABEL, response);
+            const blocks = Array.isArray(data.content) ? data.content : [];
+            text = blocks.filter((b: any) => b.type === 'text').map((b: any) => b.text).join('');
+            model = data.model || model;
+            inputTokens = data.usage?.input_tokens ?? 0;
+            outputTokens = data.usage?.output_tokens ?? 0;
+            stopReason = data.stop_reason;
+        } else {
+            for await (const event of readSseEvents(LABEL, response)) {
+                let payload: any;
+                try {
+                    payload = JSON.parse(event.data);
+                } catch {
+                    continue;
+                }
+                switch (payload.type) {
+                    case 'message_start':
+                        model = payload.message?.model || model;
+                        inputTokens = payload.message?.usage?.input_tokens ?? inputTokens;
+                        break;
+                    case 'content_block_delta':
+                        if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+                            text += payload.delta.text;
+                            onToken(payload.delta.text);
+                        }
+                        break;
+                    case 'message_delta':
+                        outputTokens = payload.usage?.output_tokens ?? outputTokens;
+                        stopReason = payload.delta?.stop_reason || stopReason;
+                        break;
+                    case 'error':
+                        throw new ProviderError(`${LABEL} API error: ${payload.error?.message || 'stream failed'}`, 'server', LABEL);
+                }
+            }
+        }
+
+        if (!text.trim()) {
+            const reason = stopReason === 'max_tokens'
+                ? 'ran out of tokens before writing a response. Use a model with a larger output limit.'
+                : 'returned an empty response.';
+            throw new ProviderError(`${LABEL} ${reason}`, 'invalidResponse', LABEL, response.status);
+        }
+
+        return {
+            text: text.trim(),
+            model,
+            usage: inputTokens || outputTokens ? {
+                promptTokens: inputTokens,
+                completionTokens: outputTokens,
+                totalTokens: inputTokens + outputTokens
+            } : undefined
+        };
+    };
+
+    return {
+        id: 'anthropic',
+        label: LABEL,
+        model: config.model,
+        complete: request => send(request),
+        stream: (request, onToken) => send(request, onToken)
+    };
+}
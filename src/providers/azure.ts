@@ -0,0 +1,37 @@
+import { ProviderError } from './errors';
+import { postChatCompletion, responseFormatBody } from './openai';
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderConfig, TokenHandler } from './types';
+
+const LABEL = 'Azure OpenAI';
+
+export function createAzureOpenAIProvider(config: ProviderConfig): LLMProvider {
+    const endpoint = config.baseUrl.replace(/\/+$/, '');
+    const deployment = config.deployment || config.model;
+    const apiVersion = config.apiVersion || '2024-02-01';
+
+    const send = (request: CompletionRequest, onToken?: TokenHandler): Promise<CompletionResult> => {
+        if (!endpoint || !deployment) {
+            return Promise.reject(new ProviderError(
+                'Azure OpenAI endpoint and deployment must be configured.',
+                'badRequest',
+                LABEL
+            ));
+        }
+        const url = `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`;
+        // Azure routes by deployment, so the model is not part of the body
+        return postChatCompletion(LABEL, url, { 'api-key': config.apiKey || '' }, {
+            messages: request.messages,
+            max_tokens: request.maxTokens,
+            temperature: request.temperature,
+            ...responseFormatBody(request)
+        }, request.signal, onToken, config.http);
+    };
+
+    return {
+        id: 'azure',
+        label: LABEL,
+        model: deployment,
+        complete: request => send(request),
+        stream: (request, onToken) => send(request, onToken)
+    };
+}
@@ -0,0 +1,72 @@
+export type ProviderErrorKind = 'auth' | 'rateLimit' | 'badRequest' | 'notFound' | 'server' | 'network' | 'timeout' | 'invalidResponse' | 'cancelled';
+
+// Shared error type so callers never need to know which backend answered
+export class ProviderError extends Error {
+    constructor(
+        message: string,
+        public readonly kind: ProviderErrorKind,
+        public readonly provider: string,
+        public readonly status?: number,
+        // Server-requested wait before retrying, for rate limits
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+}
+
+// Map an HTTP failure from any backend onto a ProviderError
+export function errorFromStatus(provider: string, status: number, detail?: string, retryAfterMs?: number): ProviderError {
+    if (status === 401 || status === 403) {
+        return new ProviderError(`Invalid API key. Please check your ${provider} API key.`, 'auth', provider, status);
+    }
+    if (status === 429) {
+        const wait = retryAfterMs !== undefined ? `Try again in ${Math.ceil(retryAfterMs / 1000)}s.` : 'Please try again later.';
+        return new ProviderError(`Rate limit exceeded. ${wait}${detail ? ` (${detail})` : ''}`, 'rateLimit', provider, status, retryAfterMs);
+    }
+    if (status === 404) {
+        return new ProviderError(`${provider} endpoint or model not found${detail ? `: ${detail}` : '.'}`, 'notFound', provider, status);
+    }
+    if (status === 408 || status === 504) {
+        return new ProviderError(`${provider} timed out (${status}). Try again, or increase promptious.http.timeout.`, 'timeout', provider, status);
+    }
+    if (status >= 500) {
+        return new ProviderError(`${provider} server error (${status})${detail ? `: ${detail}` : '.'}`, 'server', provider, status);
+    }
+    return new ProviderError(`${provider} API error: ${detail || `HTTP ${status}`}`, 'badRequest', provider, status);
+}
+
+const TLS_ERROR_CODES = new Set([
+    'SELF_SIGNED_CERT_IN_CHAIN',
+    'DEPTH_ZERO_SELF_SIGNED_CERT',
+    'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+    'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+    'CERT_HAS_EXPIRED',
+    'ERR_TLS_CERT_ALTNAME_INVALID'
+]);
+
+// Suggest the setting most likely to fix a connection failure
+function describeNetworkError(code: string | undefined, message: string): string {
+    if (code && TLS_ERROR_CODES.has(code)) {
+        return `${message}. Add your certificate authority to promptious.http.caCertificates, or disable http.proxyStrictSSL.`;
+    }
+    if (code === 'ECONNREFUSED') {
+        return `${message}. Check that the server is running and the base URL is correct.`;
+    }
+    if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+        return `${message}. Check the base URL, your network connection or the http.proxy setting.`;
+    }
+    return message;
+}
+
+export function toProviderError(provider: string, error: unknown): ProviderError {
+    if (error instanceof ProviderError) {
+        return error;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+        return new ProviderError('Request cancelled.', 'cancelled', provider);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    const code = (error as { code?: string } | undefined)?.code;
+    return new ProviderError(`Cannot reach ${provider}: ${describeNetworkError(code, message)}`, 'network', provider);
+}
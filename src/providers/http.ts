@@ -0,0 +1,338 @@
+import * as http from 'http';
+import * as https from 'https';
+import { isIP } from 'net';
+import { Duplex, Readable } from 'stream';
+import * as tls from 'tls';
+import { errorFromStatus, ProviderError, toProviderError } from './errors';
+
+export interface HttpOptions {
+    // Abort an attempt when no response or no data arrives for this long
+    timeoutMs?: number;
+    maxRetries?: number;
+    // http(s)://[user:pass@]host:port
+    proxy?: string;
+    proxyAuthorization?: string;
+    // Host suffixes that bypass the proxy
+    noProxy?: string[];
+    // Verify TLS certificates; VS Code's `http.proxyStrictSSL`
+    strictSSL?: boolean;
+    // PEM certificates trusted in addition to the system roots
+    ca?: string[];
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const DEFAULT_MAX_RETRIES = 2;
+
+// Longer Retry-After waits fail straight away instead of blocking the UI
+const MAX_RETRY_DELAY_MS = 60_000;
+const BASE_RETRY_DELAY_MS = 500;
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ECONNABORTED']);
+
+function abortError(): Error {
+    return Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' });
+}
+
+// `retry-after-ms` (OpenAI), then `Retry-After` in seconds or as an HTTP date
+export function parseRetryAfter(headers: Headers, now = Date.now()): number | undefined {
+    const milliseconds = Number(headers.get('retry-after-ms'));
+    if (headers.has('retry-after-ms') && Number.isFinite(milliseconds)) {
+        return Math.max(0, milliseconds);
+    }
+    const value = headers.get('retry-after');
+    if (!value) {
+        return undefined;
+    }
+    if (/^\d+(\.\d+)?$/.test(value.trim())) {
+        return Number(value) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Exponential backoff with jitter: ~0.5s, 1s, 2s, ... capped at 30s
+export function backoffDelay(attempt: number): number {
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, 30_000);
+    return delay / 2 + Math.random() * delay / 2;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export function shouldBypassProxy(url: URL, noProxy: string[] = []): boolean {
+    const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    return noProxy.some(entry => {
+        const suffix = entry.trim().toLowerCase().replace(/^\*?\.?/, '');
+        return entry.trim() === '*' || !!suffix && (host === suffix || host.endsWith(`.${suffix}`));
+    });
+}
+
+const defaultPort = (url: URL) => Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+const hostOf = (url: URL) => url.hostname.replace(/^\[|\]$/g, '');
+
+function proxyAuthorization(proxy: URL, options: HttpOptions): string | undefined {
+    if (options.proxyAuthorization) {
+        return options.proxyAuthorization;
+    }
+    return proxy.username
+        ? `Basic ${Buffer.from(`${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`).toString('base64')}`
+        : undefined;
+}
+
+// HTTPS through a proxy: CONNECT, then TLS to the target over the tunnel
+function openTunnel(
+    proxy: URL,
+    target: URL,
+    tlsOptions: tls.ConnectionOptions,
+    authorization: string | undefined,
+    callback: (error: Error | null, socket?: Duplex) => void
+): void {
+    const connect = (proxy.protocol === 'https:' ? https : http).request({
+        host: hostOf(proxy),
+        port: defaultPort(proxy),
+        method: 'CONNECT',
+        path: `${hostOf(target)}:${defaultPort(target)}`,
+        headers: { Host: `${hostOf(target)}:${defaultPort(target)}`, ...(authorization ? { 'Proxy-Authorization': authorization } : {}) },
+        agent: false
+    });
+    connect.once('connect', (response, socket) => {
+        if (response.statusCode !== 200) {
+            socket.destroy();
+            callback(new Error(`Proxy ${proxy.host} refused the connection (HTTP ${response.statusCode}). Check http.proxy and http.proxyAuthorization`));
+            return;
+        }
+        // SNI only carries host names
+        callback(null, tls.connect({ ...tlsOptions, socket, servername: isIP(hostOf(target)) ? undefined : hostOf(target) }));
+    });
+    connect.once('error', error => callback(error));
+    connect.end();
+}
+
+function toHeaders(raw: http.IncomingHttpHeaders): Headers {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(raw)) {
+        if (value !== undefined) {
+            headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+        }
+    }
+    return headers;
+}
+
+// One attempt over Node's http/https so proxies and custom CAs work everywhere.
+// Resolves once headers arrive; the idle timeout keeps running while the body streams.
+function sendOnce(label: string, url: URL, headers: Record<string, string>, body: string, options: HttpOptions, signal?: AbortSignal): Promise<Response> {
+    return new Promise((resolve, reject) => {
+        const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        const proxy = options.proxy && !shouldBypassProxy(url, options.noProxy) ? new URL(options.proxy) : undefined;
+        const authorization = proxy && proxyAuthorization(proxy, options);
+        const tlsOptions: tls.ConnectionOptions = {
+            rejectUnauthorized: options.strictSSL !== false,
+            ...(options.ca?.length ? { ca: [...tls.rootCertificates, ...options.ca] } : {})
+        };
+        const requestHeaders = { ...headers, 'Content-Length': String(Buffer.byteLength(body)) };
+
+        let request: http.ClientRequest;
+        if (proxy && url.protocol === 'http:') {
+            // Plain HTTP goes to the proxy with an absolute URL
+            request = (proxy.protocol === 'https:' ? https : http).request({
+                ...tlsOptions,
+                host: hostOf(proxy),
+                port: defaultPort(proxy),
+                method: 'POST',
+                path: url.href,
+                headers: { ...requestHeaders, Host: url.host, ...(authorization ? { 'Proxy-Authorization': authorization } : {}) }
+            });
+        } else {
+            request = (url.protocol === 'https:' ? https : http).request({
+                ...tlsOptions,
+                host: hostOf(url),
+                port: defaultPort(url),
+                method: 'POST',
+                path: `${url.pathname}${url.search}`,
+                headers: requestHeaders,
+                // Without an agent Node uses createConnection for the socket
+                ...(proxy ? {
+                    createConnection: (_: unknown, callback: (error: Error | null, socket?: Duplex) => void) =>
+                        openTunnel(proxy, url, tlsOptions, authorization, callback)
+                } : {})
+            } as https.RequestOptions);
+        }
+
+        // Once headers are in, errors must reach the body stream the caller is reading
+        let incoming: http.IncomingMessage | undefined;
+        const fail = (error: Error) => (incoming || request).destroy(error);
+
+        let timer: NodeJS.Timeout | undefined;
+        const resetTimer = () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => fail(new ProviderError(
+                `${label} did not respond within ${Math.round(timeoutMs / 1000)}s. Try again, or increase promptious.http.timeout.`,
+                'timeout',
+                label
+            )), timeoutMs);
+        };
+        const onAbort = () => fail(abortError());
+        const cleanup = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        };
+
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+        resetTimer();
+
+        request.once('response', response => {
+            incoming = response;
+            resetTimer();
+            response.on('data', resetTimer);
+            response.once('close', cleanup);
+            const status = response.statusCode || 0;
+            const hasBody = status !== 204 && status !== 304;
+            resolve(new Response(hasBody ? Readable.toWeb(response) as ReadableStream : null, {
+                status,
+                statusText: response.statusMessage,
+                headers: toHeaders(response.headers)
+            }));
+        });
+        request.once('error', error => {
+            cleanup();
+            reject(error);
+        });
+        request.end(body);
+    });
+}
+
+// POST JSON to a provider endpoint, retrying transient failures, and turn every
+// failure into a ProviderError
+export async function postJson(
+    label: string,
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal?: AbortSignal,
+    options: HttpOptions = {}
+): Promise<Response> {
+    const target = new URL(url);
+    const payload = JSON.stringify(body);
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+        let response: Response;
+        try {
+            response = await sendOnce(label, target, { 'Content-Type': 'application/json', ...headers }, payload, options, signal);
+        } catch (error) {
+            const failure = toProviderError(label, error);
+            const code = (error as { code?: string }).code;
+            const transient = failure.kind === 'timeout' || failure.kind === 'network' && !!code && RETRYABLE_NETWORK_CODES.has(code);
+            if (transient && attempt < maxRetries) {
+                await sleep(backoffDelay(attempt), signal).catch(abort => {
+                    throw toProviderError(label, abort);
+                });
+                continue;
+            }
+            throw failure;
+        }
+
+        if (response.ok) {
+            return response;
+        }
+
+        const retryAfter = parseRetryAfter(response.headers);
+        if (RETRYABLE_STATUSES.has(response.status) && attempt < maxRetries && (retryAfter ?? 0) <= MAX_RETRY_DELAY_MS) {
+            await response.body?.cancel().catch(() => undefined);
+            await sleep(retryAfter ?? backoffDelay(attempt), signal).catch(abort => {
+                throw toProviderError(label, abort);
+            });
+            continue;
+        }
+
+        const errorData = await response.json().catch(() => ({})) as any;
+        // 529 is Anthropic's "overloaded" status
+        const status = response.status === 529 ? 503 : response.status;
+        throw errorFromStatus(label, status, errorData.error?.message || response.statusText, retryAfter);
+    }
+}
+
+export async function readJson(label: string, response: Response): Promise<any> {
+    const data = await response.json().catch(() => undefined);
+    if (!data || typeof data !== 'object') {
+        throw new ProviderError(`${label} returned an unexpected response.`, 'invalidResponse', label, response.status);
+    }
+    return data;
+}
+
+export interface SseEvent {
+    event?: string;
+    data: string;
+}
+
+// Minimal server-sent events reader for streamed completions
+export async function* readSseEvents(label: string, response: Response): AsyncGenerator<SseEvent> {
+    if (!response.body) {
+        throw new ProviderError(`${label} returned an empty stream.`, 'invalidResponse', label, response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event: string | undefined;
+    let data: string[] = [];
+
+    try {
+        while (true) {
+            const chunk = await reader.read().catch(error => {
+                throw toProviderError(label, error);
+            });
+            if (chunk.done) {
+                break;
+            }
+
+            buffer += decoder.decode(chunk.value, { stream: true });
+            const lines = buffer.split(/\r?\n/);
+            buffer = lines.pop() ?? '';
+
+            for (const line of lines) {
+                if (line === '') {
+                    // Blank line terminates an event
+                    if (data.length) {
+                        yield { event, data: data.join('\n') };
+                    }
+                    event = undefined;
+                    data = [];
+                } else if (line.startsWith('event:')) {
+                    event = line.slice(6).trim();
+                } else if (line.startsWith('data:')) {
+                    data.push(line.slice(5).replace(/^ /, ''));
+                }
+            }
+        }
+
+        if (buffer.startsWith('data:')) {
+            data.push(buffer.slice(5).replace(/^ /, ''));
+        }
+        if (data.length) {
+            yield { event, data: data.join('\n') };
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
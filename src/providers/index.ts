@@ -0,0 +1,63 @@
+import { createAnthropicProvider } from './anthropic';
+import { createAzureOpenAIProvider } from './azure';
+import { createOpenAICompatibleProvider } from './openai';
+import { LLMProvider, ProviderConfig, ProviderDefinition, ProviderId } from './types';
+
+export * from './types';
+export { ProviderError, ProviderErrorKind } from './errors';
+export { HttpOptions } from './http';
+
+export const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+    openai: {
+        id: 'openai',
+        label: 'OpenAI',
+        defaultBaseUrl: 'https://api.openai.com/v1',
+        models: ['gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo-preview', 'gpt-4o', 'gpt-4o-mini'],
+        requiresApiKey: true,
+        apiKeyEnvVar: 'OPENAI_API_KEY',
+        create: config => createOpenAICompatibleProvider('openai', 'OpenAI', config)
+    },
+    azure: {
+        id: 'azure',
+        label: 'Azure OpenAI',
+        defaultBaseUrl: '',
+        models: [],
+        requiresApiKey: true,
+        apiKeyEnvVar: 'AZURE_OPENAI_API_KEY',
+        create: config => createAzureOpenAIProvider(config)
+    },
+    anthropic: {
+        id: 'anthropic',
+        label: 'Anthropic',
+        defaultBaseUrl: 'https://api.anthropic.com',
+        models: ['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest', 'claude-3-opus-latest'],
+        requiresApiKey: true,
+        apiKeyEnvVar: 'ANTHROPIC_API_KEY',
+        create: config => createAnthropicProvider(config)
+    },
+    ollama: {
+        id: 'ollama',
+        label: 'Ollama',
+        defaultBaseUrl: 'http://localhost:11434/v1',
+        models: ['llama3.1', 'mistral', 'qwen2.5'],
+        requiresApiKey: false,
+        create: config => createOpenAICompatibleProvider('ollama', 'Ollama', config)
+    },
+    openaiCompatible: {
+        id: 'openaiCompatible',
+        label: 'OpenAI-compatible server',
+        defaultBaseUrl: 'http://localhost:1234/v1',
+        models: [],
+        requiresApiKey: false,
+        apiKeyEnvVar: 'OPENAI_COMPATIBLE_API_KEY',
+        create: config => createOpenAICompatibleProvider('openaiCompatible', 'OpenAI-compatible server', config)
+    }
+};
+
+export function isProviderId(value: string): value is ProviderId {
+    return Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+export function createProvider(id: ProviderId, config: ProviderConfig): LLMProvider {
+    return PROVIDERS[id].create(config);
+}
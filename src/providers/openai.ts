@@ -0,0 +1,116 @@
+import { ProviderError } from './errors';
+import { HttpOptions, postJson, readJson, readSseEvents } from './http';
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderConfig, ProviderId, TokenHandler, TokenUsage } from './types';
+
+// `response_format` with a JSON schema, understood by OpenAI, Azure OpenAI, Ollama and LM Studio
+export function responseFormatBody(request: CompletionRequest): Record<string, unknown> {
+    return request.responseFormat
+        ? { response_format: { type: 'json_schema', json_schema: { name: request.responseFormat.name, schema: request.responseFormat.schema, strict: true } } }
+        : {};
+}
+
+function parseUsage(usage: any): TokenUsage | undefined {
+    return usage ? {
+        promptTokens: usage.prompt_tokens ?? 0,
+        completionTokens: usage.completion_tokens ?? 0,
+        totalTokens: usage.total_tokens ?? 0
+    } : undefined;
+}
+
+// Explain why a choice came back without text
+function describeEmptyChoice(label: string, finishReason?: string): string {
+    if (finishReason === 'content_filter') {
+        return `${label} blocked the response with its content filter. Rephrase the prompt and try again.`;
+    }
+    if (finishReason === 'length') {
+        return `${label} ran out of tokens before writing a response. Use a model with a larger output limit.`;
+    }
+    return `${label} returned an empty response.`;
+}
+
+// Shared request/response handling for every backend that speaks the
+// OpenAI chat completions format (OpenAI, Azure OpenAI, Ollama, LM Studio, ...).
+// Passing `onToken` switches the request to `stream: true`.
+export async function postChatCompletion(
+    label: string,
+    url: string,
+    headers: Record<string, string>,
+    body: Record<string, unknown>,
+    signal?: AbortSignal,
+    onToken?: TokenHandler,
+    http?: HttpOptions
+): Promise<CompletionResult> {
+    const response = await postJson(label, url, headers, onToken ? { ...body, stream: true } : body, signal, http);
+
+    if (!onToken) {
+        const data = await readJson(label, response);
+        const choice = Array.isArray(data.choices) ? data.choices[0] : undefined;
+        if (!choice) {
+            throw new ProviderError(`${label} returned no choices. Check that the model supports chat completions.`, 'invalidResponse', label, response.status);
+        }
+        const content = choice.message?.content;
+        if (typeof content !== 'string' || !content.trim()) {
+            throw new ProviderError(describeEmptyChoice(label, choice.finish_reason), 'invalidResponse', label, response.status);
+        }
+        return { text: content.trim(), model: data.model || String(body.model || ''), usage: parseUsage(data.usage) };
+    }
+
+    let text = '';
+    let model = String(body.model || '');
+    let usage: TokenUsage | undefined;
+    let finishReason: string | undefined;
+    for await (const event of readSseEvents(label, response)) {
+        if (event.data === '[DONE]') {
+            break;
+        }
+        let chunk: any;
+        try {
+            chunk = JSON.parse(event.data);
+        } catch {
+            continue;
+        }
+        if (chunk.error) {
+            throw new ProviderError(`${label} API error: ${chunk.error.message || 'stream failed'}`, 'server', label);
+        }
+        finishReason = chunk.choices?.[0]?.finish_reason || finishReason;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+            text += delta;
+            onToken(delta);
+        }
+        model = chunk.model || model;
+        usage = parseUsage(chunk.usage) || usage;
+    }
+
+    if (!text.trim()) {
+        throw new ProviderError(describeEmptyChoice(label, finishReason), 'invalidResponse', label, response.status);
+    }
+    return { text: text.trim(), model, usage };
+}
+
+export function createOpenAICompatibleProvider(id: ProviderId, label: string, config: ProviderConfig): LLMProvider {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+    const send = (request: CompletionRequest, onToken?: TokenHandler) => {
+        const headers: Record<string, string> = {};
+        if (config.apiKey) {
+            headers['Authorization'] = `Bearer ${config.apiKey}`;
+        }
+        return postChatCompletion(label, `${baseUrl}/chat/completions`, headers, {
+            model: config.model,
+            messages: request.messages,
+            max_tokens: request.maxTokens,
+            temperature: request.temperature,
+            ...responseFormatBody(request),
+            // Only OpenAI itself is known to report usage on streamed responses
+            ...(onToken && id === 'openai' ? { stream_options: { include_usage: true } } : {})
+        }, request.signal, onToken, config.http);
+    };
+
+    return {
+        id,
+        label,
+        model: config.model,
+        complete: request => send(request),
+        stream: (request, onToken) => send(request, onToken)
+    };
+}
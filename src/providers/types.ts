@@ -0,0 +1,64 @@
+import { JsonSchema } from '../jsonSchema';
+import { HttpOptions } from './http';
+
+export type ProviderId = 'openai' | 'azure' | 'anthropic' | 'ollama' | 'openaiCompatible';
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface CompletionRequest {
+    messages: ChatMessage[];
+    maxTokens: number;
+    temperature: number;
+    // Ask for JSON matching the schema where the API supports it; callers still
+    // validate the answer
+    responseFormat?: { name: string; schema: JsonSchema };
+    signal?: AbortSignal;
+}
+
+// Receives each chunk of generated text as it arrives
+export type TokenHandler = (delta: string) => void;
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+export interface CompletionResult {
+    text: string;
+    model: string;
+    usage?: TokenUsage;
+}
+
+export interface ProviderConfig {
+    apiKey?: string;
+    baseUrl: string;
+    model: string;
+    // Azure OpenAI only
+    deployment?: string;
+    apiVersion?: string;
+    // Timeout, retries, proxy and certificates
+    http?: HttpOptions;
+}
+
+export interface LLMProvider {
+    readonly id: ProviderId;
+    readonly label: string;
+    readonly model: string;
+    complete(request: CompletionRequest): Promise<CompletionResult>;
+    stream(request: CompletionRequest, onToken: TokenHandler): Promise<CompletionResult>;
+}
+
+export interface ProviderDefinition {
+    id: ProviderId;
+    label: string;
+    defaultBaseUrl: string;
+    models: string[];
+    requiresApiKey: boolean;
+    // Environment variable used when no key is stored (headless / devcontainer setups)
+    apiKeyEnvVar?: string;
+    create(config: ProviderConfig): LLMProvider;
+}
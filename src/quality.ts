@@ -0,0 +1,321 @@
+// Prompt quality score. Rates a prompt from its wording alone, so scores are
+// free, repeatable and comparable before and after an optimization; a judge
+// model's rating can be blended in. Pure so it can run outside the extension host.
+
+import { extractFeatures, PromptFeatures } from './analysis';
+import { extractJson } from './jsonSchema';
+import { LENGTH_LIMIT_PATTERN, LintRule, lintPrompt } from './lint';
+import { LLMProvider } from './providers';
+
+export type QualityDimension = 'clarity' | 'specificity' | 'structure' | 'constraints' | 'outputFormat' | 'examples' | 'ambiguity';
+
+// Weights add up to 1
+export const QUALITY_DIMENSIONS: Record<QualityDimension, { label: string; weight: number; description: string }> = {
+    clarity: { label: 'Clarity', weight: 0.2, description: 'A direct task without vague verbs, contradictions or run-on sentences' },
+    specificity: { label: 'Specificity', weight: 0.15, description: 'Concrete details such as a role, an audience, numbers and names' },
+    structure: { label: 'Structure', weight: 0.15, description: 'Sections, lists or steps that organize longer requests' },
+    constraints: { label: 'Constraints', weight: 0.15, description: 'Explicit rules and limits, such as a length or things to avoid' },
+    outputFormat: { label: 'Output format', weight: 0.15, description: 'Says what the response should look like' },
+    examples: { label: 'Examples', weight: 0.05, description: 'Shows sample input or the expected output' },
+    ambiguity: { label: 'Ambiguity', weight: 0.15, description: 'Higher is less ambiguous: no hedges, open-ended lists or unclear references' }
+};
+
+const DIMENSIONS = Object.keys(QUALITY_DIMENSIONS) as QualityDimension[];
+
+export interface DimensionScore {
+    // 0 to 100
+    score: number;
+    // Why the score is what it is
+    notes: string[];
+}
+
+export interface QualityScore {
+    // Weighted local score, 0 to 100
+    overall: number;
+    dimensions: Record<QualityDimension, DimensionScore>;
+    // Set when a judge model rated the prompt
+    judge?: { score: number; reason: string };
+}
+
+export interface QualityComparison {
+    before: QualityScore;
+    after: QualityScore;
+    // Change in the combined score
+    delta: number;
+}
+
+// Kept with a history entry to track quality over time
+export interface QualityRecord {
+    before: number;
+    after: number;
+    // The scores include a judge model's rating
+    judged?: boolean;
+}
+
+const HEDGE_PATTERN = /\b(maybe|perhaps|somehow|something|some kind of|kind of|sort of|probably|might|whatever|etc\.?|and so on|as needed|if possible|appropriate(ly)?)(?!\w)/gi;
+const DETAIL_PATTERN = /\b\d+(\.\d+)?%?\b|"[^"\n]{2,}"|`[^`\n]+`/g;
+const AUDIENCE_PATTERN = /\b(audience|for (an? |the )?(beginners?|experts?|developers?|engineers?|customers?|users?|students?|children|kids|executives?|team|readers?))\b/i;
+const HEADING_PATTERN = /^\s*(#{1,6}\s+\S|\*\*[^*\n]+\*\*:?\s*$|[A-Z][\w /-]{1,40}:\s*$)/gm;
+const UNCLEAR_START_PATTERN = /^\s*(it|this|that|these|those|them)\b/i;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+const count = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+interface ScoringContext {
+    text: string;
+    features: PromptFeatures;
+    // Number of lint findings for a rule
+    found(rule: LintRule): number;
+}
+
+const rated = (score: number, notes: string[]): DimensionScore => ({ score: clamp(score), notes });
+
+function scoreClarity({ text, features, found }: ScoringContext): DimensionScore {
+    const notes: string[] = [];
+    let score = 100;
+    const vague = found('vague-verb');
+    const conflicts = found('conflicting-instructions');
+    const sentences = text.split(/[.!?\n]+/).filter(sentence => sentence.trim());
+    const averageWords = features.wordCount / Math.max(1, sentences.length);
+    if (vague) {
+        score -= 15 * Math.min(vague, 4);
+        notes.push(`${plural(vague, 'vague phrase')} such as "handle" or "improve"`);
+    }
+    if (conflicts) {
+        score -= 25 * conflicts;
+        notes.push(plural(conflicts, 'conflicting instruction'));
+    }
+    if (!features.instructionCount && !text.includes('?')) {
+        score -= 20;
+        notes.push('No direct instruction or question');
+    }
+    if (averageWords > 30) {
+        score -= 15;
+        notes.push(`Long sentences (${Math.round(averageWords)} words on average)`);
+    }
+    return rated(score, notes.length ? notes : ['Direct and consistent']);
+}
+
+function scoreSpecificity({ text, features }: ScoringContext): DimensionScore {
+    const details = count(text, DETAIL_PATTERN);
+    const audience = AUDIENCE_PATTERN.test(text);
+    return rated(Math.min(40, features.wordCount) + (features.hasRole ? 20 : 0) + Math.min(20, details * 10) + (audience ? 20 : 0), [
+        features.wordCount < 40 ? `Only ${plural(features.wordCount, 'word')} of context` : 'Enough context',
+        features.hasRole ? 'Defines a role' : 'No role',
+        details ? `${plural(details, 'concrete detail')} (numbers, quoted terms)` : 'No concrete details',
+        audience ? 'Names the audience' : 'No audience'
+    ]);
+}
+
+function scoreStructure({ text, features }: ScoringContext): DimensionScore {
+    const notes: string[] = [];
+    let score = 20;
+    const headings = count(text, HEADING_PATTERN);
+    if (features.listItems >= 2) {
+        score += 30;
+        notes.push(plural(features.listItems, 'list item'));
+    }
+    if (headings) {
+        score += 25;
+        notes.push(plural(headings, 'section heading'));
+    }
+    if (/\n\s*\n/.test(text.trim())) {
+        score += 15;
+        notes.push('Separate paragraphs');
+    }
+    if (features.mentionsSteps) {
+        score += 10;
+        notes.push('Describes steps');
+    }
+    // A one-line request needs no sections
+    if (features.wordCount <= 25 && score < 50) {
+        score = 50;
+        notes.push('Short enough to need little structure');
+    }
+    return rated(score, notes.length ? notes : ['One block of text']);
+}
+
+function scoreConstraints({ text, features }: ScoringContext): DimensionScore {
+    const limit = LENGTH_LIMIT_PATTERN.test(text);
+    return rated(Math.min(75, features.constraintCount * 25) + (limit ? 25 : 0), [
+        features.constraintCount ? `${plural(features.constraintCount, 'rule')} (must, never, only, ...)` : 'No explicit rules',
+        limit ? 'Limits the length' : 'No length limit'
+    ]);
+}
+
+function scoreOutputFormat({ features, found }: ScoringContext): DimensionScore {
+    if (found('missing-output-format')) {
+        return rated(0, ['Does not say what the response should look like']);
+    }
+    return rated(60 + Math.min(40, features.outputFormatRequests * 20), [
+        features.outputFormatRequests ? `Names the format ${plural(features.outputFormatRequests, 'time')}` : 'Mentions the output loosely'
+    ]);
+}
+
+function scoreExamples({ text, features }: ScoringContext): DimensionScore {
+    if (features.codeBlocks || /\b(input|output)\s*:/i.test(text)) {
+        return rated(100, ['Includes sample input or output']);
+    }
+    return features.hasExamples ? rated(70, ['Mentions examples']) : rated(0, ['No examples']);
+}
+
+function scoreAmbiguity({ text, found }: ScoringContext): DimensionScore {
+    const notes: string[] = [];
+    let score = 100;
+    const hedges = count(text, HEDGE_PATTERN);
+    if (hedges) {
+        score -= Math.min(50, hedges * 10);
+        notes.push(`${plural(hedges, 'hedge')} such as "maybe" or "etc."`);
+    }
+    if (found('unbounded-length')) {
+        score -= 20;
+        notes.push('Asks for an open-ended amount of output');
+    }
+    if (UNCLEAR_START_PATTERN.test(text)) {
+        score -= 15;
+        notes.push('Starts with a pronoun that refers to nothing');
+    }
+    return rated(score, notes.length ? notes : ['Nothing left open']);
+}
+
+const SCORERS: Record<QualityDimension, (context: ScoringContext) => DimensionScore> = {
+    clarity: scoreClarity,
+    specificity: scoreSpecificity,
+    structure: scoreStructure,
+    constraints: scoreConstraints,
+    outputFormat: scoreOutputFormat,
+    examples: scoreExamples,
+    ambiguity: scoreAmbiguity
+};
+
+// Each dimension from 0 to 100, and their weighted sum
+export function scorePrompt(text: string): QualityScore {
+    const findings = lintPrompt(text);
+    const context: ScoringContext = {
+        text,
+        features: extractFeatures(text),
+        found: rule => findings.filter(finding => finding.rule === rule).length
+    };
+    const dimensions = Object.fromEntries(DIMENSIONS.map(dimension => [
+        dimension,
+        text.trim() ? SCORERS[dimension](context) : rated(0, ['The prompt is empty'])
+    ])) as Record<QualityDimension, DimensionScore>;
+    return { overall: clamp(DIMENSIONS.reduce((sum, dimension) => sum + QUALITY_DIMENSIONS[dimension].weight * dimensions[dimension].score, 0)), dimensions };
+}
+
+// The local score, averaged with the judge's rating when there is one
+export function combinedScore(score: QualityScore): number {
+    return score.judge ? clamp((score.overall + score.judge.score) / 2) : score.overall;
+}
+
+export function compareQuality(before: QualityScore, after: QualityScore): QualityComparison {
+    return { before, after, delta: combinedScore(after) - combinedScore(before) };
+}
+
+export function toQualityRecord(comparison: QualityComparison): QualityRecord {
+    return {
+        before: combinedScore(comparison.before),
+        after: combinedScore(comparison.after),
+        ...comparison.before.judge || comparison.after.judge ? { judged: true } : {}
+    };
+}
+
+const QUALITY_JUDGE_INSTRUCTIONS = 'You are a strict prompt engineering reviewer. Rate how well the prompt would steer a language model to a high-quality answer, considering clarity, specificity, structure, constraints, output format, examples and ambiguity. Reply with JSON only: {"score": <0-100>, "reason": "<one sentence>"}';
+
+// Throws when the judge's answer has no usable score
+export function parseJudgeScore(text: string): { score: number; reason: string } {
+    const verdict = extractJson(text) as { score?: unknown; reason?: unknown };
+    if (typeof verdict?.score !== 'number' || Number.isNaN(verdict.score)) {
+        throw new Error('The judge did not return a score');
+    }
+    return { score: clamp(verdict.score), reason: String(verdict.reason ?? '') };
+}
+
+export async function judgePromptQuality(provider: LLMProvider, prompt: string, signal?: AbortSignal): Promise<{ score: number; reason: string }> {
+    const result = await provider.complete({
+        messages: [
+            { role: 'system', content: QUALITY_JUDGE_INSTRUCTIONS },
+            { role: 'user', content: `Prompt:\n${prompt}` }
+        ],
+        maxTokens: 200,
+        temperature: 0,
+        signal
+    });
+    return parseJudgeScore(result.text);
+}
+
+const signed = (value: number) => value > 0 ? `+${value}` : String(value);
+
+// e.g. "42 → 78 (+36)"
+export function formatQualityChange(comparison: QualityComparison): string {
+    return `${combinedScore(comparison.before)} → ${combinedScore(comparison.after)} (${signed(comparison.delta)})`;
+}
+
+const judgeLine = (score: QualityScore) => score.judge ? `Judge: ${score.judge.score}/100${score.judge.reason ? ` — ${score.judge.reason}` : ''}` : '';
+
+export function qualityToMarkdown(score: QualityScore): string {
+    const rows = DIMENSIONS.map(dimension =>
+        `| ${QUALITY_DIMENSIONS[dimension].label} | ${score.dimensions[dimension].score} | ${score.dimensions[dimension].notes.join('; ')} |`);
+    return [
+        `**Prompt quality: ${combinedScore(score)}/100**`,
+        judgeLine(score),
+        `| Dimension | Score | Notes |\n| --- | --- | --- |\n${rows.join('\n')}`
+    ].filter(Boolean).join('\n\n');
+}
+
+export function qualityComparisonToMarkdown(comparison: QualityComparison): string {
+    const rows = DIMENSIONS.map(dimension => {
+        const before = comparison.before.dimensions[dimension].score;
+        const after = comparison.after.dimensions[dimension].score;
+        return `| ${QUALITY_DIMENSIONS[dimension].label} | ${before} | ${after} | ${signed(after - before)} |`;
+    });
+    const judges = [comparison.before, comparison.after].map(judgeLine);
+    return [
+        `| Dimension | Before | After | Change |\n| --- | --- | --- | --- |\n${rows.join('\n')}\n| **Overall** | **${combinedScore(comparison.before)}** | **${combinedScore(comparison.after)}** | **${signed(comparison.delta)}** |`,
+        ...judges[0] || judges[1] ? [`- Before: ${judges[0] || 'not judged'}\n- After: ${judges[1] || 'not judged'}`] : [],
+        `Still holding the optimized prompt back: ${DIMENSIONS
+            .filter(dimension => comparison.after.dimensions[dimension].score < 60)
+            .map(dimension => `${QUALITY_DIMENSIONS[dimension].label.toLowerCase()} (${comparison.after.dimensions[dimension].notes[0]})`)
+            .join(', ') || 'nothing'}.`
+    ].join('\n\n');
+}
+
+// Monday of the entry's week, as YYYY-MM-DD in UTC
+function weekOf(timestamp: number): string {
+    const date = new Date(timestamp);
+    date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+    return date.toISOString().slice(0, 10);
+}
+
+const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+// Average scores per week, newest first, from recorded optimizations
+export function qualityTrendToMarkdown(entries: Array<{ timestamp: number; quality?: QualityRecord }>): string {
+    const scored = entries.filter((entry): entry is { timestamp: number; quality: QualityRecord } => !!entry.quality);
+    if (!scored.length) {
+        return '# Prompt Quality Trend\n\nNo scored optimizations yet.\n';
+    }
+
+    const weeks = new Map<string, QualityRecord[]>();
+    for (const entry of [...scored].sort((a, b) => b.timestamp - a.timestamp)) {
+        const week = weekOf(entry.timestamp);
+        weeks.set(week, [...weeks.get(week) || [], entry.quality]);
+    }
+    const summarize = (records: QualityRecord[]) => {
+        const before = average(records.map(record => record.before));
+        const after = average(records.map(record => record.after));
+        return `${records.length} | ${before} | ${after} | ${signed(after - before)}`;
+    };
+    const rows = [...weeks].map(([week, records]) => `| ${week} | ${summarize(records)} |`);
+
+    return `# Prompt Quality Trend
+
+| Week of | Optimizations | Avg. before | Avg. after | Avg. gain |
+| --- | --- | --- | --- | --- |
+${rows.join('\n')}
+| **All** | ${summarize(scored.map(entry => entry.quality))} |
+
+Scores are 0–100 from the local quality checks${scored.some(entry => entry.quality.judged) ? ', averaged with the judge model where it was enabled' : ''}.
+`;
+}
@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import { PROMPT_SCHEME } from './diffView';
+import { qualityToMarkdown, scorePrompt } from './quality';
+
+// Scores the selected text when the mouse is over the selection
+class QualityHoverProvider implements vscode.HoverProvider {
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        if (!vscode.workspace.getConfiguration('promptious').get<boolean>('quality.hover', true)) {
+            return undefined;
+        }
+        const editor = vscode.window.visibleTextEditors.find(visible => visible.document === document);
+        const selection = editor?.selections.find(selected => !selected.isEmpty && selected.contains(position));
+        const text = selection && document.getText(selection);
+        if (!selection || !text?.trim()) {
+            return undefined;
+        }
+        return new vscode.Hover(new vscode.MarkdownString(qualityToMarkdown(scorePrompt(text))), selection);
+    }
+}
+
+export function registerQualityHover(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(vscode.languages.registerHoverProvider(
+        [{ scheme: 'file' }, { scheme: 'untitled' }, { scheme: PROMPT_SCHEME }],
+        new QualityHoverProvider()
+    ));
+}
@@ -0,0 +1,109 @@
+// Refinement sessions: an optimized prompt revised with follow-up instructions
+// ("shorter", "add JSON output"), keeping every revision so the user can step
+// back. Pure, so the session and its meta-prompt can be used outside the
+// extension host.
+
+import { TokenUsage } from './providers';
+
+export interface Revision {
+    text: string;
+    // Follow-up that produced this revision; undefined for the original and the first optimization
+    instruction?: string;
+    // Index of the revision this one was refined from
+    parent?: number;
+    model?: string;
+    usage?: TokenUsage;
+}
+
+// What a follow-up request needs besides the revision being refined
+export interface RefinementStep {
+    original: string;
+    instruction: string;
+    // Instructions already applied to the revision, oldest first
+    earlierInstructions: string[];
+}
+
+export const REFINEMENT_SUGGESTIONS = ['Make it shorter', 'Add a JSON output format', 'Target Claude', 'Add an example', 'Be more specific'];
+
+export class RefinementSession {
+    readonly revisions: Revision[];
+    private index = 0;
+
+    constructor(readonly original: string) {
+        this.revisions = [{ text: original }];
+    }
+
+    get currentIndex(): number {
+        return this.index;
+    }
+
+    get current(): Revision {
+        return this.revisions[this.index];
+    }
+
+    // The revision the current one was refined from, to diff against
+    get base(): Revision | undefined {
+        const parent = this.current.parent;
+        return parent === undefined ? undefined : this.revisions[parent];
+    }
+
+    // Refining an earlier revision branches from it; later revisions stay
+    // available in the list
+    add(revision: Omit<Revision, 'parent'>): number {
+        this.revisions.push({ ...revision, parent: this.index });
+        this.index = this.revisions.length - 1;
+        return this.index;
+    }
+
+    select(index: number): boolean {
+        if (!Number.isInteger(index) || index < 0 || index >= this.revisions.length) {
+            return false;
+        }
+        this.index = index;
+        return true;
+    }
+
+    // Follow-ups that led to the current revision, oldest first
+    instructions(): string[] {
+        const chain: string[] = [];
+        for (let revision: Revision | undefined = this.current; revision; revision = revision.parent === undefined ? undefined : this.revisions[revision.parent]) {
+            if (revision.instruction) {
+                chain.unshift(revision.instruction);
+            }
+        }
+        return chain;
+    }
+
+    // The request for the next revision, refined from the current one
+    nextStep(instruction: string): RefinementStep {
+        return { original: this.original, instruction, earlierInstructions: this.instructions() };
+    }
+}
+
+export function describeRevision(session: RefinementSession, index: number): string {
+    const revision = session.revisions[index];
+    if (index === 0) {
+        return 'Original';
+    }
+    return revision.instruction ? `#${index} ${revision.instruction}` : `#${index} Optimized`;
+}
+
+export function createRefinementPrompt(current: string, step: RefinementStep): string {
+    const earlier = step.earlierInstructions.length
+        ? `\n**Earlier instructions, already applied:**\n${step.earlierInstructions.map(instruction => `- ${instruction}`).join('\n')}\n`
+        : '';
+    return `You are an expert prompt engineer refining a prompt step by step.
+
+**Original prompt, for reference:**
+${step.original}
+
+**Current version:**
+${current}
+${earlier}
+**Change to make now:**
+${step.instruction}
+
+Apply this change to the current version and keep everything it does not affect.
+
+**Return ONLY the revised prompt text, no explanations, no JSON, no quotes:**`;
+}
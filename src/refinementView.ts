@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import { analyzePromptType } from './analysis';
+import { getOptimizationSettings, resolveProvider } from './config';
+import { showPromptDiff } from './diffView';
+import { applyProposal } from './editProposals';
+import { recordOptimization } from './historyView';
+import { applyTechniquePolicy, OptimizationInput, runOptimization } from './optimizer';
+import { describePlaceholderReport } from './placeholders';
+import { LLMProvider, ProviderError } from './providers';
+import { describeRevision, REFINEMENT_SUGGESTIONS, RefinementSession, RefinementStep, Revision } from './refinement';
+import { guardPrompt, GuardedPrompt } from './sendGuard';
+import { getDefaultTemplateId, loadTemplateLibrary } from './templateRegistry';
+import { countTokens } from './tokens';
+import { BudgetExceededError } from './usage';
+import { resolveModelInfo } from './usageTracking';
+import { createNonce, escapeHtml, renderDiff } from './webviewHtml';
+
+export interface RefinementTarget {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    // The text last selected or inserted there, so edits made since are caught
+    original: string;
+}
+
+type PanelMessage =
+    | { command: 'refine'; instruction: string }
+    | { command: 'select'; index: number }
+    | { command: 'copy' | 'insert' | 'diff' | 'save' };
+
+function renderHtml(webview: vscode.Webview, session: RefinementSession, busy: boolean, canInsert: boolean): string {
+    const nonce = createNonce();
+    const current = session.current;
+    const base = session.base;
+    const index = session.currentIndex;
+    const disabled = busy ? ' disabled' : '';
+    const revisions = session.revisions.map((revision, position) =>
+        `<li><button class="revision${position === index ? ' current' : ''}" data-command="select" data-index="${position}"${disabled}>${escapeHtml(describeRevision(session, position))}</button></li>`);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .layout { display: grid; grid-template-columns: minmax(160px, 220px) 1fr; gap: 16px; }
+    ol { list-style: none; padding: 0; margin: 0; }
+    .revision { width: 100%; text-align: left; margin-bottom: 4px; background: none; color: var(--vscode-foreground); border: 1px solid var(--vscode-panel-border); }
+    .revision.current { border-color: var(--vscode-focusBorder); font-weight: bold; }
+    .meta { opacity: 0.8; font-size: 0.9em; }
+    pre { white-space: pre-wrap; font-family: var(--vscode-editor-font-family); border: 1px solid var(--vscode-panel-border); padding: 8px; }
+    ins { background: var(--vscode-diffEditor-insertedTextBackground); text-decoration: none; }
+    del { background: var(--vscode-diffEditor-removedTextBackground); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+    button:disabled { opacity: 0.5; cursor: default; }
+    .suggestion { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); margin: 0 4px 4px 0; }
+    textarea { width: 100%; box-sizing: border-box; min-height: 4em; font-family: var(--vscode-font-family); color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+</style>
+</head>
+<body>
+<h1>Refine Prompt</h1>
+<div class="layout">
+<nav>
+    <h2>Revisions</h2>
+    <ol>${revisions.join('')}</ol>
+    <p>
+        <button data-command="select" data-index="${index - 1}"${index > 0 ? disabled : ' disabled'}>◀ Back</button>
+        <button data-command="select" data-index="${index + 1}"${index < session.revisions.length - 1 ? disabled : ' disabled'}>Forward ▶</button>
+    </p>
+</nav>
+<main>
+    <h2>${escapeHtml(describeRevision(session, index))}</h2>
+    <p class="meta">${current.text.length} chars · ${countTokens(current.text, current.model)} tokens${current.model ? ` · ${escapeHtml(current.model)}` : ''}${base ? ` · changes against ${escapeHtml(describeRevision(session, current.parent!))}` : ''}</p>
+    <div class="actions">
+        ${canInsert ? `<button data-command="insert"${disabled}>Insert</button>` : ''}
+        <button data-command="copy">Copy</button>
+        ${base ? '<button data-command="diff">Open Diff</button>' : ''}
+        <button data-command="save"${index === 0 ? ' disabled' : ''}>Save to History</button>
+    </div>
+    <pre>${base ? renderDiff(base.text, current.text) : escapeHtml(current.text)}</pre>
+    <h2>Next change</h2>
+    <div>${REFINEMENT_SUGGESTIONS.map(suggestion => `<button class="suggestion" data-instruction="${escapeHtml(suggestion)}"${disabled}>${escapeHtml(suggestion)}</button>`).join('')}</div>
+    <textarea id="instruction" placeholder="Describe the change, e.g. &quot;shorter&quot; or &quot;ask for a table&quot;. Enter to send, Shift+Enter for a new line."${disabled}></textarea>
+    <p><button id="refine"${disabled}>${busy ? 'Refining...' : 'Refine'}</button></p>
+</main>
+</div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const instruction = document.getElementById('instruction');
+    const refine = text => {
+        if (text.trim()) {
+            vscode.postMessage({ command: 'refine', instruction: text.trim() });
+        }
+    };
+    document.querySelectorAll('button[data-command]').forEach(button => {
+        button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command, index: Number(button.dataset.index) }));
+    });
+    document.querySelectorAll('button[data-instruction]').forEach(button => {
+        button.addEventListener('click', () => refine(button.dataset.instruction));
+    });
+    document.getElementById('refine').addEventListener('click', () => refine(instruction.value));
+    instruction.addEventListener('keydown', event => {
+        if (event.key === 'Enter' && !event.shiftKey) {
+            event.preventDefault();
+            refine(instruction.value);
+        }
+    });
+    instruction.focus();
+</script>
+</body>
+</html>`;
+}
+
+// Run one request for the session under a cancellable notification; resolves
+// to undefined when cancelled
+async function generateRevision(provider: LLMProvider, input: Omit<OptimizationInput, 'signal'>, guarded: GuardedPrompt, title: string): Promise<Revision | undefined> {
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title,
+        cancellable: true
+    }, async (_progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        try {
+            const result = await runOptimization(provider, { ...input, signal: controller.signal });
+            if (result.placeholders?.unresolved) {
+                vscode.window.showWarningMessage(describePlaceholderReport(result.placeholders)!);
+            }
+            return { text: guarded.restore(result.text), instruction: input.refinement?.instruction, model: result.model, usage: result.usage };
+        } catch (error) {
+            if (error instanceof ProviderError && error.kind === 'cancelled') {
+                return undefined;
+            }
+            throw error;
+        } finally {
+            cancellation.dispose();
+        }
+    });
+}
+
+function reportError(error: unknown): void {
+    console.error('Error refining prompt:', error);
+    if (error instanceof BudgetExceededError) {
+        vscode.window.showErrorMessage(error.message, 'Show Usage').then(action => {
+            if (action === 'Show Usage') {
+                vscode.commands.executeCommand('promptious.showUsage');
+            }
+        });
+        return;
+    }
+    vscode.window.showErrorMessage('Error refining prompt: ' + (error instanceof Error ? error.message : String(error)));
+}
+
+// Optimize the prompt, then keep revising it with follow-up instructions in a
+// panel that lists every revision
+export async function refinePrompt(context: vscode.ExtensionContext, prompt: string, target?: RefinementTarget): Promise<void> {
+    const provider = await resolveProvider(context.secrets);
+    if (!provider) {
+        return;
+    }
+
+    // Revisions hold the real values; every request is redacted the same way
+    const guarded = await guardPrompt(prompt, provider.label);
+    if (!guarded) {
+        return;
+    }
+
+    const settings = getOptimizationSettings();
+    const library = await loadTemplateLibrary();
+    const analysis = analyzePromptType(guarded.prompt, settings.targetModel);
+    const inputFor = (current: string, refinement?: RefinementStep): Omit<OptimizationInput, 'signal'> => ({
+        prompt: guarded.redact(current),
+        analysis,
+        library,
+        templateId: getDefaultTemplateId(library),
+        targetModel: settings.targetModel,
+        temperature: settings.temperature,
+        modelInfo: resolveModelInfo(provider.model, provider.id),
+        policy: settings.policy,
+        refinement: refinement && {
+            ...refinement,
+            original: guarded.prompt,
+            instruction: guarded.redact(refinement.instruction),
+            earlierInstructions: refinement.earlierInstructions.map(guarded.redact)
+        }
+    });
+
+    const first = await generateRevision(provider, inputFor(prompt), guarded, 'Optimizing prompt...');
+    if (!first) {
+        vscode.window.showInformationMessage('Prompt refinement cancelled.');
+        return;
+    }
+
+    const session = new RefinementSession(prompt);
+    session.add(first);
+    let busy = false;
+
+    const panel = vscode.window.createWebviewPanel('promptious.refinement', 'Refine Prompt', vscode.ViewColumn.Beside, {
+        enableScripts: true,
+        retainContextWhenHidden: true
+    });
+    const render = () => {
+        panel.webview.html = renderHtml(panel.webview, session, busy, !!target);
+    };
+    render();
+
+    const refine = async (instruction: string) => {
+        busy = true;
+        render();
+        try {
+            const revision = await generateRevision(provider, inputFor(session.current.text, session.nextStep(instruction)), guarded, 'Refining prompt...');
+            if (revision) {
+                session.add(revision);
+            }
+        } finally {
+            busy = false;
+            render();
+        }
+    };
+
+    const insert = async () => {
+        if (!target) {
+            return;
+        }
+        const text = session.current.text;
+        const applied = await applyProposal({
+            id: 0,
+            uri: target.uri,
+            range: target.range,
+            original: target.original,
+            optimized: text
+        }, 'replace');
+        if (applied) {
+            // Later inserts replace this revision rather than the original selection
+            const document = await vscode.workspace.openTextDocument(target.uri);
+            const start = document.offsetAt(target.range.start);
+            const range = new vscode.Range(target.range.start, document.positionAt(start + text.length));
+            target = { uri: target.uri, range, original: document.getText(range) };
+            await vscode.window.showTextDocument(target.uri, { preview: false, viewColumn: vscode.ViewColumn.One });
+        }
+    };
+
+    panel.webview.onDidReceiveMessage(async (message: PanelMessage) => {
+        if (busy && message.command !== 'copy') {
+            return;
+        }
+        try {
+            switch (message.command) {
+                case 'refine':
+                    await refine(message.instruction);
+                    break;
+                case 'select':
+                    if (session.select(message.index)) {
+                        render();
+                    }
+                    break;
+                case 'copy':
+                    await vscode.env.clipboard.writeText(session.current.text);
+                    vscode.window.showInformationMessage('Revision copied to clipboard.');
+                    break;
+                case 'insert':
+                    await insert();
+                    break;
+                case 'diff':
+                    if (session.base) {
+                        await showPromptDiff(session.base.text, session.current.text, `${describeRevision(session, session.current.parent!)} ↔ ${describeRevision(session, session.currentIndex)}`);
+                    }
+                    break;
+                case 'save':
+                    await recordOptimization(context, {
+                        original: session.original,
+                        optimized: session.current.text,
+                        provider: provider.label,
+                        model: session.current.model || provider.model,
+                        analysis: {
+                            type: analysis.type,
+                            complexity: analysis.complexity,
+                            techniques: applyTechniquePolicy(analysis.techniques, settings.policy)
+                        },
+                        usage: session.current.usage
+                    });
+                    vscode.window.showInformationMessage('Revision saved to history.');
+                    break;
+            }
+        } catch (error) {
+            reportError(error);
+        }
+    });
+}
@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import { FileResponseCache, ResponseCache } from './cache';
+import { OptimizationOutput } from './optimizer';
+
+let cacheContext: vscode.ExtensionContext | undefined;
+
+function createCache(context: vscode.ExtensionContext): FileResponseCache<OptimizationOutput> {
+    const config = vscode.workspace.getConfiguration('promptious');
+    return new FileResponseCache<OptimizationOutput>(vscode.Uri.joinPath(context.globalStorageUri, 'responses').fsPath, {
+        ttlMs: Math.max(0, config.get<number>('cache.ttlHours', 168)) * 60 * 60 * 1000,
+        maxEntries: Math.max(0, config.get<number>('cache.maxEntries', 200))
+    });
+}
+
+// Undefined when caching is turned off or bypassed for this run
+export function getResponseCache(bypass = false): ResponseCache<OptimizationOutput> | undefined {
+    if (!cacheContext || bypass || !vscode.workspace.getConfiguration('promptious').get<boolean>('cache.enabled', true)) {
+        return undefined;
+    }
+    return createCache(cacheContext);
+}
+
+export function registerResponseCache(context: vscode.ExtensionContext): void {
+    cacheContext = context;
+
+    context.subscriptions.push(vscode.commands.registerCommand('promptious.clearCache', async () => {
+        try {
+            const removed = await createCache(context).clear();
+            vscode.window.showInformationMessage(removed
+                ? `Cleared ${removed} cached response${removed === 1 ? '' : 's'}.`
+                : 'The response cache is already empty.');
+        } catch (error) {
+            console.error('Error clearing cache:', error);
+            vscode.window.showErrorMessage('Error clearing cache: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    }));
+}
@@ -0,0 +1,272 @@
+// Local pre-send scan for secrets, personal data and instruction injection.
+// Runs offline on the prompt text only; pure so it can be tested and reused
+// outside the extension host.
+
+export type ScanCategory = 'secret' | 'pii' | 'injection';
+
+export const SCAN_CATEGORY_LABELS: Record<ScanCategory, string> = {
+    secret: 'Secrets',
+    pii: 'Personal data',
+    injection: 'Instruction injection'
+};
+
+export interface ScanRule {
+    id: string;
+    category: ScanCategory;
+    description: string;
+    // Names the redaction placeholder, e.g. EMAIL in {{REDACTED_EMAIL_1}}
+    label: string;
+    // Global; a `value` group narrows the finding to that part of the match
+    pattern: RegExp;
+    // Extra check on the matched text, e.g. the Luhn checksum for card numbers
+    validate?: (match: string) => boolean;
+}
+
+// As written in `promptious.scan.rules`
+export interface CustomScanRule {
+    id: string;
+    pattern: string;
+    flags?: string;
+    category?: ScanCategory;
+    description?: string;
+    label?: string;
+}
+
+export interface ScanFinding {
+    ruleId: string;
+    category: ScanCategory;
+    description: string;
+    label: string;
+    start: number;
+    end: number;
+    text: string;
+}
+
+export interface Redaction {
+    placeholder: string;
+    value: string;
+}
+
+export interface RedactedPrompt {
+    text: string;
+    redactions: Redaction[];
+}
+
+// Bits per character
+export function shannonEntropy(text: string): number {
+    const counts = new Map<string, number>();
+    for (const char of text) {
+        counts.set(char, (counts.get(char) || 0) + 1);
+    }
+    return [...counts.values()].reduce((entropy, count) => {
+        const p = count / text.length;
+        return entropy - p * Math.log2(p);
+    }, 0);
+}
+
+export function passesLuhn(text: string): boolean {
+    const digits = text.replace(/\D/g, '');
+    let sum = 0;
+    for (let index = 0; index < digits.length; index++) {
+        let digit = Number(digits[digits.length - 1 - index]);
+        if (index % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return digits.length >= 13 && sum % 10 === 0;
+}
+
+// Random-looking tokens: long, mixing letters and digits, with high entropy
+const looksRandom = (token: string) => /[a-z]/i.test(token) && /\d/.test(token) && shannonEntropy(token) >= 4.2;
+
+export const BUILT_IN_SCAN_RULES: ScanRule[] = [
+    { id: 'private-key', category: 'secret', label: 'PRIVATE_KEY', description: 'Private key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+    { id: 'anthropic-key', category: 'secret', label: 'API_KEY', description: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+    { id: 'openai-key', category: 'secret', label: 'API_KEY', description: 'OpenAI API key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+    { id: 'aws-access-key', category: 'secret', label: 'AWS_KEY', description: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+    { id: 'github-token', category: 'secret', label: 'GITHUB_TOKEN', description: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+    { id: 'slack-token', category: 'secret', label: 'SLACK_TOKEN', description: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+    { id: 'google-api-key', category: 'secret', label: 'API_KEY', description: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+    { id: 'stripe-key', category: 'secret', label: 'API_KEY', description: 'Stripe key', pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+    { id: 'jwt', category: 'secret', label: 'TOKEN', description: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+    {
+        id: 'secret-assignment',
+        category: 'secret',
+        label: 'SECRET',
+        description: 'Password or key assignment',
+        pattern: /\b(?:api[_-]?key|secret|token|password|passwd|pwd)["']?\s*[:=]\s*["']?(?<value>[^\s"'`,;]{8,})/gi
+    },
+    { id: 'high-entropy', category: 'secret', label: 'SECRET', description: 'High-entropy token', pattern: /(?<![\w+/=-])[A-Za-z0-9+/_=-]{24,}(?![\w+/=-])/g, validate: looksRandom },
+    { id: 'email', category: 'pii', label: 'EMAIL', description: 'Email address', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+    { id: 'card-number', category: 'pii', label: 'CARD', description: 'Payment card number', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: passesLuhn },
+    { id: 'us-ssn', category: 'pii', label: 'SSN', description: 'US social security number', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+    {
+        id: 'phone-number',
+        category: 'pii',
+        label: 'PHONE',
+        description: 'Phone number',
+        pattern: /(?<![\w+]|\d[ .-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)[ .-]?|\d{2,4}[ .-])\d{3,4}[ .-]\d{3,4}(?!\w|[ .-]\d)/g
+    },
+    {
+        id: 'ignore-instructions',
+        category: 'injection',
+        label: 'INJECTION',
+        description: 'Asks to ignore earlier instructions',
+        pattern: /\b(?:ignore|disregard|forget)\s+(?:all\s+|any\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|preceding)\s+(?:instructions|prompts?|rules|messages)/gi
+    },
+    {
+        id: 'reveal-system-prompt',
+        category: 'injection',
+        label: 'INJECTION',
+        description: 'Asks to reveal hidden instructions',
+        pattern: /\b(?:reveal|print|show|repeat|output)\s+(?:your|the)\s+(?:system\s+prompt|hidden\s+instructions|initial\s+instructions)/gi
+    },
+    {
+        id: 'role-override',
+        category: 'injection',
+        label: 'INJECTION',
+        description: 'Tries to switch the model into an unrestricted mode',
+        pattern: /\byou\s+are\s+now\s+(?:DAN|in\s+developer\s+mode|jailbroken|unrestricted)/gi
+    },
+    {
+        id: 'chat-template-tokens',
+        category: 'injection',
+        label: 'INJECTION',
+        description: 'Chat template control tokens',
+        pattern: /<\|(?:im_start|im_end|system|endoftext)\|>|\[\/?INST\]|<<\/?SYS>>/g
+    }
+];
+
+// Custom rules replace built-ins with the same id and otherwise come first, so
+// they win over the generic built-ins; invalid patterns are reported and skipped
+export function compileScanRules(custom: CustomScanRule[] = [], disabled: string[] = []): { rules: ScanRule[]; errors: string[] } {
+    const errors: string[] = [];
+    const compiled = custom.flatMap((rule): ScanRule[] => {
+        try {
+            const flags = [...new Set(`${rule.flags || ''}g`)].join('');
+            return [{
+                id: rule.id,
+                category: rule.category || 'secret',
+                description: rule.description || rule.id,
+                label: (rule.label || rule.id).toUpperCase().replace(/[^A-Z0-9]+/g, '_'),
+                pattern: new RegExp(rule.pattern, flags)
+            }];
+        } catch (error) {
+            errors.push(`Scan rule "${rule.id}": ${error instanceof Error ? error.message : String(error)}`);
+            return [];
+        }
+    });
+    const byId = new Map(compiled.map(rule => [rule.id, rule]));
+    const rules = [
+        ...compiled.filter(rule => !BUILT_IN_SCAN_RULES.some(builtIn => builtIn.id === rule.id)),
+        ...BUILT_IN_SCAN_RULES.map(rule => byId.get(rule.id) || rule)
+    ].filter(rule => !disabled.includes(rule.id));
+    return { rules, errors };
+}
+
+// Findings in text order; where matches overlap, the earlier rule wins
+export function scanPrompt(text: string, rules: ScanRule[] = BUILT_IN_SCAN_RULES): ScanFinding[] {
+    const findings: ScanFinding[] = [];
+    const overlaps = (start: number, end: number) => findings.some(finding => start < finding.end && finding.start < end);
+
+    for (const rule of rules) {
+        const pattern = new RegExp(rule.pattern.source, rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`);
+        for (const match of text.matchAll(pattern)) {
+            const value = match.groups?.value ?? match[0];
+            const start = match.index! + (match.groups?.value !== undefined ? match[0].lastIndexOf(value) : 0);
+            const end = start + value.length;
+            if (!value || (rule.validate && !rule.validate(value)) || overlaps(start, end)) {
+                continue;
+            }
+            findings.push({ ruleId: rule.id, category: rule.category, description: rule.description, label: rule.label, start, end, text: value });
+        }
+    }
+    return findings.sort((a, b) => a.start - b.start);
+}
+
+// Only secrets and personal data are redacted; injection text is the prompt's
+// own wording. The same value always gets the same placeholder, also across
+// texts that share `redactions`.
+export function redactFindings(text: string, findings: ScanFinding[], redactions: Redaction[] = []): RedactedPrompt {
+    const counts = new Map<string, number>();
+    for (const { placeholder } of redactions) {
+        const label = /^\{\{REDACTED_(.+)_\d+\}\}$/.exec(placeholder)?.[1];
+        if (label) {
+            counts.set(label, (counts.get(label) || 0) + 1);
+        }
+    }
+    let redacted = '';
+    let offset = 0;
+
+    for (const finding of findings.filter(finding => finding.category !== 'injection')) {
+        let redaction = redactions.find(existing => existing.value === finding.text);
+        if (!redaction) {
+            const count = (counts.get(finding.label) || 0) + 1;
+            counts.set(finding.label, count);
+            redaction = { placeholder: `{{REDACTED_${finding.label}_${count}}}`, value: finding.text };
+            redactions.push(redaction);
+        }
+        redacted += text.slice(offset, finding.start) + redaction.placeholder;
+        offset = finding.end;
+    }
+    return { text: redacted + text.slice(offset), redactions };
+}
+
+// What to do with a batch of prompts that were scanned together
+export type BatchScanDecision = 'redact' | 'send' | 'skip';
+
+export interface GuardedBatchTexts {
+    // Per prompt: the text to send, or undefined when it is left out
+    texts: Array<string | undefined>;
+    // Shared by the whole batch, so every placeholder is unique
+    redactions: Redaction[];
+}
+
+// Apply one decision to every prompt of a batch: redact secrets and personal
+// data, send the prompts as they are, or leave out the prompts with findings
+export function guardBatch(texts: string[], findings: ScanFinding[][], decision: BatchScanDecision): GuardedBatchTexts {
+    const redactions: Redaction[] = [];
+    return {
+        texts: texts.map((text, index) => {
+            const found = findings[index] || [];
+            if (!found.length || decision === 'send') {
+                return text;
+            }
+            return decision === 'skip' ? undefined : redactFindings(text, found, redactions).text;
+        }),
+        redactions
+    };
+}
+
+// Redact text that contains values already redacted once, e.g. a revision
+// being refined further
+export function applyRedactions(text: string, redactions: Redaction[]): string {
+    return [...redactions].sort((a, b) => b.value.length - a.value.length)
+        .reduce((redacted, redaction) => redacted.split(redaction.value).join(redaction.placeholder), text);
+}
+
+// Put the redacted values back into the optimized prompt
+export function restoreRedactions(text: string, redactions: Redaction[]): string {
+    return redactions.reduce((restored, redaction) => restored.split(redaction.placeholder).join(redaction.value), text);
+}
+
+// Enough of the value to recognize it without showing it in full
+export function maskFinding(finding: ScanFinding): string {
+    const text = finding.text.replace(/\s+/g, ' ');
+    if (finding.category === 'injection') {
+        return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+    }
+    return text.length <= 8 ? '•'.repeat(text.length) : `${text.slice(0, 4)}…${text.slice(-2)}`;
+}
+
+export function describeFindings(findings: ScanFinding[]): string {
+    const byCategory = (Object.keys(SCAN_CATEGORY_LABELS) as ScanCategory[])
+        .map(category => [category, findings.filter(finding => finding.category === category)] as const)
+        .filter(([, found]) => found.length);
+    return byCategory.map(([category, found]) =>
+        `${SCAN_CATEGORY_LABELS[category]}: ${[...new Set(found.map(finding => finding.description))].join(', ')} (${found.length})`).join('; ');
+}
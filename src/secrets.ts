@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { movePlaintextKey, PlaintextKeySetting } from './apiKeyMigration';
+import { ProviderDefinition } from './providers';
+
+const secretKey = (provider: ProviderDefinition) => `promptious.apiKey.${provider.id}`;
+
+// Stored secret first, then the provider's environment variable
+export async function getApiKey(secrets: vscode.SecretStorage, provider: ProviderDefinition): Promise<string | undefined> {
+    const stored = await secrets.get(secretKey(provider));
+    if (stored) {
+        return stored;
+    }
+    return provider.apiKeyEnvVar ? process.env[provider.apiKeyEnvVar] || undefined : undefined;
+}
+
+export async function storeApiKey(secrets: vscode.SecretStorage, provider: ProviderDefinition, apiKey: string): Promise<void> {
+    await secrets.store(secretKey(provider), apiKey);
+}
+
+export async function deleteApiKey(secrets: vscode.SecretStorage, provider: ProviderDefinition): Promise<void> {
+    await secrets.delete(secretKey(provider));
+}
+
+// Ask for a provider's API key and store it in SecretStorage
+export async function promptForApiKey(secrets: vscode.SecretStorage, provider: ProviderDefinition): Promise<boolean> {
+    const apiKey = await vscode.window.showInputBox({
+        prompt: `Enter your ${provider.label} API key`,
+        placeHolder: provider.apiKeyEnvVar ? `Leave empty to use $${provider.apiKeyEnvVar}` : undefined,
+        password: true,
+        ignoreFocusOut: true
+    });
+
+    if (!apiKey?.trim()) {
+        return false;
+    }
+
+    await storeApiKey(secrets, provider, apiKey.trim());
+    vscode.window.showInformationMessage(`${provider.label} API key saved.`);
+    return true;
+}
+
+// One-time move of the legacy plaintext `promptious.apiKey` setting into SecretStorage,
+// stored for the provider that is active at migration time
+export async function migratePlaintextApiKey(secrets: vscode.SecretStorage, provider: ProviderDefinition): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('promptious');
+    const inspected = config.inspect<string>('apiKey');
+    // Most specific first: each workspace folder, then the workspace, then user settings
+    const settings: PlaintextKeySetting[] = (vscode.workspace.workspaceFolders || []).map(folder => {
+        const folderConfig = vscode.workspace.getConfiguration('promptious', folder.uri);
+        return {
+            value: folderConfig.inspect<string>('apiKey')?.workspaceFolderValue,
+            clear: () => folderConfig.update('apiKey', undefined, vscode.ConfigurationTarget.WorkspaceFolder)
+        };
+    });
+    settings.push(
+        { value: inspected?.workspaceValue, clear: () => config.update('apiKey', undefined, vscode.ConfigurationTarget.Workspace) },
+        { value: inspected?.globalValue, clear: () => config.update('apiKey', undefined, vscode.ConfigurationTarget.Global) }
+    );
+
+    return movePlaintextKey(
+        settings,
+        async () => Boolean(await secrets.get(secretKey(provider))),
+        apiKey => storeApiKey(secrets, provider, apiKey)
+    );
+}
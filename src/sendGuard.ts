@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import { machineSetting } from './config';
+import {
+    applyRedactions,
+    BatchScanDecision,
+    compileScanRules,
+    CustomScanRule,
+    describeFindings,
+    guardBatch,
+    maskFinding,
+    redactFindings,
+    Redaction,
+    restoreRedactions,
+    ScanFinding,
+    ScanRule,
+    scanPrompt
+} from './scanner';
+
+// What may be sent for a prompt, and how to map answers back
+export interface GuardedPrompt {
+    prompt: string;
+    redactions: Redaction[];
+    // Replace already-redacted values in text that is sent again
+    redact(text: string): string;
+    // Put the redacted values back into an answer
+    restore(text: string): string;
+}
+
+const MAX_LISTED_FINDINGS = 12;
+
+const unguarded = (prompt: string): GuardedPrompt => ({ prompt, redactions: [], redact: text => text, restore: text => text });
+
+// Active scan rules; undefined when scanning is turned off
+function getScanRules(): ScanRule[] | undefined {
+    // Only user settings count, so a cloned repository cannot weaken the scan
+    if (machineSetting<boolean>('scan.enabled') === false) {
+        return undefined;
+    }
+
+    const { rules, errors } = compileScanRules(machineSetting<CustomScanRule[]>('scan.rules') || [], machineSetting<string[]>('scan.disabledRules') || []);
+    if (errors.length) {
+        vscode.window.showWarningMessage(`Promptious skipped invalid scan rules: ${errors.join('; ')}`);
+    }
+    return rules;
+}
+
+// Scan the prompt before it leaves the machine. Resolves to undefined when
+// the user aborts.
+export async function guardPrompt(prompt: string, destination: string): Promise<GuardedPrompt | undefined> {
+    const rules = getScanRules();
+    if (!rules) {
+        return unguarded(prompt);
+    }
+    const findings = scanPrompt(prompt, rules);
+    if (!findings.length) {
+        return unguarded(prompt);
+    }
+
+    const listed = findings.slice(0, MAX_LISTED_FINDINGS).map(finding => `• ${finding.description}: ${maskFinding(finding)}`);
+    const more = findings.length > MAX_LISTED_FINDINGS ? `\n…and ${findings.length - MAX_LISTED_FINDINGS} more` : '';
+    const redactable = findings.some(finding => finding.category !== 'injection');
+    const choice = await vscode.window.showWarningMessage(
+        `The prompt may contain sensitive or injected content. Send it to ${destination}?`,
+        {
+            modal: true,
+            detail: `${describeFindings(findings)}\n\n${listed.join('\n')}${more}${redactable ? '\n\nRedacting replaces secrets and personal data with placeholders such as {{REDACTED_EMAIL_1}} and puts them back into the optimized prompt.' : ''}`
+        },
+        ...redactable ? ['Redact and Send'] : [],
+        'Send Anyway'
+    );
+
+    if (choice === 'Send Anyway') {
+        return unguarded(prompt);
+    }
+    if (choice !== 'Redact and Send') {
+        return undefined;
+    }
+    const { text, redactions } = redactFindings(prompt, findings);
+    return {
+        prompt: text,
+        redactions,
+        redact: value => applyRedactions(value, redactions),
+        restore: value => restoreRedactions(value, redactions)
+    };
+}
+
+export interface GuardedBatch {
+    // Per prompt: the text to send, or undefined when it is left out
+    prompts: Array<string | undefined>;
+    redact(text: string): string;
+    restore(text: string): string;
+}
+
+// Scan every prompt of a batch run or evaluation and ask once for all of them.
+// `canSkip` offers to leave out the flagged prompts. Resolves to undefined
+// when the user aborts.
+export async function guardPrompts(
+    items: Array<{ label: string; text: string }>,
+    destination: string,
+    options: { canSkip?: boolean } = {}
+): Promise<GuardedBatch | undefined> {
+    const rules = getScanRules();
+    const findings: ScanFinding[][] = items.map(item => rules ? scanPrompt(item.text, rules) : []);
+    const flagged = findings.filter(found => found.length).length;
+    let decision: BatchScanDecision = 'send';
+
+    if (flagged) {
+        const all = findings.flat();
+        const listed = items.flatMap((item, index) => findings[index].map(finding => `• ${item.label} — ${finding.description}: ${maskFinding(finding)}`));
+        const more = listed.length > MAX_LISTED_FINDINGS ? `\n…and ${listed.length - MAX_LISTED_FINDINGS} more` : '';
+        const redactable = all.some(finding => finding.category !== 'injection');
+        const choice = await vscode.window.showWarningMessage(
+            `${flagged} of ${items.length} prompts may contain sensitive or injected content. Send them to ${destination}?`,
+            {
+                modal: true,
+                detail: `${describeFindings(all)}\n\n${listed.slice(0, MAX_LISTED_FINDINGS).join('\n')}${more}${redactable ? '\n\nRedacting replaces secrets and personal data with placeholders such as {{REDACTED_EMAIL_1}} and puts them back into the results.' : ''}`
+            },
+            ...redactable ? ['Redact and Send'] : [],
+            ...options.canSkip ? ['Skip Flagged Prompts'] : [],
+            'Send Anyway'
+        );
+        if (!choice) {
+            return undefined;
+        }
+        decision = choice === 'Redact and Send' ? 'redact' : choice === 'Skip Flagged Prompts' ? 'skip' : 'send';
+    }
+
+    const { texts, redactions } = guardBatch(items.map(item => item.text), findings, decision);
+    return {
+        prompts: texts,
+        redact: value => applyRedactions(value, redactions),
+        restore: value => restoreRedactions(value, redactions)
+    };
+}
@@ -0,0 +1,120 @@
+// Prompting best practices for the model a prompt will run on, which is not
+// necessarily the model that optimizes it. Pure, so templates and the
+// classifier can use it outside the extension host.
+
+export interface TargetModelProfile {
+    id: string;
+    name: string;
+    // Model names the profile applies to, e.g. "claude-3-5-sonnet-latest"
+    pattern: RegExp;
+    guidelines: string[];
+    // Technique changes for this family, with the reason shown in the analysis
+    addTechniques: Array<{ id: string; reason: string }>;
+    dropTechniques: Array<{ id: string; reason: string }>;
+}
+
+// First match wins, so narrower families come before broader ones
+export const TARGET_MODEL_PROFILES: TargetModelProfile[] = [
+    {
+        id: 'reasoning',
+        name: 'Reasoning models (o1, o3, DeepSeek R1)',
+        pattern: /(^|[^a-z0-9])(o1|o3|o4)([^a-z0-9]|$)|deepseek-r1|reasoner|qwq/i,
+        guidelines: [
+            'Keep the prompt brief and direct: state the goal, the constraints and the expected output',
+            'Do not ask the model to think step by step or to explain its reasoning; it reasons on its own',
+            'Prefer zero-shot; add an example only when the output format is unusual',
+            'Separate instructions from input data with markdown sections or XML tags'
+        ],
+        addTechniques: [],
+        dropTechniques: [
+            { id: 'chain-of-thought', reason: 'Reasoning models plan on their own; step-by-step instructions can hurt' },
+            { id: 'self-consistency', reason: 'Reasoning models already weigh alternatives internally' },
+            { id: 'meta-prompting', reason: 'Reasoning models already reflect on their approach' }
+        ]
+    },
+    {
+        id: 'small',
+        name: 'Small local models (8B parameters or fewer)',
+        pattern: /(^|[^\d.])(0\.5|1|1\.5|2|3|4|7|8)b([^a-z0-9]|$)|phi-?\d|tinyllama|smollm/i,
+        guidelines: [
+            'Keep the prompt short and use short, simple sentences',
+            'Give one task per prompt and list the steps as a numbered list',
+            'Show the exact output format with one short example',
+            'Avoid nested conditions, abstract meta-instructions and long role descriptions',
+            'Put the most important instruction at the end, right before the input'
+        ],
+        addTechniques: [
+            { id: 'few-shot', reason: 'Small models follow a concrete example better than a description' }
+        ],
+        dropTechniques: [
+            { id: 'meta-prompting', reason: 'Small models lose track of abstract instructions about their own process' },
+            { id: 'self-consistency', reason: 'Small models handle one clear line of reasoning better than several' }
+        ]
+    },
+    {
+        id: 'claude',
+        name: 'Claude',
+        pattern: /claude|anthropic/i,
+        guidelines: [
+            'Wrap each part (instructions, context, examples, input) in descriptive XML tags such as <instructions> and <document>',
+            'Put the role in the system prompt and the task in the user turn',
+            'Place long documents before the instructions and ask the question at the end',
+            'Be explicit about the desired output and its format; Claude follows instructions literally',
+            'For multi-step reasoning, ask for thinking in <thinking> tags and the final answer in <answer> tags'
+        ],
+        addTechniques: [],
+        dropTechniques: []
+    },
+    {
+        id: 'gpt',
+        name: 'GPT-4o and GPT-4',
+        pattern: /gpt|chatgpt|openai/i,
+        guidelines: [
+            'Put the role and standing rules in the system message',
+            'Structure the prompt with markdown headings and put input text between delimiters such as ### or triple quotes',
+            'Specify the output format explicitly, e.g. a JSON schema or a table layout',
+            'Say what to do rather than only what not to do',
+            'Break complex tasks into numbered steps'
+        ],
+        addTechniques: [],
+        dropTechniques: []
+    },
+    {
+        id: 'llama',
+        name: 'Open-weight chat models (Llama, Mistral, Qwen, Gemma)',
+        pattern: /llama|mistral|mixtral|qwen|gemma/i,
+        guidelines: [
+            'Put the role and rules in a concise system prompt',
+            'State the output format explicitly and show one example of it',
+            'Use clear headings or delimiters between the instructions and the input',
+            'Repeat the key constraints at the end of the prompt'
+        ],
+        addTechniques: [
+            { id: 'few-shot', reason: 'Open-weight models follow examples more reliably than descriptions' }
+        ],
+        dropTechniques: []
+    }
+];
+
+// By profile id ("claude") or by model name ("claude-3-5-haiku-latest")
+export function resolveTargetProfile(targetModel?: string): TargetModelProfile | undefined {
+    const name = targetModel?.trim();
+    if (!name) {
+        return undefined;
+    }
+    return TARGET_MODEL_PROFILES.find(profile => profile.id === name.toLowerCase())
+        || TARGET_MODEL_PROFILES.find(profile => profile.pattern.test(name));
+}
+
+// Meta-prompt section for the target model; empty when none is set
+export function formatTargetGuidelines(targetModel?: string): string {
+    const name = targetModel?.trim();
+    if (!name) {
+        return '';
+    }
+    const profile = resolveTargetProfile(name);
+    const label = profile && profile.id !== name.toLowerCase() ? `${name} (${profile.name})` : profile?.name || name;
+    return profile
+        ? `**Target model:** the optimized prompt will run on ${label}. Follow its prompting best practices:\n${profile.guidelines.map(guideline => `- ${guideline}`).join('\n')}`
+        : `**Target model:** the optimized prompt will run on ${label}. Follow that model's prompting best practices.`;
+}
@@ -0,0 +1,96 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getEffectiveConfig } from './config';
+import {
+    createBuiltInLibrary,
+    DEFAULT_TEMPLATE_ID,
+    libraryFromMarkdown,
+    mergeLibraries,
+    OptimizationTemplate,
+    Technique,
+    TemplateLibrary
+} from './templates';
+
+interface TemplateSetting {
+    name?: string;
+    description?: string;
+    body: string;
+    techniques?: string[];
+}
+
+function loadSettingsLibrary(): Partial<TemplateLibrary> {
+    const config = vscode.workspace.getConfiguration('promptious');
+    const techniques = new Map<string, Technique>();
+    const templates = new Map<string, OptimizationTemplate>();
+
+    for (const [id, description] of Object.entries(config.get<Record<string, string>>('techniques', {}))) {
+        if (typeof description === 'string' && description.trim()) {
+            techniques.set(id, { id, name: description.split(':')[0], description, source: 'settings' });
+        }
+    }
+
+    for (const [id, template] of Object.entries(config.get<Record<string, TemplateSetting>>('templates', {}))) {
+        if (template && typeof template.body === 'string') {
+            templates.set(id, {
+                id,
+                name: template.name || id,
+                description: template.description,
+                body: template.body,
+                techniques: Array.isArray(template.techniques) ? template.techniques : [],
+                source: 'settings'
+            });
+        }
+    }
+
+    return { techniques, templates };
+}
+
+async function readWorkspaceFiles(pattern: string): Promise<Array<[string, string]>> {
+    const files = await vscode.workspace.findFiles(pattern);
+    return Promise.all(files.map(async (uri): Promise<[string, string]> => [
+        path.basename(uri.path, '.md'),
+        Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')
+    ]));
+}
+
+// Shared through the repo in `.promptious/techniques/*.md` and `.promptious/templates/*.md`
+async function loadWorkspaceLibrary(): Promise<Partial<TemplateLibrary>> {
+    if (!vscode.workspace.workspaceFolders) {
+        return {};
+    }
+    return libraryFromMarkdown(
+        await readWorkspaceFiles('.promptious/techniques/*.md'),
+        await readWorkspaceFiles('.promptious/templates/*.md'),
+        'workspace'
+    );
+}
+
+export async function loadTemplateLibrary(): Promise<TemplateLibrary> {
+    try {
+        return mergeLibraries(createBuiltInLibrary(), loadSettingsLibrary(), await loadWorkspaceLibrary());
+    } catch (error) {
+        console.error('Error loading prompt templates:', error);
+        return createBuiltInLibrary();
+    }
+}
+
+// `promptious.template`, overridden by the workspace file or a preset
+export function getDefaultTemplateId(library: TemplateLibrary, presetName?: string): string {
+    const configured = getEffectiveConfig(presetName).template.value || DEFAULT_TEMPLATE_ID;
+    return library.templates.has(configured) ? configured : DEFAULT_TEMPLATE_ID;
+}
+
+export async function pickTemplate(library: TemplateLibrary): Promise<string | undefined> {
+    const defaultId = getDefaultTemplateId(library);
+    const templates = [...library.templates.values()].sort((a, b) =>
+        Number(b.id === defaultId) - Number(a.id === defaultId) || a.name.localeCompare(b.name));
+
+    const picked = await vscode.window.showQuickPick(templates.map(template => ({
+        label: template.name,
+        description: template.id === defaultId ? `${template.source} · default` : template.source,
+        detail: template.description,
+        id: template.id
+    })), { placeHolder: 'Choose an optimization template' });
+
+    return picked?.id;
+}
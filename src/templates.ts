@@ -0,0 +1,171 @@
+import { formatTargetGuidelines } from './targetModels';
+
+export interface Technique {
+    id: string;
+    name: string;
+    description: string;
+    source: TemplateSource;
+}
+
+export interface OptimizationTemplate {
+    id: string;
+    name: string;
+    description?: string;
+    body: string;
+    // Technique ids always applied with this template, on top of the detected ones
+    techniques: string[];
+    source: TemplateSource;
+}
+
+export type TemplateSource = 'built-in' | 'settings' | 'workspace';
+
+export interface TemplateLibrary {
+    techniques: Map<string, Technique>;
+    templates: Map<string, OptimizationTemplate>;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+const BUILT_IN_TECHNIQUES: Array<[string, string]> = [
+    ['zero-shot', 'Zero-shot Prompting: Direct instruction without examples'],
+    ['few-shot', 'Few-shot Prompting: Include 2-3 relevant examples'],
+    ['chain-of-thought', 'Chain-of-Thought: Add step-by-step reasoning structure'],
+    ['meta-prompting', 'Meta Prompting: Ask AI to think about its own process'],
+    ['self-consistency', 'Self-Consistency: Generate multiple perspectives'],
+    ['role-definition', 'Role Definition: Establish clear AI expertise and context']
+];
+
+const DEFAULT_TEMPLATE_BODY = `You are an expert prompt engineer specializing in {{type}} tasks. Optimize this {{complexity}} prompt using these advanced techniques from the Prompt Engineering Guide:
+
+**Techniques to apply:**
+{{techniques}}
+
+**Original prompt:**
+{{originalPrompt}}
+
+**Optimization strategy:**
+1. **Analyze**: Identify the core intent and potential weaknesses
+2. **Enhance**: Apply the selected techniques appropriately
+3. **Structure**: Improve clarity, specificity, and logical flow
+4. **Validate**: Ensure the prompt will produce high-quality responses
+
+**Return ONLY the optimized prompt text, no explanations, no JSON, no quotes:**`;
+
+export function createBuiltInLibrary(): TemplateLibrary {
+    const techniques = new Map<string, Technique>();
+    for (const [id, description] of BUILT_IN_TECHNIQUES) {
+        techniques.set(id, { id, name: description.split(':')[0], description, source: 'built-in' });
+    }
+
+    const templates = new Map<string, OptimizationTemplate>();
+    templates.set(DEFAULT_TEMPLATE_ID, {
+        id: DEFAULT_TEMPLATE_ID,
+        name: 'Default',
+        description: 'Smart technique selection based on prompt type and complexity',
+        body: DEFAULT_TEMPLATE_BODY,
+        techniques: [],
+        source: 'built-in'
+    });
+
+    return { techniques, templates };
+}
+
+// Later layers override earlier ones by id (built-in < settings < workspace files)
+export function mergeLibraries(...layers: Array<Partial<TemplateLibrary>>): TemplateLibrary {
+    const merged: TemplateLibrary = { techniques: new Map(), templates: new Map() };
+    for (const layer of layers) {
+        layer.techniques?.forEach((technique, id) => merged.techniques.set(id, technique));
+        layer.templates?.forEach((template, id) => merged.templates.set(id, template));
+    }
+    return merged;
+}
+
+export interface FrontMatterDocument {
+    attributes: Record<string, string>;
+    body: string;
+}
+
+// Minimal `key: value` front matter, enough for technique and template files
+export function parseFrontMatter(text: string): FrontMatterDocument {
+    const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+    if (!match) {
+        return { attributes: {}, body: text.trim() };
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const line of match[1].split(/\r?\n/)) {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+            attributes[line.slice(0, separator).trim()] = line.slice(separator + 1).trim().replace(/^["']|["']$/g, '');
+        }
+    }
+    return { attributes, body: text.slice(match[0].length).trim() };
+}
+
+export function splitList(value: string | undefined): string[] {
+    return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+export function techniqueFromMarkdown(id: string, text: string, source: TemplateSource): Technique {
+    const { attributes, body } = parseFrontMatter(text);
+    const name = attributes.name || id;
+    return { id, name, description: attributes.description || (body ? `${name}: ${body}` : name), source };
+}
+
+export function templateFromMarkdown(id: string, text: string, source: TemplateSource): OptimizationTemplate {
+    const { attributes, body } = parseFrontMatter(text);
+    return {
+        id,
+        name: attributes.name || id,
+        description: attributes.description,
+        body,
+        techniques: splitList(attributes.techniques),
+        source
+    };
+}
+
+// Technique and template files as [id, text] pairs, e.g. from
+// `.promptious/techniques/*.md` and `.promptious/templates/*.md`
+export function libraryFromMarkdown(techniqueFiles: Array<[string, string]>, templateFiles: Array<[string, string]>, source: TemplateSource): Partial<TemplateLibrary> {
+    return {
+        techniques: new Map(techniqueFiles.map(([id, text]) => [id, techniqueFromMarkdown(id, text, source)])),
+        templates: new Map(templateFiles.map(([id, text]) => [id, templateFromMarkdown(id, text, source)]))
+    };
+}
+
+// Replace `{{variable}}` placeholders; unknown variables are left untouched
+export function renderTemplate(body: string, variables: Record<string, string>): string {
+    return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder);
+}
+
+// Build the meta-prompt sent to the model from a template and the prompt analysis
+export function createSmartOptimizationPrompt(
+    originalPrompt: string,
+    analysis: { type: string; complexity: string; techniques: string[] },
+    library: TemplateLibrary = createBuiltInLibrary(),
+    templateId: string = DEFAULT_TEMPLATE_ID,
+    // Dropped even when the template asks for them
+    excludedTechniques: string[] = [],
+    // The model the optimized prompt will run on
+    targetModel?: string
+): string {
+    const template = library.templates.get(templateId) || createBuiltInLibrary().templates.get(DEFAULT_TEMPLATE_ID)!;
+    const techniqueIds = [...new Set([...analysis.techniques, ...template.techniques])].filter(id => !excludedTechniques.includes(id));
+    const descriptions = techniqueIds.map(id => library.techniques.get(id)?.description || id);
+
+    const targetGuidelines = formatTargetGuidelines(targetModel);
+    const metaPrompt = renderTemplate(template.body, {
+        originalPrompt,
+        type: analysis.type,
+        complexity: analysis.complexity,
+        techniques: descriptions.map(description => `- ${description}`).join('\n'),
+        techniqueNames: techniqueIds.join(', '),
+        targetModel: targetModel?.trim() || '',
+        targetGuidelines
+    });
+    // Templates that do not place the guidelines themselves get them appended
+    return targetGuidelines && !/\{\{\s*targetGuidelines\s*\}\}/.test(template.body)
+        ? `${metaPrompt}\n\n${targetGuidelines}`
+        : metaPrompt;
+}
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { analyzePromptType, extractFeatures, scoreComplexity, scorePromptTypes } from '../../analysis';
+
+suite('Analysis Test Suite', () => {
+    test('Implementation requests are classified as coding even with other verbs', () => {
+        const analysis = analyzePromptType('Write a function to compare two version strings in TypeScript');
+
+        assert.strictEqual(analysis.type, 'coding');
+        assert.ok(analysis.scores.some(score => score.type === 'analysis'), 'comparison should still score');
+        assert.ok(analysis.scores[0].reasons.includes('asks to implement code'));
+    });
+
+    test('Scores are normalized confidences, best first', () => {
+        const scores = scorePromptTypes('Compare and evaluate the pros and cons of these two essays');
+        const total = scores.reduce((sum, score) => sum + score.confidence, 0);
+
+        assert.strictEqual(scores[0].type, 'analysis');
+        assert.ok(Math.abs(total - 1) < 1e-9);
+        assert.ok(scores.every((score, i) => i === 0 || scores[i - 1].score >= score.score));
+    });
+
+    test('Prompts without signals are general with a simple baseline', () => {
+        const analysis = analyzePromptType('hello there');
+
+        assert.strictEqual(analysis.type, 'general');
+        assert.strictEqual(analysis.complexity, 'simple');
+        assert.deepStrictEqual(analysis.techniques, ['zero-shot', 'role-definition']);
+    });
+
+    test('Features count instructions, constraints, formats, code and lists', () => {
+        const features = extractFeatures([
+            'You are a senior reviewer.',
+            'Review this code. List every bug. Do not rewrite it.',
+            'Return the result as JSON.',
+            '```ts',
+            'const a = 1',
+            '```',
+            '- style',
+            '- naming',
+            '- tests'
+        ].join('\n'));
+
+        assert.ok(features.hasRole);
+        assert.strictEqual(features.codeBlocks, 1);
+        assert.strictEqual(features.listItems, 3);
+        assert.ok(features.instructionCount >= 3);
+        assert.ok(features.constraintCount >= 1);
+        assert.ok(features.outputFormatRequests >= 1);
+    });
+
+    test('Complexity considers structure, not only length', () => {
+        const multiStep = scoreComplexity(extractFeatures('Explain the process step by step. Compare both. Summarize. Give examples.'));
+
+        assert.strictEqual(multiStep.complexity, 'complex');
+        assert.ok(multiStep.reasons.includes('describes a multi-step process'));
+    });
+
+    test('Every chosen technique carries a reason', () => {
+        const analysis = analyzePromptType('Analyze the following process and evaluate each step of the deployment pipeline for risks. List mitigations for each one.');
+
+        assert.strictEqual(analysis.type, 'analysis');
+        assert.ok(analysis.techniques.includes('self-consistency'));
+        assert.deepStrictEqual(analysis.techniqueReasons.map(choice => choice.id), analysis.techniques);
+        assert.ok(analysis.techniqueReasons.every(choice => choice.reason.length > 0));
+    });
+
+    test('Requested output format without examples suggests few-shot', () => {
+        const analysis = analyzePromptType('Summarize this article as a markdown table');
+
+        assert.strictEqual(analysis.type, 'transformation');
+        assert.ok(analysis.techniques.includes('few-shot'));
+    });
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { movePlaintextKey, PlaintextKeySetting } from '../../apiKeyMigration';
+
+suite('API Key Migration Test Suite', () => {
+    const setting = (name: string, value: string | undefined, cleared: string[]): PlaintextKeySetting => ({
+        value,
+        clear: async () => { cleared.push(name); }
+    });
+
+    test('Plaintext keys are stored once and cleared from every level', async () => {
+        const cleared: string[] = [];
+        const stored: string[] = [];
+        const migrated = await movePlaintextKey(
+            [setting('folder', 'sk-folder', cleared), setting('workspace', 'sk-workspace', cleared), setting('user', undefined, cleared)],
+            async () => false,
+            async apiKey => { stored.push(apiKey); }
+        );
+
+        assert.strictEqual(migrated, true);
+        assert.deepStrictEqual(stored, ['sk-folder']);
+        assert.deepStrictEqual(cleared, ['folder', 'workspace']);
+    });
+
+    test('A key only in workspace folder settings is migrated', async () => {
+        const cleared: string[] = [];
+        const stored: string[] = [];
+        const settings = [setting('app', undefined, cleared), setting('docs', 'sk-docs', cleared), setting('workspace', undefined, cleared), setting('user', undefined, cleared)];
+
+        assert.strictEqual(await movePlaintextKey(settings, async () => false, async apiKey => { stored.push(apiKey); }), true);
+        assert.deepStrictEqual(stored, ['sk-docs']);
+        assert.deepStrictEqual(cleared, ['docs']);
+    });
+
+    test('An existing secret is kept and nothing is cleared without a plaintext key', async () => {
+        const cleared: string[] = [];
+        const stored: string[] = [];
+
+        assert.strictEqual(await movePlaintextKey([setting('user', 'sk-user', cleared)], async () => true, async apiKey => { stored.push(apiKey); }), true);
+        assert.strictEqual(stored.length, 0);
+        assert.deepStrictEqual(cleared, ['user']);
+
+        assert.strictEqual(await movePlaintextKey([setting('user', undefined, cleared)], async () => false, async apiKey => { stored.push(apiKey); }), false);
+        assert.deepStrictEqual(cleared, ['user']);
+    });
+});
@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import { batchToMarkdown, runBatch } from '../../batch';
+import { decodeLiteral, encodeLiteral, extractPrompts } from '../../promptExtraction';
+import { ProviderError } from '../../providers';
+import { guardBatch, restoreRedactions, scanPrompt } from '../../scanner';
+import { BudgetExceededError } from '../../usage';
+
+suite('Batch Optimization Test Suite', () => {
+    const prompt = 'Summarize the following article in three bullet points for a busy executive.';
+
+    test('Prompt files are taken whole', () => {
+        assert.deepStrictEqual(extractPrompts('Write a haiku\n', 'greeting.prompt'), [
+            { kind: 'file', start: 0, end: 14, text: 'Write a haiku\n' }
+        ]);
+        assert.deepStrictEqual(extractPrompts('  \n', 'empty.prompt.md'), []);
+    });
+
+    test('Only fences tagged prompt are found in markdown', () => {
+        const text = `# Docs\n\n\`\`\`ts\nconst x = 1;\n\`\`\`\n\n\`\`\`prompt\n${prompt}\nUse plain language.\n\`\`\`\n`;
+        const spans = extractPrompts(text, 'README.md');
+
+        assert.strictEqual(spans.length, 1);
+        assert.strictEqual(spans[0].kind, 'fence');
+        assert.strictEqual(spans[0].text, `${prompt}\nUse plain language.`);
+        assert.strictEqual(text.slice(spans[0].start, spans[0].end), spans[0].text);
+    });
+
+    test('Prompt-named string literals are found and decoded', () => {
+        const text = [
+            `const systemPrompt = "You are a helpful assistant.\\nAnswer \\"briefly\\" and cite sources.";`,
+            `const label = "${prompt}";`,
+            `const config = { userPrompt: '${prompt.replace('the', "the reader\\'s")}' };`,
+            `if (prompt === "${prompt}") {}`
+        ].join('\n');
+        const spans = extractPrompts(text, 'agent.ts');
+
+        assert.deepStrictEqual(spans.map(span => [span.name, span.literal?.quote]), [['systemPrompt', '"'], ['userPrompt', "'"]]);
+        assert.strictEqual(spans[0].text, 'You are a helpful assistant.\nAnswer "briefly" and cite sources.');
+        assert.ok(spans[1].text.includes("the reader's"));
+    });
+
+    test('Python triple-quoted prompts are found', () => {
+        const text = `SYSTEM_PROMPT = """\nYou are a careful reviewer.\nPoint out bugs before style issues.\n"""\nshort_prompt = "too short"\n`;
+        const spans = extractPrompts(text, 'review.py');
+
+        assert.strictEqual(spans.length, 1);
+        assert.strictEqual(spans[0].literal?.quote, '"""');
+        assert.strictEqual(spans[0].text, 'You are a careful reviewer.\nPoint out bugs before style issues.');
+    });
+
+    test('Encoding keeps the original quoting', () => {
+        const text = 'Say "hi" to O\'Brien\nthen list `items` at C:\\temp and ${cost}';
+        for (const quote of ['"', "'", '`', '"""', "'''"]) {
+            assert.strictEqual(decodeLiteral(encodeLiteral(text, quote), quote), text, quote);
+        }
+        assert.strictEqual(encodeLiteral('line 1\nline "2"', '"'), 'line 1\\nline \\"2\\"');
+        assert.strictEqual(encodeLiteral('ends with "', '"""'), 'ends with \\"');
+        assert.strictEqual(decodeLiteral(encodeLiteral('ends with """', '"""'), '"""'), 'ends with """');
+    });
+
+    test('Escapes that are not decoded are written back unchanged', () => {
+        const literals = ['caf\\u00e9 \\u{1F600}', '\\x41\\v\\b\\f\\0', 'em \\N{EM DASH} dash', 'match \\\\d+ and \\\\u00e9'];
+        for (const raw of literals) {
+            for (const quote of ['"', '"""']) {
+                assert.strictEqual(encodeLiteral(decodeLiteral(raw, quote), quote), raw, raw);
+            }
+        }
+        assert.strictEqual(encodeLiteral(decodeLiteral('line\\nwith \\"quotes\\"', '"'), '"'), 'line\\nwith \\"quotes\\"');
+        assert.strictEqual(decodeLiteral('caf\\u00e9 \\\\d', '"'), 'caf\\u00e9 \\\\d');
+    });
+
+    test('Batches respect the concurrency limit and keep order', async () => {
+        let active = 0;
+        let peak = 0;
+        const results = await runBatch([1, 2, 3, 4, 5, 6], async item => {
+            peak = Math.max(peak, ++active);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            active--;
+            if (item === 4) {
+                throw new Error('bad prompt');
+            }
+            return item * 10;
+        }, { concurrency: 2 });
+
+        assert.strictEqual(peak, 2);
+        assert.deepStrictEqual(results.map(outcome => outcome.result ?? outcome.error), [10, 20, 30, 'bad prompt', 50, 60]);
+    });
+
+    test('Rate limits pause the batch and retry the prompt', async () => {
+        const attempts = new Map<number, number>();
+        const progress: number[] = [];
+        const results = await runBatch([1, 2, 3], async item => {
+            const attempt = (attempts.get(item) || 0) + 1;
+            attempts.set(item, attempt);
+            if (item === 2 && attempt === 1) {
+                throw new ProviderError('Rate limit exceeded.', 'rateLimit', 'Test', 429, 10);
+            }
+            return item;
+        }, { concurrency: 3, onProgress: done => progress.push(done) });
+
+        assert.deepStrictEqual(results.map(outcome => outcome.result), [1, 2, 3]);
+        assert.strictEqual(attempts.get(2), 2);
+        assert.deepStrictEqual(progress, [1, 2, 3]);
+    });
+
+    test('Budget stops end the whole batch', async () => {
+        let started = 0;
+        await assert.rejects(runBatch([1, 2, 3, 4], async () => {
+            started++;
+            throw new BudgetExceededError('Daily budget reached.');
+        }, { concurrency: 1 }), BudgetExceededError);
+        assert.strictEqual(started, 1);
+    });
+
+    test('Secrets in a batch are redacted or left out before sending', async () => {
+        // Built up so the fixture does not look like a real key to other scanners
+        const key = 'sk-' + 'test'.repeat(6);
+        const prompts = [prompt, `Call the API with ${key} and summarize the reply.`, `Email jane.doe@example.com the summary. Key: ${key}`];
+        const findings = prompts.map(text => scanPrompt(text));
+
+        const redacted = guardBatch(prompts, findings, 'redact');
+        const sent: string[] = [];
+        const outcomes = await runBatch(redacted.texts, async text => {
+            sent.push(text!);
+            return `Optimized: ${text}`;
+        }, { concurrency: 1 });
+
+        assert.ok(sent.every(text => !text.includes(key) && !text.includes('jane.doe@example.com')));
+        assert.strictEqual(sent[0], prompt);
+        assert.strictEqual(sent[1], 'Call the API with {{REDACTED_API_KEY_1}} and summarize the reply.');
+        assert.strictEqual(sent[2], 'Email {{REDACTED_EMAIL_1}} the summary. Key: {{REDACTED_API_KEY_1}}');
+        assert.strictEqual(restoreRedactions(outcomes[2].result!, redacted.redactions), `Optimized: ${prompts[2]}`);
+
+        assert.deepStrictEqual(guardBatch(prompts, findings, 'skip').texts, [prompt, undefined, undefined]);
+        assert.deepStrictEqual(guardBatch(prompts, findings, 'send').texts, prompts);
+    });
+
+    test('Dry-run report lists every prompt and its outcome', () => {
+        const markdown = batchToMarkdown({
+            timestamp: '2025-01-01T00:00:00.000Z',
+            include: '**/*.prompt',
+            provider: 'OpenAI',
+            model: 'gpt-4o',
+            entries: [
+                { file: 'a.prompt', line: 1, kind: 'file', original: 'old', optimized: 'new prompt', totalTokens: 120, cost: 0.001 },
+                { file: 'src/agent.ts', line: 4, kind: 'string', name: 'systemPrompt', original: 'x', error: 'Rate limit | exceeded' }
+            ]
+        });
+
+        assert.ok(markdown.includes('**Prompts:** 2 found, 1 optimized, 1 failed'));
+        assert.ok(markdown.includes('| `a.prompt:1` | Prompt file | 3 | 10 | 39 → 39 (0) | ✅ |'));
+        assert.ok(markdown.includes('| `src/agent.ts:4 (systemPrompt)` | String literal | 1 | — | — | ❌ Rate limit \\| exceeded |'));
+        assert.ok(markdown.includes('### a.prompt:1'));
+    });
+});
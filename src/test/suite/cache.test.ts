@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { cacheKey, describeCacheAge, FileResponseCache } from '../../cache';
+import { OptimizationOutput, runOptimization } from '../../optimizer';
+import { CompletionRequest, LLMProvider } from '../../providers';
+import { createBuiltInLibrary, DEFAULT_TEMPLATE_ID } from '../../templates';
+
+suite('Response Cache Test Suite', () => {
+    const hour = 60 * 60 * 1000;
+    let directory: string;
+    let now: number;
+
+    setup(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'promptious-cache-'));
+        now = Date.UTC(2025, 0, 1);
+    });
+
+    teardown(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const createCache = <T>(maxEntries = 10) => new FileResponseCache<T>(directory, { ttlMs: 24 * hour, maxEntries, now: () => now });
+
+    test('Entries expire after their lifetime', async () => {
+        const cache = createCache<string>();
+        await cache.set('a', 'answer');
+
+        now += 23 * hour;
+        assert.deepStrictEqual(await cache.get('a'), { value: 'answer', timestamp: Date.UTC(2025, 0, 1) });
+        now += 2 * hour;
+        assert.strictEqual(await cache.get('a'), undefined);
+        assert.deepStrictEqual(fs.readdirSync(directory), []);
+    });
+
+    test('The oldest entries are evicted beyond the entry limit', async () => {
+        const cache = createCache<number>(2);
+        for (const key of ['a', 'b', 'c']) {
+            now += hour;
+            await cache.set(key, now);
+        }
+
+        assert.strictEqual(await cache.get('a'), undefined);
+        assert.ok(await cache.get('b'));
+        assert.ok(await cache.get('c'));
+        assert.strictEqual(await cache.clear(), 2);
+        assert.strictEqual(await cache.get('c'), undefined);
+    });
+
+    test('Keys and ages are stable', () => {
+        assert.strictEqual(cacheKey(['prompt', 'gpt-4o', 0.7]), cacheKey(['prompt', 'gpt-4o', 0.7]));
+        assert.notStrictEqual(cacheKey(['prompt', 'gpt-4o', 0.7]), cacheKey(['prompt', 'gpt-4o', 0.2]));
+        assert.strictEqual(describeCacheAge(now, now + 20 * 1000), 'just now');
+        assert.strictEqual(describeCacheAge(now, now + 60 * 1000), '1 minute ago');
+        assert.strictEqual(describeCacheAge(now, now + 5 * hour), '5 hours ago');
+        assert.strictEqual(describeCacheAge(now, now + 72 * hour), '3 days ago');
+    });
+
+    test('Repeated optimizations reuse the answer until the request changes', async () => {
+        const requests: CompletionRequest[] = [];
+        const provider: LLMProvider = {
+            id: 'openai',
+            label: 'Test',
+            model: 'gpt-4o',
+            complete: async request => {
+                requests.push(request);
+                return { text: `Answer ${requests.length}`, model: 'gpt-4o', usage: { promptTokens: 100, completionTokens: 10, totalTokens: 110 } };
+            },
+            stream: async () => ({ text: '', model: 'gpt-4o' })
+        };
+        const input = {
+            prompt: 'summarize the article',
+            analysis: { type: 'general', complexity: 'simple', techniques: ['zero-shot'] },
+            library: createBuiltInLibrary(),
+            templateId: DEFAULT_TEMPLATE_ID,
+            cache: createCache<OptimizationOutput>()
+        };
+
+        const first = await runOptimization(provider, input);
+        now += hour;
+        const second = await runOptimization(provider, input);
+        const warmer = await runOptimization(provider, { ...input, temperature: 1 });
+
+        assert.strictEqual(first.cachedAt, undefined);
+        assert.strictEqual(second.text, 'Answer 1');
+        assert.strictEqual(second.cachedAt, Date.UTC(2025, 0, 1));
+        assert.deepStrictEqual(second.usage, first.usage);
+        assert.strictEqual(warmer.text, 'Answer 2');
+        assert.strictEqual(requests.length, 2);
+    });
+});
@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CliIO, EXIT_ERROR, EXIT_FAILED, EXIT_OK, main } from '../../cli';
+import { buildOptimizationInput, promptsInFile, ProviderOptions, replacePrompts } from '../../core';
+import { CompletionRequest, LLMProvider } from '../../providers';
+import { DEFAULT_TEMPLATE_ID } from '../../templates';
+
+suite('Command Line Test Suite', () => {
+    let directory: string;
+    let stdout: string[];
+    let stderr: string[];
+    let requests: CompletionRequest[];
+    let providerOptions: ProviderOptions[];
+
+    const provider: LLMProvider = {
+        id: 'openai',
+        label: 'Test',
+        model: 'gpt-4o',
+        complete: async request => {
+            requests.push(request);
+            const original = /\*\*Original prompt:\*\*\n([\s\S]*?)\n\n\*\*Optimization strategy/.exec(request.messages[0].content)?.[1] || '';
+            return { text: `You are an editor. ${original} Reply in three bullet points.`, model: 'gpt-4o' };
+        },
+        stream: async () => ({ text: '', model: 'gpt-4o' })
+    };
+
+    const io = (): CliIO => ({
+        cwd: directory,
+        env: {},
+        stdout: text => stdout.push(text),
+        stderr: text => stderr.push(text),
+        createProvider: options => {
+            providerOptions.push(options);
+            return provider;
+        }
+    });
+
+    const write = (file: string, text: string) => fs.writeFileSync(path.join(directory, file), text);
+
+    setup(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'promptious-cli-'));
+        stdout = [];
+        stderr = [];
+        requests = [];
+        providerOptions = [];
+    });
+
+    teardown(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('Lint fails on warnings by default and prints JSON', async () => {
+        write('vague.prompt', 'Handle the customer emails.');
+        write('clean.prompt', 'You are a support agent. Summarize the customer email in three bullet points.');
+
+        assert.strictEqual(await main(['lint', 'clean.prompt'], io()), EXIT_OK);
+        assert.strictEqual(await main(['lint', 'vague.prompt', '--json'], io()), EXIT_FAILED);
+        const [result] = JSON.parse(stdout[1]);
+        assert.strictEqual(result.file, 'vague.prompt');
+        assert.deepStrictEqual(result.findings[0], {
+            rule: 'vague-verb',
+            severity: 'warning',
+            message: '"Handle" is vague: describe exactly what should happen.',
+            line: 1,
+            column: 1,
+            prompt: 0
+        });
+        assert.strictEqual(await main(['lint', 'vague.prompt', '--fail-on', 'error'], io()), EXIT_OK);
+    });
+
+    test('Usage errors and unreadable files exit with 2', async () => {
+        assert.strictEqual(await main([], io()), EXIT_ERROR);
+        assert.strictEqual(await main(['lint', 'missing.prompt'], io()), EXIT_ERROR);
+        assert.strictEqual(await main(['lint', '--fail-on', 'never', 'x.prompt'], io()), EXIT_ERROR);
+        assert.strictEqual(await main(['analyze', '--frobnicate'], io()), EXIT_ERROR);
+        assert.ok(stderr.some(line => line === 'promptious: Unknown option --frobnicate'));
+    });
+
+    test('Analyze reports each prompt in a markdown file with its line', async () => {
+        write('prompts.md', '# Prompts\n\n```prompt\nWrite a Python function that parses dates.\n```\n\n```prompt\nWrite a poem about autumn.\n```\n');
+
+        assert.strictEqual(await main(['analyze', 'prompts.md', '--json'], io()), EXIT_OK);
+        const [{ prompts }] = JSON.parse(stdout[0]);
+        assert.deepStrictEqual(prompts.map((prompt: any) => [prompt.line, prompt.kind, prompt.analysis.type]), [[4, 'fence', 'coding'], [8, 'fence', 'creative']]);
+    });
+
+    test('Optimize writes snapshots in the source format using the workspace file', async () => {
+        write('.promptious.json', JSON.stringify({ presets: { ci: { provider: 'anthropic', model: 'claude-3-5-haiku-latest', temperature: 0.2 } } }));
+        write('agent.ts', 'const systemPrompt = "Summarize the support ticket for the on-call engineer.";\n');
+
+        assert.strictEqual(await main(['optimize', 'agent.ts', '--preset', 'ci', '--out-dir', 'snapshots', '--json'], io()), EXIT_OK);
+        const [result] = JSON.parse(stdout[0]);
+        assert.strictEqual(result.snapshot, path.join('snapshots', 'agent.ts'));
+        assert.strictEqual(result.prompts[0].optimized, 'You are an editor. Summarize the support ticket for the on-call engineer. Reply in three bullet points.');
+        assert.strictEqual(
+            fs.readFileSync(path.join(directory, 'snapshots', 'agent.ts'), 'utf8'),
+            'const systemPrompt = "You are an editor. Summarize the support ticket for the on-call engineer. Reply in three bullet points.";\n'
+        );
+        assert.deepStrictEqual([providerOptions[0].provider, providerOptions[0].model], ['anthropic', 'claude-3-5-haiku-latest']);
+        assert.strictEqual(requests[0].temperature, 0.2);
+    });
+
+    test('Sensitive prompts are only sent with --redact or --allow-sensitive', async () => {
+        write('reply.prompt', 'Draft a reply to jane.doe@example.com about the refund.');
+
+        assert.strictEqual(await main(['optimize', 'reply.prompt'], io()), EXIT_ERROR);
+        assert.strictEqual(requests.length, 0);
+        assert.strictEqual(await main(['optimize', 'reply.prompt', '--redact'], io()), EXIT_OK);
+        assert.ok(requests[0].messages[0].content.includes('{{REDACTED_EMAIL_1}}'));
+        assert.ok(!requests[0].messages[0].content.includes('jane.doe@example.com'));
+        assert.strictEqual(stdout[0], 'You are an editor. Draft a reply to jane.doe@example.com about the refund. Reply in three bullet points.');
+    });
+
+    test('Eval scans the prompt, the optimized prompt and every case input', async () => {
+        const key = 'sk-' + 'test'.repeat(6);
+        write('reply.prompt', 'Draft a short reply to the customer email in the input.');
+        write('optimized.prompt', `You are a support agent. Draft a short reply. Sign with ${key}.`);
+        write('cases.yaml', 'cases:\n  - name: refund\n    input: Refund my order, jane.doe@example.com\n    expect:\n      contains: editor\n');
+        const args = ['eval', 'reply.prompt', '--dataset', 'cases.yaml', '--optimized', 'optimized.prompt', '--json'];
+
+        assert.strictEqual(await main(args, io()), EXIT_ERROR);
+        assert.strictEqual(requests.length, 0);
+        assert.ok(stderr.some(line => line.includes('optimized.prompt and 1 more contain secrets')));
+
+        assert.strictEqual(await main([...args, '--redact'], io()), EXIT_OK);
+        const sent = JSON.stringify(requests.map(request => request.messages));
+        assert.ok(!sent.includes(key) && !sent.includes('jane.doe@example.com'));
+        assert.ok(sent.includes('{{REDACTED_API_KEY_1}}') && sent.includes('{{REDACTED_EMAIL_1}}'));
+        const report = JSON.parse(stdout[0]);
+        assert.strictEqual(report.versions[1].prompt, `You are a support agent. Draft a short reply. Sign with ${key}.`);
+        assert.strictEqual(report.versions[0].results[0].input, 'Refund my order, jane.doe@example.com');
+    });
+
+    test('The core falls back to the default template and rewrites spans from the end', () => {
+        const input = buildOptimizationInput('Write a haiku about rain.', { templateId: 'missing' });
+        assert.strictEqual(input.templateId, DEFAULT_TEMPLATE_ID);
+        assert.strictEqual(input.analysis.type, 'creative');
+
+        const text = 'system_prompt = "Explain the error message to a junior developer clearly."\nuser_prompt = \'Translate the release notes into German for customers.\'\n';
+        const spans = promptsInFile(text, 'prompts.py');
+        assert.strictEqual(spans.length, 2);
+        assert.strictEqual(replacePrompts(text, spans, ['Say "why" first.', 'It\'s German.']), 'system_prompt = "Say \\"why\\" first."\nuser_prompt = \'It\\\'s German.\'\n');
+    });
+});
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import { analyzePromptType } from '../../analysis';
+import { mergeOptimizedConversation, parseConversation, serializeConversation } from '../../conversation';
+import { runOptimization } from '../../optimizer';
+import { LLMProvider } from '../../providers';
+import { createBuiltInLibrary, DEFAULT_TEMPLATE_ID } from '../../templates';
+import { parseYaml, stringifyYaml } from '../../yaml';
+
+suite('Conversation Test Suite', () => {
+    const json = JSON.stringify({
+        model: 'gpt-4o',
+        messages: [
+            { role: 'system', content: 'Help with code.' },
+            { role: 'user', content: 'Write a python function to parse dates' },
+            { role: 'assistant', content: 'def parse(s): ...', name: 'example' }
+        ]
+    }, null, 2);
+
+    test('JSON, YAML and markdown conversations are recognized', () => {
+        assert.deepStrictEqual(parseConversation(json)?.messages.map(message => message.role), ['system', 'user', 'assistant']);
+
+        const yaml = parseConversation('- role: system\n  content: Be brief.\n- role: human\n  content: |\n    Explain closures\n');
+        assert.strictEqual(yaml?.format, 'yaml');
+        assert.deepStrictEqual(yaml?.messages, [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Explain closures\n' }]);
+
+        const markdown = parseConversation('# Support bot\n\n## System\n\nYou answer billing questions.\n\n## User\n\nWhy was I charged twice?\n');
+        assert.strictEqual(markdown?.format, 'markdown');
+        assert.strictEqual(markdown?.preamble, '# Support bot');
+        assert.deepStrictEqual(markdown?.messages.map(message => message.content), ['You answer billing questions.', 'Why was I charged twice?']);
+    });
+
+    test('Flat prompts and other JSON are not conversations', () => {
+        assert.strictEqual(parseConversation('Explain closures in JavaScript'), undefined);
+        assert.strictEqual(parseConversation('{"name": "not a chat"}'), undefined);
+        assert.strictEqual(parseConversation('[{"role": "user", "content": [{"type": "image_url"}]}]'), undefined);
+    });
+
+    test('Text that only looks like JSON is still read as markdown', () => {
+        const text = '[Important] Read both sections.\n\n## System\n\nYou are a release manager.\n\n## User\n\nDraft the release notes.\n';
+        const conversation = parseConversation(text);
+
+        assert.strictEqual(conversation?.format, 'markdown');
+        assert.deepStrictEqual(conversation?.messages.map(message => message.role), ['system', 'user']);
+        assert.strictEqual(conversation?.preamble, '[Important] Read both sections.');
+        assert.strictEqual(parseConversation('[Important] Keep answers short.'), undefined);
+    });
+
+    test('Optimized messages are written back in the same structure', () => {
+        const conversation = parseConversation(json)!;
+        const merged = mergeOptimizedConversation(conversation.messages, [
+            '<message index="0" role="system">\nYou are a senior Python engineer. Answer with code only.\n</message>',
+            '<message index="1" role="user">\nWrite `parse_date(text: str) -> date` accepting ISO 8601.\n</message>',
+            '<message index="2" role="assistant">\nrewritten example\n</message>'
+        ].join('\n\n'));
+        const written = JSON.parse(serializeConversation(conversation, merged));
+
+        assert.strictEqual(written.model, 'gpt-4o');
+        assert.strictEqual(written.messages[0].content, 'You are a senior Python engineer. Answer with code only.');
+        assert.strictEqual(written.messages[1].content, 'Write `parse_date(text: str) -> date` accepting ISO 8601.');
+        assert.deepStrictEqual(written.messages[2], { role: 'assistant', content: 'def parse(s): ...', name: 'example' });
+
+        const markdown = parseConversation('## System\nBe nice.\n\n## User\nHi\n')!;
+        assert.strictEqual(
+            serializeConversation(markdown, [{ role: 'system', content: 'You are friendly.' }, { role: 'user', content: 'Say hello.' }]),
+            '## System\n\nYou are friendly.\n\n## User\n\nSay hello.\n'
+        );
+    });
+
+    test('YAML output reads back as the same data', () => {
+        const value = { messages: [{ role: 'system', content: 'Line one\nLine two: detail\n' }, { role: 'user', content: 'true' }], tags: [], n: 2 };
+        assert.deepStrictEqual(parseYaml(stringifyYaml(value)), value);
+    });
+
+    test('Conversations are analyzed as a whole', () => {
+        const analysis = analyzePromptType(json);
+
+        assert.strictEqual(analysis.type, 'coding');
+        assert.deepStrictEqual(analysis.conversation, { format: 'json', roles: ['system', 'user', 'assistant'] });
+        assert.ok(analysis.features.hasExamples);
+        assert.ok(analysis.techniqueReasons.some(choice => choice.id === 'few-shot' && choice.reason.includes('1 assistant turn')));
+    });
+
+    test('The optimizer sends tagged messages and rebuilds the conversation', async () => {
+        let sent = '';
+        const provider: LLMProvider = {
+            id: 'openai',
+            label: 'Test',
+            model: 'gpt-4o',
+            complete: async request => {
+                sent = request.messages[0].content;
+                return { text: '<message index="0" role="system">\nYou are concise.\n</message>', model: 'gpt-4o' };
+            },
+            stream: async () => ({ text: '', model: 'gpt-4o' })
+        };
+
+        const prompt = '## System\nBe short.\n\n## User\nExplain DNS.';
+        const result = await runOptimization(provider, {
+            prompt,
+            analysis: analyzePromptType(prompt),
+            library: createBuiltInLibrary(),
+            templateId: DEFAULT_TEMPLATE_ID
+        });
+
+        assert.ok(sent.includes('<message index="1" role="user">\nExplain DNS.\n</message>'));
+        assert.ok(sent.includes('assistant: few-shot example answers; return them unchanged'));
+        assert.strictEqual(result.text, '## System\n\nYou are concise.\n\n## User\n\nExplain DNS.');
+    });
+});
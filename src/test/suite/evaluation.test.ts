@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { buildCaseMessages, checkOutput, evaluationToMarkdown, parseDataset, runEvaluation } from '../../evaluation';
+import { extractJson, validateJsonSchema } from '../../jsonSchema';
+import { createProvider } from '../../providers';
+import { parseYaml } from '../../yaml';
+
+suite('Evaluation Test Suite', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let respond: (messages: Array<{ role: string; content: string }>) => string;
+
+    suiteSetup(done => {
+        // Stands in for an OpenAI-compatible endpoint so the harness runs offline
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => raw += chunk);
+            req.on('end', () => {
+                const body = JSON.parse(raw);
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ model: body.model, choices: [{ message: { content: respond(body.messages) } }] }));
+            });
+        });
+        server.listen(0, '127.0.0.1', () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+            done();
+        });
+    });
+
+    suiteTeardown(done => {
+        server.closeAllConnections();
+        server.close(() => done());
+    });
+
+    test('YAML subset parses maps, lists and block scalars', () => {
+        const value = parseYaml(`
+cases:
+  - name: greeting   # comment
+    input: "Say hi"
+    expect:
+      contains: [hi, "!"]
+  - input: |
+      line one
+      line two
+    regex: /^line/i
+`);
+        assert.deepStrictEqual(value, {
+            cases: [
+                { name: 'greeting', input: 'Say hi', expect: { contains: ['hi', '!'] } },
+                { input: 'line one\nline two\n', regex: '/^line/i' }
+            ]
+        });
+    });
+
+    test('Datasets load from JSONL and YAML', () => {
+        const jsonl = parseDataset('{"input": "a", "expect": {"contains": "x"}}\n\n{"name": "second", "input": "b", "regex": "y"}\n', 'cases.jsonl');
+        assert.deepStrictEqual(jsonl, [
+            { name: 'Case 1', input: 'a', expect: { contains: 'x' } },
+            { name: 'second', input: 'b', expect: { regex: 'y' } }
+        ]);
+
+        const yaml = parseDataset('- input: hello\n  rubric: Is polite\n', 'cases.yaml');
+        assert.deepStrictEqual(yaml, [{ name: 'Case 1', input: 'hello', expect: { rubric: 'Is polite' } }]);
+
+        assert.throws(() => parseDataset('[{"input": 1}]', 'cases.json'), /"input" must be a string/);
+        assert.throws(() => parseDataset('[{"input": "a", "expect": {"contains": 5}}]', 'cases.json'), /Case 1: "contains" must be a string or a list of strings/);
+        assert.throws(() => parseDataset('- input: a\n- input: b\n  regex: [x, 1]\n', 'cases.yaml'), /Case 2: "regex" must be/);
+        assert.throws(() => parseDataset('[{"input": "a", "jsonSchema": "object"}]', 'cases.json'), /"jsonSchema" must be an object/);
+        assert.throws(() => parseDataset('[{"input": "a", "expect": "polite"}]', 'cases.json'), /"expect" must be an object/);
+    });
+
+    test('Prompts use {{input}} when present, otherwise a system message', () => {
+        assert.deepStrictEqual(buildCaseMessages('Translate: {{ input }}', 'hola'), [{ role: 'user', content: 'Translate: hola' }]);
+        assert.deepStrictEqual(buildCaseMessages('Be brief', 'hola'), [
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: 'hola' }
+        ]);
+    });
+
+    test('JSON schema checks extract JSON from fenced output', () => {
+        const schema = { type: 'object', required: ['name'], properties: { name: { type: 'string' }, age: { type: 'integer', minimum: 0 } } };
+        assert.deepStrictEqual(validateJsonSchema(extractJson('Here:\n```json\n{"name": "Ada", "age": 36}\n```'), schema), []);
+        assert.deepStrictEqual(validateJsonSchema({ age: -1 }, schema), ['$: missing required property "name"', '$.age: less than 0']);
+    });
+
+    test('Deterministic checks report each expectation', async () => {
+        const checks = await checkOutput('Hello World', {
+            name: 'case',
+            input: 'x',
+            expect: { contains: ['Hello', 'Bye'], notContains: 'Error', regex: '/world/i' }
+        });
+        assert.deepStrictEqual(checks.map(check => [check.check, check.passed]), [
+            ['contains', true],
+            ['contains', false],
+            ['notContains', true],
+            ['regex', true]
+        ]);
+    });
+
+    test('Original and optimized prompts are scored against the mock server', async () => {
+        respond = messages => {
+            const system = messages.find(message => message.role === 'system')?.content || '';
+            if (system.startsWith('You are a strict evaluator')) {
+                return messages[1].content.includes('Response:\n{"answer"') ? '{"pass": true, "reason": "ok"}' : '{"pass": false, "reason": "not JSON"}';
+            }
+            return system.includes('JSON') ? '{"answer": 4}' : 'The answer is four.';
+        };
+
+        const provider = createProvider('openaiCompatible', { baseUrl, model: 'mock' });
+        const progress: number[] = [];
+        const report = await runEvaluation(provider, {
+            original: 'Answer the question.',
+            optimized: 'Answer the question. Reply in JSON.',
+            dataset: 'math.yaml',
+            cases: [
+                { name: 'json', input: '2+2?', expect: { jsonSchema: { type: 'object', required: ['answer'] } } },
+                { name: 'judge', input: '2+2?', expect: { rubric: 'Responds with JSON' } }
+            ],
+            onProgress: done => progress.push(done)
+        });
+
+        assert.deepStrictEqual(report.versions.map(version => [version.label, version.passed, version.total]), [
+            ['original', 0, 2],
+            ['optimized', 2, 2]
+        ]);
+        assert.strictEqual(report.versions[1].results[0].output, '{"answer": 4}');
+        assert.deepStrictEqual(progress, [1, 2, 3, 4]);
+        assert.ok(evaluationToMarkdown(report).includes('| optimized | 2/2 | 100.0% |'));
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import {
+    addHistoryEntry,
+    deleteHistoryEntry,
+    filterHistory,
+    HistoryEntry,
+    historyToMarkdown,
+    readHistory,
+    sortHistory,
+    trimHistory,
+    updateHistoryEntry
+} from '../../history';
+
+// In-memory stand-in for globalState / workspaceState
+function createMemento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        }
+    } as vscode.Memento;
+}
+
+function entry(index: number, overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+    return {
+        id: `id-${index}`,
+        original: `prompt ${index}`,
+        optimized: `optimized prompt ${index}`,
+        provider: 'OpenAI',
+        model: 'gpt-4o',
+        analysis: { type: 'coding', complexity: 'simple', techniques: ['zero-shot'] },
+        timestamp: index,
+        pinned: false,
+        ...overrides
+    };
+}
+
+suite('History Test Suite', () => {
+    test('Retention limit drops the oldest unpinned entries', () => {
+        const entries = [entry(3), entry(2), entry(1, { pinned: true }), entry(0)];
+        const trimmed = trimHistory(entries, 2);
+
+        assert.deepStrictEqual(trimmed.map(e => e.id), ['id-3', 'id-1']);
+    });
+
+    test('Pinned entries survive even when they exceed the limit', () => {
+        const entries = [entry(2, { pinned: true }), entry(1, { pinned: true }), entry(0)];
+        assert.deepStrictEqual(trimHistory(entries, 1).map(e => e.id), ['id-2', 'id-1']);
+    });
+
+    test('Search matches prompt text, model and techniques', () => {
+        const entries = [entry(1), entry(2, { model: 'claude-3-5-haiku-latest', analysis: { type: 'analysis', complexity: 'complex', techniques: ['chain-of-thought'] } })];
+
+        assert.strictEqual(filterHistory(entries, 'PROMPT 1').length, 1);
+        assert.strictEqual(filterHistory(entries, 'claude')[0].id, 'id-2');
+        assert.strictEqual(filterHistory(entries, 'chain-of').length, 1);
+        assert.strictEqual(filterHistory(entries, '  ').length, 2);
+    });
+
+    test('Pinned entries sort before newer ones', () => {
+        const sorted = sortHistory([entry(1), entry(3), entry(2, { pinned: true })]);
+        assert.deepStrictEqual(sorted.map(e => e.id), ['id-2', 'id-3', 'id-1']);
+    });
+
+    test('Entries can be added, updated and deleted', async () => {
+        const state = createMemento();
+        const base = { original: 'a', optimized: 'b', provider: 'Ollama', model: 'llama3.1', analysis: { type: 'general', complexity: 'simple', techniques: [] } };
+
+        const first = await addHistoryEntry(state, base, 100);
+        await addHistoryEntry(state, { ...base, original: 'c' }, 100);
+        assert.strictEqual(readHistory(state).length, 2);
+        assert.strictEqual(readHistory(state)[0].original, 'c');
+
+        await updateHistoryEntry(state, first.id, { pinned: true });
+        assert.ok(readHistory(state).find(e => e.id === first.id)?.pinned);
+
+        await deleteHistoryEntry(state, first.id);
+        assert.deepStrictEqual(readHistory(state).map(e => e.original), ['c']);
+    });
+
+    test('Markdown export includes prompts and techniques', () => {
+        const markdown = historyToMarkdown([entry(1, { usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } })]);
+
+        assert.ok(markdown.includes('# Prompt Optimization Results'));
+        assert.ok(markdown.includes('prompt 1'));
+        assert.ok(markdown.includes('optimized prompt 1'));
+        assert.ok(markdown.includes('- zero-shot'));
+        assert.ok(markdown.includes('15 tokens'));
+    });
+});
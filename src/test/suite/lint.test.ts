@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { lintPrompt } from '../../lint';
+
+suite('Lint Test Suite', () => {
+    const rules = (text: string) => lintPrompt(text).map(finding => finding.rule);
+
+    test('A well-formed prompt has no findings', () => {
+        const text = 'You are a senior TypeScript reviewer. Review the diff below for bugs. Respond with a markdown list of at most 5 items.';
+        assert.deepStrictEqual(lintPrompt(text), []);
+    });
+
+    test('Missing role and output format come with deterministic fixes', () => {
+        const findings = lintPrompt('Summarize this article.');
+        const role = findings.find(finding => finding.rule === 'missing-role');
+        const format = findings.find(finding => finding.rule === 'missing-output-format');
+
+        assert.ok(role?.fix && role.fix.start === 0);
+        assert.ok(format?.fix && format.fix.start === 'Summarize this article.'.length);
+    });
+
+    test('Vague verbs are located precisely', () => {
+        const text = 'You are an editor. Improve the text and return it as markdown.';
+        const vague = lintPrompt(text).find(finding => finding.rule === 'vague-verb');
+
+        assert.ok(vague);
+        assert.strictEqual(text.slice(vague.start, vague.end), 'Improve');
+    });
+
+    test('Open-ended length is flagged only without a limit', () => {
+        assert.ok(rules('You are a historian. Explain the war in detail as markdown.').includes('unbounded-length'));
+        assert.ok(!rules('You are a historian. Explain the war in detail in 200 words as markdown.').includes('unbounded-length'));
+    });
+
+    test('Conflicting instructions point at both sides', () => {
+        const text = 'You are a writer. Be brief. Give a detailed answer in markdown.';
+        const conflict = lintPrompt(text).find(finding => finding.rule === 'conflicting-instructions');
+
+        assert.ok(conflict?.related);
+        assert.strictEqual(text.slice(conflict.start, conflict.end), 'detailed');
+        assert.strictEqual(text.slice(conflict.related.start, conflict.related.end), 'brief');
+    });
+
+    test('Unfilled placeholders are reported', () => {
+        const findings = lintPrompt('You are a translator. Translate {{ text }} into {{language}} and reply with plain text.')
+            .filter(finding => finding.rule === 'unfilled-placeholder');
+        assert.strictEqual(findings.length, 2);
+    });
+
+    test('Severity overrides can change or disable rules', () => {
+        const findings = lintPrompt('Summarize this.', { 'missing-role': 'off', 'missing-output-format': 'error' });
+
+        assert.ok(!findings.some(finding => finding.rule === 'missing-role'));
+        assert.strictEqual(findings.find(finding => finding.rule === 'missing-output-format')?.severity, 'error');
+    });
+});
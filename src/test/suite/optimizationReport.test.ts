@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { optimizationReportToMarkdown, parseStructuredOptimization, StructuredOptimization } from '../../optimizationReport';
+import { runOptimization } from '../../optimizer';
+import { CompletionRequest, LLMProvider, ProviderError } from '../../providers';
+import { createBuiltInLibrary, DEFAULT_TEMPLATE_ID } from '../../templates';
+
+suite('Optimization Report Test Suite', () => {
+    const answer: StructuredOptimization = {
+        optimized_prompt: 'You are a historian. Summarize {topic} in three bullet points.',
+        changes: [{ change: 'Added a role', reason: 'Sets the expertise' }],
+        applied_techniques: [{ name: 'Role Definition', description: 'The model answers as a historian' }],
+        weaknesses: ['No output format'],
+        improvement_score: 0.8,
+        explanation: 'The prompt now states who answers and in what form.'
+    };
+
+    function fakeProvider(text: string, requests: CompletionRequest[] = []): LLMProvider {
+        return {
+            id: 'openai',
+            label: 'Test',
+            model: 'gpt-4o',
+            complete: async request => {
+                requests.push(request);
+                return { text, model: 'gpt-4o' };
+            },
+            stream: async () => ({ text: '', model: 'gpt-4o' })
+        };
+    }
+
+    const input = {
+        prompt: 'summarize {topic}',
+        analysis: { type: 'general', complexity: 'simple', techniques: ['zero-shot'] },
+        library: createBuiltInLibrary(),
+        templateId: DEFAULT_TEMPLATE_ID,
+        structured: true
+    };
+
+    test('Structured answers are parsed and checked against the schema', () => {
+        assert.deepStrictEqual(parseStructuredOptimization('Here you go:\n```json\n' + JSON.stringify({ ...answer, improvement_score: 1.4 }) + '\n```'), { ...answer, improvement_score: 1 });
+        assert.throws(() => parseStructuredOptimization(JSON.stringify({ ...answer, changes: 'many' })), /\$\.changes: expected array/);
+        assert.throws(() => parseStructuredOptimization('I optimized it.'), /valid JSON/);
+    });
+
+    test('Structured mode asks for the schema and returns the prompt and rationale', async () => {
+        const requests: CompletionRequest[] = [];
+        const result = await runOptimization(fakeProvider(JSON.stringify(answer), requests), input);
+
+        assert.strictEqual(requests[0].responseFormat?.name, 'prompt_optimization');
+        assert.ok(requests[0].messages[0].content.endsWith('"explanation": "a short summary"\n}'));
+        assert.strictEqual(result.text, answer.optimized_prompt);
+        assert.deepStrictEqual(result.structured, answer);
+    });
+
+    test('Answers that are not structured are invalid responses', async () => {
+        await assert.rejects(runOptimization(fakeProvider('You are a historian.'), input), (error: unknown) =>
+            error instanceof ProviderError && error.kind === 'invalidResponse' && /did not return a valid structured answer/.test(error.message));
+    });
+
+    test('The report lists techniques, changes, weaknesses and next steps', () => {
+        const markdown = optimizationReportToMarkdown('summarize {topic}', answer.optimized_prompt, answer, {
+            provider: 'OpenAI',
+            model: 'gpt-4o',
+            timestamp: Date.UTC(2025, 0, 1),
+            usage: { promptTokens: 300, completionTokens: 120, totalTokens: 420 }
+        });
+
+        assert.ok(markdown.startsWith('# Prompt Optimization Results'));
+        assert.ok(markdown.includes('**Improvement Score:** 80.0% (self-rated)'));
+        assert.ok(markdown.includes('## Applied Techniques\n- **Role Definition**: The model answers as a historian'));
+        assert.ok(markdown.includes('## Changes\n- Added a role — Sets the expertise'));
+        assert.ok(markdown.includes('## Weaknesses Found\n- No output format'));
+        assert.ok(markdown.includes('## Explanation\nThe prompt now states who answers and in what form.'));
+        assert.ok(markdown.includes('## Next Steps'));
+    });
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { runOptimization } from '../../optimizer';
+import { checkPlaceholders, extractPlaceholders, PlaceholderMismatchError, repairPlaceholders } from '../../placeholders';
+import { CompletionRequest, LLMProvider } from '../../providers';
+import { createBuiltInLibrary, DEFAULT_TEMPLATE_ID } from '../../templates';
+
+suite('Placeholders Test Suite', () => {
+    const prompt = 'Answer {{question}} about {product} for $USER_NAME using ${locale}.\n<context>\n{{docs}}\n</context>';
+
+    function fakeProvider(answers: string[], requests: CompletionRequest[] = []): LLMProvider {
+        return {
+            id: 'openai',
+            label: 'Test',
+            model: 'gpt-4o',
+            complete: async request => {
+                requests.push(request);
+                return { text: answers.shift() || '', model: 'gpt-4o', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } };
+            },
+            stream: async () => ({ text: '', model: 'gpt-4o' })
+        };
+    }
+
+    const input = (policy = {}) => ({
+        prompt,
+        analysis: { type: 'general', complexity: 'simple', techniques: ['zero-shot'] },
+        library: createBuiltInLibrary(),
+        templateId: DEFAULT_TEMPLATE_ID,
+        policy
+    });
+
+    test('Every syntax is found once, in order', () => {
+        assert.deepStrictEqual(extractPlaceholders(prompt).map(placeholder => [placeholder.syntax, placeholder.text]), [
+            ['mustache', '{{question}}'],
+            ['brace', '{product}'],
+            ['dollar', '$USER_NAME'],
+            ['dollar', '${locale}'],
+            ['xml', '<context>'],
+            ['mustache', '{{docs}}']
+        ]);
+        assert.deepStrictEqual(extractPlaceholders('Return {"name": string} costing $5 to <b@example.com>'), []);
+        assert.deepStrictEqual(extractPlaceholders(prompt, { syntaxes: ['xml'], patterns: ['\\[\\[(\\w+)\\]\\]'] }).map(placeholder => placeholder.name), ['context']);
+        assert.deepStrictEqual(extractPlaceholders('Use [[topic]] and {x}', { syntaxes: [], patterns: ['\\[\\[(\\w+)\\]\\]', '(['] }), [
+            { syntax: 'pattern:0', name: 'topic', text: '[[topic]]' }
+        ]);
+    });
+
+    test('Missing, renamed and added placeholders are told apart', () => {
+        const check = checkPlaceholders(prompt, 'Answer {{ Question }} about {product_name} for $USER_NAME in {{lang}} with {{tone}}.\n<background>\n</background>');
+        const texts = (list: Array<{ text: string }>) => list.map(placeholder => placeholder.text);
+
+        assert.deepStrictEqual(check.renamed.map(({ from, to }) => [from.text, to.text]), [
+            ['{{question}}', '{{ Question }}'],
+            ['{product}', '{product_name}'],
+            ['<context>', '<background>']
+        ]);
+        assert.deepStrictEqual(texts(check.missing), ['${locale}', '{{docs}}']);
+        assert.deepStrictEqual(texts(check.added), ['{{lang}}', '{{tone}}']);
+    });
+
+    test('Renamed placeholders are put back', () => {
+        const optimized = 'Use <background lang="en">{{topic}}</background>.';
+        const check = checkPlaceholders('Use <context>{{docs}}</context>.', optimized);
+
+        assert.strictEqual(repairPlaceholders(optimized, check), 'Use <context lang="en">{{docs}}</context>.');
+    });
+
+    test('The meta-prompt asks for the placeholders and renames are repaired without a retry', async () => {
+        const requests: CompletionRequest[] = [];
+        const provider = fakeProvider(['Answer {{Question}} about {product} for $USER_NAME using ${locale}.\n<context>{{docs}}</context>'], requests);
+        const result = await runOptimization(provider, input());
+
+        assert.strictEqual(requests.length, 1);
+        assert.ok(requests[0].messages[0].content.includes('Keep these placeholders exactly as written, each at least once: `{{question}}`, `{product}`'));
+        assert.ok(result.text.startsWith('Answer {{question}} about'));
+        assert.strictEqual(result.placeholders?.repaired.length, 1);
+        assert.strictEqual(result.placeholders?.unresolved, undefined);
+    });
+
+    test('Dropped placeholders get one corrective retry', async () => {
+        const requests: CompletionRequest[] = [];
+        const fixed = 'You answer {{question}} about {product} for $USER_NAME in ${locale}.\n<context>{{docs}}</context>';
+        const provider = fakeProvider(['You answer {{question}} about {product}.', fixed], requests);
+        const result = await runOptimization(provider, input());
+
+        assert.strictEqual(requests.length, 2);
+        assert.deepStrictEqual(requests[1].messages.map(message => message.role), ['user', 'assistant', 'user']);
+        assert.ok(requests[1].messages[2].content.includes('missing $USER_NAME, ${locale}, <context>, {{docs}}'));
+        assert.strictEqual(result.text, fixed);
+        assert.strictEqual(result.usage?.totalTokens, 30);
+        assert.deepStrictEqual(result.placeholders, { repaired: [], retried: true, unresolved: undefined });
+    });
+
+    test('Reject mode fails and warn mode only reports', async () => {
+        const broken = 'Answer the question about the product.';
+        await assert.rejects(runOptimization(fakeProvider([broken, broken]), input({ placeholders: { onMismatch: 'reject' } })), PlaceholderMismatchError);
+
+        const requests: CompletionRequest[] = [];
+        const result = await runOptimization(fakeProvider([broken], requests), input({ placeholders: { onMismatch: 'warn' } }));
+        assert.strictEqual(requests.length, 1);
+        assert.strictEqual(result.text, broken);
+        assert.strictEqual(result.placeholders?.unresolved?.missing.length, 6);
+    });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { extractPrompts, formatForSource } from '../../promptExtraction';
+
+suite('Prompt Extraction Test Suite', () => {
+    test('Chat message content is detected with its role', () => {
+        const text = `const response = await client.chat.completions.create({
+    model: 'gpt-4o',
+    messages: [
+        { role: 'system', content: 'You are a support agent for Acme. Answer politely and briefly.' },
+        { role: 'user', content: question }
+    ]
+});`;
+        const spans = extractPrompts(text, 'support.ts');
+
+        assert.strictEqual(spans.length, 1);
+        assert.strictEqual(spans[0].name, 'system message');
+        assert.strictEqual(spans[0].text, 'You are a support agent for Acme. Answer politely and briefly.');
+    });
+
+    test('SDK calls and message tuples are detected in Python', () => {
+        const text = `prompt = ChatPromptTemplate.from_messages([
+    ("system", "You are a travel planner who suggests realistic itineraries."),
+    ("human", "{question}"),
+])
+messages = [SystemMessage(content="Translate the user's text into formal German, keeping names.")]
+template = PromptTemplate.from_template("Write a product description for {product} in under 50 words.")
+`;
+        const spans = extractPrompts(text, 'chain.py');
+
+        assert.deepStrictEqual(spans.map(span => span.name), ['system message', 'system message', 'from_template']);
+    });
+
+    test('Bare prompt, instructions and system names are detected', () => {
+        const typescript = `const prompt = "Summarize the incident report for the on-call engineer.";
+let instructions = 'Reply in German and keep every answer under 100 words.';`;
+        assert.deepStrictEqual(extractPrompts(typescript, 'agent.ts').map(span => [span.name, span.text]), [
+            ['prompt', 'Summarize the incident report for the on-call engineer.'],
+            ['instructions', 'Reply in German and keep every answer under 100 words.']
+        ]);
+
+        const python = 'agent = Agent(model="gpt-4o", system="You are a careful code reviewer who explains every finding.")';
+        assert.deepStrictEqual(extractPrompts(python, 'agent.py').map(span => span.name), ['system']);
+    });
+
+    test('Template literal interpolations survive the round trip', () => {
+        const text = 'const systemPrompt = `You help ${user.name} write \\`SQL\\` queries for the ${db} database.`;';
+        const [span] = extractPrompts(text, 'sql.ts');
+
+        assert.strictEqual(span.text, 'You help ${user.name} write `SQL` queries for the ${db} database.');
+        assert.deepStrictEqual(span.literal?.placeholders, ['${user.name}', '${db}']);
+        assert.strictEqual(
+            formatForSource(span, 'You are a SQL expert. Help ${user.name} write `SQL` for ${db}. Invent no ${tables}.'),
+            'You are a SQL expert. Help ${user.name} write \\`SQL\\` for ${db}. Invent no \\${tables}.'
+        );
+    });
+
+    test('f-string placeholders and literal braces are preserved', () => {
+        const text = 'user_prompt = f"Summarize {document} as JSON like {{\\"title\\": ...}} in {language} please"';
+        const [span] = extractPrompts(text, 'summarize.py');
+
+        assert.strictEqual(span.text, 'Summarize {document} as JSON like {"title": ...} in {language} please');
+        assert.strictEqual(
+            formatForSource(span, 'Summarize {document} in {language}. Reply with {"title": string}.'),
+            'Summarize {document} in {language}. Reply with {{\\"title\\": string}}.'
+        );
+    });
+
+    test('Indentation of multi-line literals is removed and restored', () => {
+        const text = [
+            'class Reviewer:',
+            '    SYSTEM_PROMPT = """',
+            '        You review pull requests.',
+            '          - Point out bugs first',
+            '        Keep it short.',
+            '    """'
+        ].join('\n');
+        const [span] = extractPrompts(text, 'reviewer.py');
+
+        assert.strictEqual(span.text, 'You review pull requests.\n  - Point out bugs first\nKeep it short.');
+        assert.strictEqual(
+            formatForSource(span, '\nYou are a senior reviewer.\n\nList bugs before style issues.\n'),
+            '\n        You are a senior reviewer.\n\n        List bugs before style issues.\n    '
+        );
+    });
+
+    test('Single-line literals stay on one line', () => {
+        const text = `const SYSTEM_PROMPT = 'Answer questions about the refund policy in a friendly tone.';`;
+        const [span] = extractPrompts(text, 'policy.js');
+
+        assert.strictEqual(formatForSource(span, "Answer refund questions.\nDon't promise refunds."), "Answer refund questions.\\nDon\\'t promise refunds.");
+    });
+});
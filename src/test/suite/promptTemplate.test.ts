@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import {
+    fixtureSkeleton,
+    mapToTemplate,
+    parseFixture,
+    parseTemplate,
+    renderTemplate,
+    TemplateSyntaxError,
+    templateVariables
+} from '../../promptTemplate';
+
+suite('Prompt Template Test Suite', () => {
+    const handlebars = `You are a {{role}} writing for {{audience | default("customers")}}.
+{{#if formal}}
+Use a formal tone.
+{{else}}
+Keep it casual.
+{{/if}}
+Rules:
+{{#each rules}}
+{{@index}}. {{this}}
+{{/each}}
+{{! internal note }}
+Ticket: {{ticket.title | upper}}`;
+
+    test('Renders Handlebars conditionals, loops and filters without blank tag lines', () => {
+        const result = renderTemplate(parseTemplate(handlebars), {
+            role: 'support engineer',
+            formal: true,
+            rules: ['Be brief', 'Cite the ticket'],
+            ticket: { title: 'login fails' }
+        });
+
+        assert.strictEqual(result.text, `You are a support engineer writing for customers.
+Use a formal tone.
+Rules:
+0. Be brief
+1. Cite the ticket
+Ticket: LOGIN FAILS`);
+        assert.deepStrictEqual(result.missing, []);
+    });
+
+    test('Renders Jinja blocks and keeps the tags of missing values', () => {
+        const template = parseTemplate(`{% if urgent %}URGENT: {% elif not draft %}Final: {% else %}Draft: {% endif %}{{ subject }}
+{% for step in steps %}{{ loop.index }}) {{ step.name }}{% if not loop.last %}, {% endif %}{% else %}No steps{% endfor %}`);
+
+        assert.strictEqual(renderTemplate(template, { draft: false, steps: [{ name: 'read' }, { name: 'reply' }] }).text, 'Final: {{ subject }}\n1) read, 2) reply');
+        const empty = renderTemplate(template, { draft: true, subject: 'Refund' }, { missing: 'empty' });
+        assert.strictEqual(empty.text, 'Draft: Refund\nNo steps');
+        assert.deepStrictEqual(empty.missing, ['steps']);
+    });
+
+    test('Syntax errors name the line', () => {
+        assert.throws(() => parseTemplate('Hello\n{{#if ready}}\nGo'), (error: unknown) =>
+            error instanceof TemplateSyntaxError && error.line === 1 && /add \{\{\/if\}\}/.test(error.message));
+        assert.throws(() => parseTemplate('{% for x in xs %}{{/each}}'), /closes a block opened with for/);
+        assert.throws(() => parseTemplate('{{ name | shout }}'), /Unknown filter "shout"/);
+    });
+
+    test('Variables describe the values a fixture needs', () => {
+        const template = parseTemplate(`{{#if verbose}}{{greeting}}{{/if}}
+{% for item in items %}{{ item.sku }} x{{ item.count }}{% endfor %}
+{{#each tags}}{{this}}{{/each}} {{customer.name}}`);
+        const variables = templateVariables(template);
+
+        assert.deepStrictEqual(variables.map(variable => [variable.name, variable.kind, variable.fields]), [
+            ['verbose', 'flag', []],
+            ['greeting', 'text', []],
+            ['items', 'list', ['sku', 'count']],
+            ['tags', 'list', []],
+            ['customer', 'text', ['name']]
+        ]);
+        assert.deepStrictEqual(fixtureSkeleton(variables), {
+            verbose: false,
+            greeting: '',
+            items: [{ sku: '', count: '' }],
+            tags: [''],
+            customer: { name: '' }
+        });
+        assert.deepStrictEqual(parseFixture('greeting: Hi\ntags:\n  - a\n', 'x.prompt.fixture.yaml'), { greeting: 'Hi', tags: ['a'] });
+        assert.throws(() => parseFixture('[1]', 'x.prompt.fixture.json'), /must contain a map/);
+    });
+
+    test('Optimized text is mapped back onto the template', () => {
+        const template = parseTemplate('Summarize {{topic}} for me.\n{{#each points}}- Mention {{this}}\n{{/each}}Answer quickly.');
+        const rendered = renderTemplate(template, { topic: 'the outage', points: ['cause', 'impact'] });
+        assert.strictEqual(rendered.text, 'Summarize the outage for me.\n- Mention cause\n- Mention impact\nAnswer quickly.');
+
+        const mapping = mapToTemplate(
+            template,
+            rendered,
+            'Write a short summary of the outage, for an engineer.\n- Explain cause\n- Explain impact\nAnswer in three bullet points.'
+        );
+
+        assert.strictEqual(mapping.template, 'Write a short summary of {{topic}}, for an engineer.\n{{#each points}}- Explain {{this}}\n{{/each}}Answer in three bullet points.');
+        assert.strictEqual(mapping.applied, 6);
+        assert.deepStrictEqual(mapping.skipped, []);
+    });
+
+    test('Changes to supplied values and diverging loop repeats are skipped', () => {
+        const template = parseTemplate('Review {{file}} carefully.\n{{#each checks}}Check {{this}}.\n{{/each}}');
+        const rendered = renderTemplate(template, { file: 'main.ts', checks: ['naming', 'tests'] });
+
+        const mapping = mapToTemplate(template, rendered, 'Review app.ts carefully.\nVerify naming.\nConfirm tests.\n');
+
+        assert.strictEqual(mapping.template, 'Review {{file}} carefully.\n{{#each checks}}Verify {{this}}.\n{{/each}}');
+        assert.deepStrictEqual(mapping.skipped, [{ removed: 'main.ts', added: 'app.ts' }, { removed: 'Check', added: 'Confirm' }]);
+    });
+});
@@ -0,0 +1,201 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createProvider, ProviderError } from '../../providers';
+
+suite('Provider Test Suite', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let handler: (req: http.IncomingMessage, body: any, res: http.ServerResponse) => void;
+
+    const reply = (res: http.ServerResponse, status: number, payload: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+    };
+
+    suiteSetup(done => {
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => raw += chunk);
+            req.on('end', () => handler(req, raw ? JSON.parse(raw) : undefined, res));
+        });
+        server.listen(0, '127.0.0.1', () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            done();
+        });
+    });
+
+    suiteTeardown(done => {
+        server.closeAllConnections();
+        server.close(() => done());
+    });
+
+    const request = {
+        messages: [
+            { role: 'system' as const, content: 'be brief' },
+            { role: 'user' as const, content: 'hello' }
+        ],
+        maxTokens: 100,
+        temperature: 0.5
+    };
+
+    test('OpenAI-compatible provider parses choices and usage', async () => {
+        handler = (req, body, res) => {
+            assert.strictEqual(req.url, '/v1/chat/completions');
+            assert.strictEqual(req.headers.authorization, 'Bearer sk-test');
+            assert.strictEqual(body.model, 'gpt-4o');
+            reply(res, 200, {
+                model: 'gpt-4o',
+                choices: [{ message: { content: '  optimized  ' } }],
+                usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 }
+            });
+        };
+
+        const provider = createProvider('openai', { apiKey: 'sk-test', baseUrl: `${baseUrl}/v1`, model: 'gpt-4o' });
+        const result = await provider.complete(request);
+
+        assert.strictEqual(result.text, 'optimized');
+        assert.deepStrictEqual(result.usage, { promptTokens: 3, completionTokens: 2, totalTokens: 5 });
+    });
+
+    test('Azure provider routes by deployment and api-version', async () => {
+        handler = (req, body, res) => {
+            assert.strictEqual(req.url, '/openai/deployments/my-gpt/chat/completions?api-version=2024-02-01');
+            assert.strictEqual(req.headers['api-key'], 'azure-key');
+            assert.strictEqual(body.model, undefined);
+            reply(res, 200, { choices: [{ message: { content: 'azure result' } }] });
+        };
+
+        const provider = createProvider('azure', {
+            apiKey: 'azure-key',
+            baseUrl,
+            model: '',
+            deployment: 'my-gpt',
+            apiVersion: '2024-02-01'
+        });
+
+        assert.strictEqual((await provider.complete(request)).text, 'azure result');
+    });
+
+    test('JSON schemas are sent as response_format', async () => {
+        const schema = { type: 'object', properties: { answer: { type: 'string' } }, required: ['answer'], additionalProperties: false };
+        handler = (req, body, res) => {
+            assert.deepStrictEqual(body.response_format, { type: 'json_schema', json_schema: { name: 'reply', schema, strict: true } });
+            reply(res, 200, { choices: [{ message: { content: '{"answer": "42"}' } }] });
+        };
+
+        const provider = createProvider('ollama', { baseUrl: `${baseUrl}/v1`, model: 'llama3.1' });
+        assert.strictEqual((await provider.complete({ ...request, responseFormat: { name: 'reply', schema } })).text, '{"answer": "42"}');
+    });
+
+    test('Anthropic provider sends system prompt separately', async () => {
+        handler = (req, body, res) => {
+            assert.strictEqual(req.url, '/v1/messages');
+            assert.strictEqual(req.headers['x-api-key'], 'claude-key');
+            assert.strictEqual(body.system, 'be brief');
+            assert.deepStrictEqual(body.messages, [{ role: 'user', content: 'hello' }]);
+            reply(res, 200, {
+                content: [{ type: 'text', text: 'claude result' }],
+                usage: { input_tokens: 4, output_tokens: 6 }
+            });
+        };
+
+        const provider = createProvider('anthropic', { apiKey: 'claude-key', baseUrl, model: 'claude-3-5-haiku-latest' });
+        const result = await provider.complete(request);
+
+        assert.strictEqual(result.text, 'claude result');
+        assert.strictEqual(result.usage?.totalTokens, 10);
+    });
+
+    test('HTTP failures are normalized into ProviderError', async () => {
+        const cases: Array<[number, string]> = [[401, 'auth'], [429, 'rateLimit'], [404, 'notFound'], [500, 'server'], [400, 'badRequest']];
+
+        for (const [status, kind] of cases) {
+            handler = (_req, _body, res) => reply(res, status, { error: { message: 'nope' } });
+
+            for (const id of ['openai', 'anthropic'] as const) {
+                const provider = createProvider(id, { apiKey: 'key', baseUrl, model: 'm', http: { maxRetries: 0 } });
+                await assert.rejects(provider.complete(request), (error: unknown) => {
+                    assert.ok(error instanceof ProviderError);
+                    assert.strictEqual(error.kind, kind);
+                    assert.strictEqual(error.status, status);
+                    return true;
+                });
+            }
+        }
+    });
+
+    test('Empty choices array is reported as an invalid response', async () => {
+        handler = (_req, _body, res) => reply(res, 200, { choices: [] });
+
+        const provider = createProvider('ollama', { baseUrl, model: 'llama3.1' });
+        await assert.rejects(provider.complete(request), (error: unknown) =>
+            error instanceof ProviderError && error.kind === 'invalidResponse');
+    });
+
+    test('Unreachable servers are reported as network errors', async () => {
+        const provider = createProvider('openaiCompatible', { baseUrl: 'http://127.0.0.1:1', model: 'local' });
+        await assert.rejects(provider.complete(request), (error: unknown) =>
+            error instanceof ProviderError && error.kind === 'network');
+    });
+
+    const streamEvents = (res: http.ServerResponse, events: string[]) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        // Split mid-event to exercise buffering across chunks
+        const payload = events.join('');
+        res.write(payload.slice(0, 7));
+        res.end(payload.slice(7));
+    };
+
+    test('OpenAI-compatible provider streams deltas', async () => {
+        handler = (_req, body, res) => {
+            assert.strictEqual(body.stream, true);
+            streamEvents(res, [
+                `data: ${JSON.stringify({ choices: [{ delta: { content: 'Hello' } }] })}\n\n`,
+                `data: ${JSON.stringify({ choices: [{ delta: { content: ' world' } }] })}\n\n`,
+                'data: [DONE]\n\n'
+            ]);
+        };
+
+        const deltas: string[] = [];
+        const provider = createProvider('openai', { apiKey: 'key', baseUrl, model: 'gpt-4o' });
+        const result = await provider.stream(request, delta => deltas.push(delta));
+
+        assert.deepStrictEqual(deltas, ['Hello', ' world']);
+        assert.strictEqual(result.text, 'Hello world');
+    });
+
+    test('Anthropic provider streams text deltas and usage', async () => {
+        handler = (_req, body, res) => {
+            assert.strictEqual(body.stream, true);
+            streamEvents(res, [
+                `event: message_start\ndata: ${JSON.stringify({ type: 'message_start', message: { model: 'claude', usage: { input_tokens: 7 } } })}\n\n`,
+                `event: content_block_delta\ndata: ${JSON.stringify({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi' } })}\n\n`,
+                `event: message_delta\ndata: ${JSON.stringify({ type: 'message_delta', usage: { output_tokens: 1 } })}\n\n`,
+                `event: message_stop\ndata: ${JSON.stringify({ type: 'message_stop' })}\n\n`
+            ]);
+        };
+
+        const deltas: string[] = [];
+        const provider = createProvider('anthropic', { apiKey: 'key', baseUrl, model: 'claude' });
+        const result = await provider.stream(request, delta => deltas.push(delta));
+
+        assert.deepStrictEqual(deltas, ['Hi']);
+        assert.deepStrictEqual(result.usage, { promptTokens: 7, completionTokens: 1, totalTokens: 8 });
+    });
+
+    test('Aborting a stream is reported as cancelled', async () => {
+        handler = (_req, _body, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'partial' } }] })}\n\n`);
+            // Never finish; the client aborts
+        };
+
+        const controller = new AbortController();
+        const provider = createProvider('openai', { apiKey: 'key', baseUrl, model: 'gpt-4o' });
+        const pending = provider.stream({ ...request, signal: controller.signal }, () => controller.abort());
+
+        await assert.rejects(pending, (error: unknown) =>
+            error instanceof ProviderError && error.kind === 'cancelled');
+    });
+});
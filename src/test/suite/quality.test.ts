@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { CompletionRequest, LLMProvider } from '../../providers';
+import {
+    combinedScore,
+    compareQuality,
+    formatQualityChange,
+    judgePromptQuality,
+    parseJudgeScore,
+    qualityComparisonToMarkdown,
+    qualityTrendToMarkdown,
+    scorePrompt,
+    toQualityRecord
+} from '../../quality';
+
+suite('Quality Score Test Suite', () => {
+    const vague = 'Handle the customer emails and make it better, etc.';
+    const structured = `You are a senior support engineer writing for customers.
+
+Task:
+Summarize the ticket below for the on-call engineer.
+
+Rules:
+- Use at most 5 bullet points.
+- Never include customer email addresses.
+- Only mention facts from the ticket.
+
+Output format: a markdown list, followed by one line "Severity: <low|medium|high>".
+
+Example output:
+- Login fails after the 2.3 update
+Severity: high`;
+
+    test('Scores are deterministic and explain each dimension', () => {
+        const score = scorePrompt(vague);
+
+        assert.deepStrictEqual(scorePrompt(vague), score);
+        assert.deepStrictEqual(Object.keys(score.dimensions), ['clarity', 'specificity', 'structure', 'constraints', 'outputFormat', 'examples', 'ambiguity']);
+        assert.ok(score.dimensions.clarity.notes[0].startsWith('3 vague phrases'));
+        assert.deepStrictEqual(score.dimensions.outputFormat, { score: 0, notes: ['Does not say what the response should look like'] });
+        assert.deepStrictEqual(score.dimensions.ambiguity.notes, ['1 hedge such as "maybe" or "etc."']);
+        assert.strictEqual(scorePrompt('   ').overall, 0);
+    });
+
+    test('A specific, structured prompt outscores a vague one', () => {
+        const comparison = compareQuality(scorePrompt(vague), scorePrompt(structured));
+
+        assert.ok(comparison.before.overall < 40, `vague prompt scored ${comparison.before.overall}`);
+        assert.ok(comparison.after.overall > 90, `structured prompt scored ${comparison.after.overall}`);
+        assert.strictEqual(comparison.after.dimensions.examples.score, 100);
+        assert.strictEqual(formatQualityChange(comparison), `${comparison.before.overall} → ${comparison.after.overall} (+${comparison.delta})`);
+        assert.ok(qualityComparisonToMarkdown(comparison).includes('| Output format | 0 | 100 | +100 |'));
+    });
+
+    test('Judge ratings are averaged with the local score', async () => {
+        const requests: CompletionRequest[] = [];
+        const judge: LLMProvider = {
+            id: 'openai',
+            label: 'Test',
+            model: 'gpt-4o',
+            complete: async request => {
+                requests.push(request);
+                return { text: '```json\n{"score": 140, "reason": "Clear and testable"}\n```', model: 'gpt-4o' };
+            },
+            stream: async () => ({ text: '', model: 'gpt-4o' })
+        };
+
+        const rating = await judgePromptQuality(judge, structured);
+        const before = scorePrompt(vague);
+        const after = { ...scorePrompt(structured), judge: rating };
+
+        assert.deepStrictEqual(rating, { score: 100, reason: 'Clear and testable' });
+        assert.strictEqual(requests[0].temperature, 0);
+        assert.strictEqual(combinedScore(after), Math.round((after.overall + 100) / 2));
+        assert.deepStrictEqual(toQualityRecord(compareQuality(before, after)), { before: before.overall, after: combinedScore(after), judged: true });
+        assert.throws(() => parseJudgeScore('{"reason": "no score"}'), /did not return a score/);
+    });
+
+    test('The trend averages recorded scores per week', () => {
+        const day = 24 * 60 * 60 * 1000;
+        const monday = Date.UTC(2025, 0, 6);
+        const markdown = qualityTrendToMarkdown([
+            { timestamp: monday + day, quality: { before: 30, after: 70 } },
+            { timestamp: monday + 3 * day, quality: { before: 40, after: 90 } },
+            { timestamp: monday + 8 * day, quality: { before: 50, after: 60 } },
+            { timestamp: monday + 9 * day }
+        ]);
+
+        assert.ok(markdown.includes('| 2025-01-13 | 1 | 50 | 60 | +10 |\n| 2025-01-06 | 2 | 35 | 80 | +45 |'));
+        assert.ok(markdown.includes('| **All** | 3 | 40 | 73 | +33 |'));
+        assert.ok(qualityTrendToMarkdown([]).includes('No scored optimizations yet.'));
+    });
+});
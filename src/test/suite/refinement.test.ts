@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { runOptimization } from '../../optimizer';
+import { CompletionRequest, LLMProvider } from '../../providers';
+import { createRefinementPrompt, describeRevision, RefinementSession } from '../../refinement';
+import { createBuiltInLibrary, DEFAULT_TEMPLATE_ID } from '../../templates';
+
+suite('Refinement Test Suite', () => {
+    const original = 'write tests for {module}';
+
+    function session(): RefinementSession {
+        const refinement = new RefinementSession(original);
+        refinement.add({ text: 'You are a QA engineer. Write unit tests for {module}.' });
+        refinement.add({ text: 'Write unit tests for {module}.', instruction: 'Make it shorter' });
+        return refinement;
+    }
+
+    test('Revisions are diffed against the revision they were refined from', () => {
+        const refinement = session();
+
+        assert.strictEqual(refinement.currentIndex, 2);
+        assert.strictEqual(refinement.base?.text, 'You are a QA engineer. Write unit tests for {module}.');
+        assert.deepStrictEqual(refinement.revisions.map((_, index) => describeRevision(refinement, index)), ['Original', '#1 Optimized', '#2 Make it shorter']);
+        assert.ok(refinement.select(0));
+        assert.strictEqual(refinement.base, undefined);
+        assert.ok(!refinement.select(3));
+    });
+
+    test('Refining an earlier revision branches from it', () => {
+        const refinement = session();
+        refinement.select(1);
+        refinement.add({ text: 'You are a QA engineer. Write unit tests for {module} as JSON.', instruction: 'Add a JSON output format' });
+
+        assert.strictEqual(refinement.revisions.length, 4);
+        assert.strictEqual(refinement.current.parent, 1);
+        assert.deepStrictEqual(refinement.instructions(), ['Add a JSON output format']);
+        assert.deepStrictEqual(refinement.nextStep('Target Claude'), {
+            original,
+            instruction: 'Target Claude',
+            earlierInstructions: ['Add a JSON output format']
+        });
+    });
+
+    test('The refinement prompt carries the current version and instructions', () => {
+        const prompt = createRefinementPrompt('Write unit tests for {module}.', {
+            original,
+            instruction: 'Target Claude',
+            earlierInstructions: ['Make it shorter']
+        });
+
+        assert.ok(prompt.includes('**Current version:**\nWrite unit tests for {module}.'));
+        assert.ok(prompt.includes('**Earlier instructions, already applied:**\n- Make it shorter'));
+        assert.ok(prompt.includes('**Change to make now:**\nTarget Claude'));
+    });
+
+    test('Follow-ups are sent instead of the optimization template', async () => {
+        const requests: CompletionRequest[] = [];
+        const provider: LLMProvider = {
+            id: 'openai',
+            label: 'Test',
+            model: 'gpt-4o',
+            complete: async request => {
+                requests.push(request);
+                return { text: 'Write unit tests for {module}. Reply in JSON.', model: 'gpt-4o' };
+            },
+            stream: async () => ({ text: '', model: 'gpt-4o' })
+        };
+        const refinement = session();
+        const result = await runOptimization(provider, {
+            prompt: refinement.current.text,
+            analysis: { type: 'coding', complexity: 'simple', techniques: ['zero-shot'] },
+            library: createBuiltInLibrary(),
+            templateId: DEFAULT_TEMPLATE_ID,
+            refinement: refinement.nextStep('Add a JSON output format')
+        });
+
+        const sent = requests[0].messages[0].content;
+        assert.ok(sent.startsWith('You are an expert prompt engineer refining a prompt step by step.'));
+        assert.ok(!sent.includes('Techniques to apply'));
+        assert.ok(sent.includes('Keep these placeholders exactly as written, each at least once: `{module}`'));
+        assert.strictEqual(result.text, 'Write unit tests for {module}. Reply in JSON.');
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { analyzePromptType } from '../../analysis';
+import { runOptimization } from '../../optimizer';
+import { CompletionRequest, LLMProvider } from '../../providers';
+import { formatTargetGuidelines, resolveTargetProfile } from '../../targetModels';
+import { createBuiltInLibrary, createSmartOptimizationPrompt, DEFAULT_TEMPLATE_ID, templateFromMarkdown } from '../../templates';
+
+suite('Target Model Test Suite', () => {
+    const analysis = { type: 'coding', complexity: 'simple', techniques: ['zero-shot'] };
+
+    test('Profiles are matched by id or model name, narrowest first', () => {
+        assert.strictEqual(resolveTargetProfile('claude-3-5-sonnet-latest')?.id, 'claude');
+        assert.strictEqual(resolveTargetProfile('gpt-4o-mini')?.id, 'gpt');
+        assert.strictEqual(resolveTargetProfile('o3-mini')?.id, 'reasoning');
+        assert.strictEqual(resolveTargetProfile('llama3.1:8b')?.id, 'small');
+        assert.strictEqual(resolveTargetProfile('llama3.1:70b')?.id, 'llama');
+        assert.strictEqual(resolveTargetProfile('Small')?.id, 'small');
+        assert.strictEqual(resolveTargetProfile('my-finetune'), undefined);
+        assert.strictEqual(resolveTargetProfile(' '), undefined);
+    });
+
+    test('Guidelines go into the default template and are appended to custom ones', () => {
+        const prompt = createSmartOptimizationPrompt('write a sort function', analysis, createBuiltInLibrary(), DEFAULT_TEMPLATE_ID, [], 'claude-3-5-haiku-latest');
+        assert.ok(prompt.endsWith(`\n\n${formatTargetGuidelines('claude-3-5-haiku-latest')}`));
+        assert.ok(prompt.includes('**Target model:** the optimized prompt will run on claude-3-5-haiku-latest (Claude).'));
+        assert.ok(prompt.includes('- Wrap each part (instructions, context, examples, input) in descriptive XML tags'));
+
+        const library = createBuiltInLibrary();
+        library.templates.set('team', templateFromMarkdown('team', 'For {{targetModel}}:\n{{targetGuidelines}}\n\n{{originalPrompt}}', 'workspace'));
+        const custom = createSmartOptimizationPrompt('hi', analysis, library, 'team', [], 'my-finetune');
+        assert.strictEqual(custom, 'For my-finetune:\n**Target model:** the optimized prompt will run on my-finetune. Follow that model\'s prompting best practices.\n\nhi');
+
+        assert.strictEqual(createSmartOptimizationPrompt('hi', analysis), createSmartOptimizationPrompt('hi', analysis, createBuiltInLibrary(), DEFAULT_TEMPLATE_ID, [], ''));
+    });
+
+    test('Technique selection follows the target profile', () => {
+        const prompt = 'Analyze the trade-offs between microservices and a monolith for our team. Consider cost, latency and hiring. '
+            + 'First list the constraints, then compare both options step by step, and finally recommend one. Return a table and a summary.';
+
+        const generic = analyzePromptType(prompt);
+        assert.ok(generic.techniques.includes('chain-of-thought'));
+        assert.strictEqual(generic.target, undefined);
+
+        const reasoning = analyzePromptType(prompt, 'o1');
+        assert.ok(!reasoning.techniques.includes('chain-of-thought'));
+        assert.ok(!reasoning.techniques.includes('meta-prompting'));
+        assert.deepStrictEqual(reasoning.target, { model: 'o1', profile: 'Reasoning models (o1, o3, DeepSeek R1)' });
+
+        const small = analyzePromptType('Summarize this article.', 'phi3');
+        assert.deepStrictEqual(small.techniqueReasons.find(choice => choice.id === 'few-shot'), {
+            id: 'few-shot',
+            reason: 'Small models follow a concrete example better than a description (Small local models (8B parameters or fewer))'
+        });
+    });
+
+    test('Refinements carry the target guidelines too', async () => {
+        const requests: CompletionRequest[] = [];
+        const provider: LLMProvider = {
+            id: 'openai',
+            label: 'Test',
+            model: 'gpt-4o',
+            complete: async request => {
+                requests.push(request);
+                return { text: 'Summarize the article in <summary> tags.', model: 'gpt-4o' };
+            },
+            stream: async () => ({ text: '', model: 'gpt-4o' })
+        };
+        await runOptimization(provider, {
+            prompt: 'Summarize the article.',
+            analysis,
+            library: createBuiltInLibrary(),
+            templateId: DEFAULT_TEMPLATE_ID,
+            targetModel: 'claude',
+            refinement: { original: 'summarize', instruction: 'Make it shorter', earlierInstructions: [] }
+        });
+
+        assert.ok(requests[0].messages[0].content.includes('**Target model:** the optimized prompt will run on Claude.'));
+    });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import {
+    createBuiltInLibrary,
+    createSmartOptimizationPrompt,
+    mergeLibraries,
+    parseFrontMatter,
+    renderTemplate,
+    techniqueFromMarkdown,
+    templateFromMarkdown
+} from '../../templates';
+
+suite('Template Test Suite', () => {
+    const analysis = { type: 'coding', complexity: 'simple', techniques: ['zero-shot', 'role-definition'] };
+
+    test('Default template lists the detected techniques', () => {
+        const prompt = createSmartOptimizationPrompt('write a sort function', analysis);
+
+        assert.ok(prompt.startsWith('You are an expert prompt engineer specializing in coding tasks.'));
+        assert.ok(prompt.includes('- Zero-shot Prompting: Direct instruction without examples\n- Role Definition'));
+        assert.ok(prompt.includes('**Original prompt:**\nwrite a sort function'));
+    });
+
+    test('Variables are rendered and unknown placeholders kept', () => {
+        assert.strictEqual(renderTemplate('{{ type }} / {{missing}}', { type: 'coding' }), 'coding / {{missing}}');
+    });
+
+    test('Front matter is parsed from markdown files', () => {
+        const { attributes, body } = parseFrontMatter('---\nname: "Style guide"\ntechniques: react, json-output\n---\nBody text\n');
+
+        assert.strictEqual(attributes.name, 'Style guide');
+        assert.strictEqual(body, 'Body text');
+        assert.deepStrictEqual(parseFrontMatter('no front matter').attributes, {});
+    });
+
+    test('Workspace templates override built-ins and force their techniques', () => {
+        const workspace = {
+            techniques: new Map([['react', techniqueFromMarkdown('react', '---\nname: ReAct\n---\nThought, action, observation loops', 'workspace')]]),
+            templates: new Map([['default', templateFromMarkdown('default', '---\ntechniques: react\n---\nTeam: {{originalPrompt}}\n{{techniques}}', 'workspace')]])
+        };
+        const library = mergeLibraries(createBuiltInLibrary(), workspace);
+
+        assert.strictEqual(library.templates.get('default')?.source, 'workspace');
+        assert.strictEqual(
+            createSmartOptimizationPrompt('hi', { ...analysis, techniques: ['zero-shot'] }, library),
+            'Team: hi\n- Zero-shot Prompting: Direct instruction without examples\n- ReAct: Thought, action, observation loops'
+        );
+    });
+
+    test('Unknown template ids fall back to the default template', () => {
+        const prompt = createSmartOptimizationPrompt('hi', analysis, createBuiltInLibrary(), 'does-not-exist');
+        assert.ok(prompt.includes('**Techniques to apply:**'));
+    });
+});
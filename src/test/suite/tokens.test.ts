@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { deriveMaxTokens, estimateCost, formatCost, getModelInfo } from '../../pricing';
+import { CompletionRequest, LLMProvider, TokenUsage } from '../../providers';
+import { encodingForModel, getTokenizer } from '../../tokenizer';
+import { countTokens, estimateTokens } from '../../tokens';
+import { BudgetExceededError, checkBudget, dayKey, meterProvider, readUsage, summarizeUsage, UsageRecord } from '../../usage';
+
+function createMemento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        }
+    } as vscode.Memento;
+}
+
+function fakeProvider(usage?: TokenUsage): LLMProvider & { requests: CompletionRequest[] } {
+    const requests: CompletionRequest[] = [];
+    return {
+        id: 'openai',
+        label: 'OpenAI',
+        model: 'gpt-4o',
+        requests,
+        complete: async request => {
+            requests.push(request);
+            return { text: 'hello world', model: 'gpt-4o', usage };
+        },
+        stream: async (request, onToken) => {
+            requests.push(request);
+            onToken('hello world');
+            return { text: 'hello world', model: 'gpt-4o', usage };
+        }
+    };
+}
+
+suite('Token Test Suite', () => {
+    test('BPE tokenizers match the tiktoken vocabularies', () => {
+        assert.deepStrictEqual(getTokenizer('cl100k_base')!.encode('hello world'), [15339, 1917]);
+        assert.deepStrictEqual(getTokenizer('o200k_base')!.encode('hello world'), [24912, 2375]);
+        // Multi-byte characters fall back to byte-level merges
+        assert.strictEqual(getTokenizer('cl100k_base')!.encode('日本語 👍').length, countTokens('日本語 👍', 'gpt-4'));
+    });
+
+    test('Long pieces merge without rescanning every pair', () => {
+        // Counts from the previous pairwise-rescan implementation
+        assert.strictEqual(getTokenizer('cl100k_base')!.count('='.repeat(5000)), 79);
+        assert.strictEqual(getTokenizer('o200k_base')!.count('='.repeat(5000)), 78);
+        assert.strictEqual(getTokenizer('cl100k_base')!.count('abcdefghij'.repeat(600)), 1200);
+        assert.strictEqual(getTokenizer('cl100k_base')!.count('a'.repeat(20000)), 2500);
+        assert.strictEqual(countTokens('x'.repeat(9000), 'gpt-4o', 8000), estimateTokens('x'.repeat(9000)));
+    });
+
+    test('Models map to their encoding', () => {
+        assert.strictEqual(encodingForModel('gpt-4o-mini'), 'o200k_base');
+        assert.strictEqual(encodingForModel('o3-mini'), 'o200k_base');
+        assert.strictEqual(encodingForModel('gpt-3.5-turbo'), 'cl100k_base');
+        assert.strictEqual(encodingForModel('claude-3-5-sonnet-latest'), 'cl100k_base');
+    });
+
+    test('Model info resolves by longest prefix with overrides', () => {
+        assert.strictEqual(getModelInfo('gpt-4o-mini-2024-07-18').inputCostPer1M, 0.15);
+        assert.strictEqual(getModelInfo('gpt-4o-2024-08-06').inputCostPer1M, 2.5);
+        assert.strictEqual(getModelInfo('my-deployment').inputCostPer1M, undefined);
+        assert.strictEqual(getModelInfo('my-deployment', 'azure', { 'my-deployment': { contextWindow: 32000, inputCostPer1M: 1 } }).contextWindow, 32000);
+        assert.strictEqual(getModelInfo('llama3.1', 'ollama').outputCostPer1M, 0);
+    });
+
+    test('Costs are estimated per million tokens', () => {
+        const info = getModelInfo('gpt-4o');
+        assert.strictEqual(estimateCost(info, 1_000_000, 100_000), 3.5);
+        assert.strictEqual(estimateCost(getModelInfo('unknown'), 10, 10), undefined);
+        assert.strictEqual(formatCost(0.00123), '$0.0012');
+        assert.strictEqual(formatCost(3.5), '$3.50');
+    });
+
+    test('max_tokens follows the input size and model limits', () => {
+        const info = { contextWindow: 8192, maxOutputTokens: 4096 };
+        assert.strictEqual(deriveMaxTokens(info, 100), 1000);
+        assert.strictEqual(deriveMaxTokens(info, 1500), 3000);
+        assert.strictEqual(deriveMaxTokens(info, 3000), 4096);
+        assert.strictEqual(deriveMaxTokens(info, 7000), 8192 - 7000 - 64);
+        assert.throws(() => deriveMaxTokens(info, 9000), /exceeds the model's 8192-token context window/);
+    });
+
+    test('Metered providers record reported usage and cost', async () => {
+        const state = createMemento();
+        const provider = meterProvider(fakeProvider({ promptTokens: 1000, completionTokens: 500, totalTokens: 1500 }), {
+            state,
+            workspace: 'demo',
+            limits: () => ({ daily: 0, workspaceDaily: 0 }),
+            modelInfo: metered => getModelInfo(metered.model, metered.id)
+        });
+
+        await provider.stream({ messages: [{ role: 'user', content: 'hi' }], maxTokens: 100, temperature: 0 }, () => undefined);
+        const [record] = readUsage(state);
+        assert.strictEqual(record.workspace, 'demo');
+        assert.strictEqual(record.cost, (1000 * 2.5 + 500 * 10) / 1_000_000);
+        assert.strictEqual(record.estimated, false);
+    });
+
+    test('Missing usage is counted locally', async () => {
+        const state = createMemento();
+        const provider = meterProvider(fakeProvider(), {
+            state,
+            workspace: '',
+            limits: () => ({ daily: 0, workspaceDaily: 0 }),
+            modelInfo: metered => getModelInfo(metered.model, metered.id)
+        });
+
+        const result = await provider.complete({ messages: [{ role: 'user', content: 'hello world' }], maxTokens: 100, temperature: 0 });
+        assert.deepStrictEqual(result.usage, { promptTokens: 2, completionTokens: 2, totalTokens: 4 });
+        assert.strictEqual(readUsage(state)[0].estimated, true);
+    });
+
+    test('Requests are blocked once a budget is spent', async () => {
+        const today = dayKey(Date.now());
+        const record = (workspace: string, cost: number): UsageRecord => ({
+            timestamp: Date.now(), day: today, workspace, provider: 'OpenAI', model: 'gpt-4o', promptTokens: 1, completionTokens: 1, cost, estimated: false
+        });
+        const records = [record('a', 0.4), record('b', 0.7)];
+
+        assert.strictEqual(summarizeUsage(records).cost, 1.1);
+        assert.match(checkBudget(records, { daily: 1, workspaceDaily: 0 }, today, 'a')!, /Daily budget of \$1.00 reached/);
+        assert.match(checkBudget(records, { daily: 0, workspaceDaily: 0.5 }, today, 'b')!, /workspace budget/);
+        assert.strictEqual(checkBudget(records, { daily: 0, workspaceDaily: 0.5 }, today, 'a'), undefined);
+        assert.strictEqual(checkBudget(records, { daily: 1, workspaceDaily: 0 }, '2000-01-01', 'a'), undefined);
+
+        const state = createMemento();
+        await state.update('promptious.usage', records);
+        const inner = fakeProvider();
+        const provider = meterProvider(inner, {
+            state,
+            workspace: 'a',
+            limits: () => ({ daily: 1, workspaceDaily: 0 }),
+            modelInfo: metered => getModelInfo(metered.model, metered.id)
+        });
+        await assert.rejects(provider.complete({ messages: [], maxTokens: 1, temperature: 0 }), BudgetExceededError);
+        assert.strictEqual(inner.requests.length, 0);
+    });
+});
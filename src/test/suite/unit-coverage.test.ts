@@ -18,7 +18,10 @@ suite('Extension Test Suite', () => {
         const expectedCommands = [
             'promptious.optimizePrompt',
             'promptious.optimizeSelection',
-            'promptious.openSettings'
+            'promptious.optimizeAndReplace',
+            'promptious.openSettings',
+            'promptious.setApiKey',
+            'promptious.clearApiKey'
         ];
 
         expectedCommands.forEach(command => {
@@ -0,0 +1,15 @@
+import * as assert from 'assert';
+import { createNonce, escapeHtml, renderDiff } from '../../webviewHtml';
+
+suite('Webview HTML Test Suite', () => {
+    test('Text is escaped and diffs are marked up', () => {
+        assert.strictEqual(escapeHtml('<b title="x">&</b>'), '&lt;b title=&quot;x&quot;&gt;&amp;&lt;/b&gt;');
+        assert.strictEqual(renderDiff('Say <hi>', 'Say <hello>'), 'Say <del>&lt;hi&gt;</del><ins>&lt;hello&gt;</ins>');
+    });
+
+    test('Nonces are random and long enough for a content security policy', () => {
+        const nonces = new Set(Array.from({ length: 20 }, () => createNonce()));
+        assert.strictEqual(nonces.size, 20);
+        assert.ok([...nonces].every(nonce => Buffer.from(nonce, 'base64').length === 16));
+    });
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { diffWords } from '../../wordDiff';
+
+suite('Word Diff Test Suite', () => {
+    const join = (segments: ReturnType<typeof diffWords>, type: 'equal' | 'added' | 'removed') =>
+        segments.filter(segment => segment.type !== type).map(segment => segment.text).join('');
+
+    test('Identical text is a single equal segment', () => {
+        assert.deepStrictEqual(diffWords('same text', 'same text'), [{ type: 'equal', text: 'same text' }]);
+    });
+
+    test('Segments reconstruct both sides', () => {
+        const before = 'Write a short poem about cats';
+        const after = 'You are a poet. Write a short, rhyming poem about cats and dogs';
+        const segments = diffWords(before, after);
+
+        assert.strictEqual(join(segments, 'added'), before);
+        assert.strictEqual(join(segments, 'removed'), after);
+    });
+
+    test('Changed words are reported as removed and added', () => {
+        const segments = diffWords('explain recursion', 'explain closures');
+
+        assert.deepStrictEqual(segments, [
+            { type: 'equal', text: 'explain ' },
+            { type: 'removed', text: 'recursion' },
+            { type: 'added', text: 'closures' }
+        ]);
+    });
+});
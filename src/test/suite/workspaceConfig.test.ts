@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JsonSchema, validateJsonSchema } from '../../jsonSchema';
+import { applyTechniquePolicy, runOptimization } from '../../optimizer';
+import { LLMProvider } from '../../providers';
+import { createBuiltInLibrary, DEFAULT_TEMPLATE_ID } from '../../templates';
+import { effectiveConfigToMarkdown, MACHINE_SETTINGS, parseWorkspaceConfig, resolveLayers, resolveMachineSetting } from '../../workspaceConfig';
+
+suite('Workspace Config Test Suite', () => {
+    const schema: JsonSchema = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', '..', 'schemas', 'promptious.schema.json'), 'utf8'));
+
+    test('JSON and YAML files are parsed and validated', () => {
+        const json = parseWorkspaceConfig(JSON.stringify({
+            provider: 'anthropic',
+            temperature: 0.2,
+            presets: { strict: { techniques: { forbid: ['few-shot'] }, maxLength: 800 } }
+        }), '.promptious.json', schema);
+        assert.deepStrictEqual(json.errors, []);
+        assert.strictEqual(json.config.presets?.strict.maxLength, 800);
+
+        const yaml = parseWorkspaceConfig('model: gpt-4o\npresets:\n  german:\n    outputLanguage: German\n', '.promptious.yaml', schema);
+        assert.deepStrictEqual(yaml.errors, []);
+        assert.strictEqual(yaml.config.model, 'gpt-4o');
+        assert.strictEqual(yaml.config.presets?.german.outputLanguage, 'German');
+    });
+
+    test('Invalid files are ignored as a whole and report every error', () => {
+        const loaded = parseWorkspaceConfig(JSON.stringify({
+            temperature: 3,
+            presets: { fast: { provider: 'unknown' } },
+            typo: true
+        }), '.promptious.json', schema);
+
+        assert.deepStrictEqual(loaded.config, {});
+        assert.strictEqual(loaded.errors.length, 3);
+        assert.ok(loaded.errors.some(error => error.includes('presets.fast.provider')));
+
+        const broken = parseWorkspaceConfig('{ "model": ', '.promptious.json', schema);
+        assert.deepStrictEqual(broken.config, {});
+        assert.strictEqual(broken.errors.length, 1);
+    });
+
+    test('Schema references resolve through definitions', () => {
+        const withRef: JsonSchema = {
+            definitions: { positive: { type: 'number', minimum: 0 } },
+            type: 'object',
+            properties: { size: { $ref: '#/definitions/positive' } }
+        };
+        assert.deepStrictEqual(validateJsonSchema({ size: 2 }, withRef), []);
+        assert.deepStrictEqual(validateJsonSchema({ size: -1 }, withRef), ['$.size: less than 0']);
+    });
+
+    test('Higher layers win and the source is reported', () => {
+        assert.deepStrictEqual(resolveLayers({ default: 0.7, user: 0.5, workspaceFile: 0.2 }), {
+            value: 0.2,
+            source: 'workspaceFile',
+            layers: { default: 0.7, user: 0.5, workspaceFile: 0.2 }
+        });
+        assert.strictEqual(resolveLayers({ workspaceFile: 'gpt-4o', workspace: 'gpt-4.1', preset: 'o3' }).source, 'preset');
+        assert.strictEqual(resolveLayers<string>({}).value, undefined);
+    });
+
+    test('Workspace values of machine settings are ignored', () => {
+        const endpoint = resolveMachineSetting({ default: 'https://api.openai.com/v1', workspace: 'https://attacker.example' });
+        assert.deepStrictEqual([endpoint.value, endpoint.source], ['https://api.openai.com/v1', 'default']);
+        assert.strictEqual(resolveMachineSetting({ user: 'https://proxy.internal/v1', workspace: 'https://attacker.example' }).value, 'https://proxy.internal/v1');
+        assert.strictEqual(resolveMachineSetting({ default: true, workspace: false }).value, true);
+        assert.ok(MACHINE_SETTINGS.includes('scan.enabled') && MACHINE_SETTINGS.includes('scan.disabledRules'));
+
+        const manifest = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', '..', 'package.json'), 'utf8'));
+        for (const key of MACHINE_SETTINGS) {
+            assert.strictEqual(manifest.contributes.configuration.properties[`promptious.${key}`].scope, 'machine', key);
+            assert.ok(manifest.capabilities.untrustedWorkspaces.restrictedConfigurations.includes(`promptious.${key}`), key);
+        }
+    });
+
+    test('Technique policy forces and forbids techniques', () => {
+        assert.deepStrictEqual(
+            applyTechniquePolicy(['zero-shot', 'few-shot'], { forceTechniques: ['chain-of-thought'], forbidTechniques: ['few-shot'] }),
+            ['zero-shot', 'chain-of-thought']
+        );
+    });
+
+    test('Policy requirements reach the meta prompt', async () => {
+        let sent = '';
+        const provider: LLMProvider = {
+            id: 'openai',
+            label: 'Test',
+            model: 'gpt-4o',
+            complete: async request => {
+                sent = request.messages.map(message => message.content).join('\n');
+                return { text: 'optimized', model: 'gpt-4o' };
+            },
+            stream: async () => ({ text: '', model: 'gpt-4o' })
+        };
+
+        await runOptimization(provider, {
+            prompt: 'explain closures',
+            analysis: { type: 'explanation', complexity: 'simple', techniques: ['zero-shot', 'few-shot'] },
+            library: createBuiltInLibrary(),
+            templateId: DEFAULT_TEMPLATE_ID,
+            policy: { forbidTechniques: ['few-shot'], maxLength: 500, outputLanguage: 'French' }
+        });
+
+        assert.ok(!sent.includes('Few-shot'));
+        assert.ok(sent.includes('Additional requirements:\n- Keep the optimized prompt under 500 characters.\n- Write the optimized prompt in French.'));
+    });
+
+    test('Effective config report lists values, sources and file errors', () => {
+        const markdown = effectiveConfigToMarkdown({
+            provider: resolveLayers({ default: 'openai', workspaceFile: 'anthropic' }),
+            model: resolveLayers({ default: 'gpt-3.5-turbo' }),
+            targetModel: resolveLayers({ default: '' }),
+            template: resolveLayers({}),
+            temperature: resolveLayers({ default: 0.7, preset: 0.1 }),
+            autoCopy: resolveLayers({ default: true }),
+            showNotifications: resolveLayers({ default: true }),
+            forceTechniques: resolveLayers({}),
+            forbidTechniques: resolveLayers({}),
+            maxLength: resolveLayers({}),
+            outputLanguage: resolveLayers({}),
+            placeholderSyntaxes: resolveLayers({ default: ['mustache', 'brace', 'dollar', 'xml'] }),
+            placeholderPatterns: resolveLayers({ default: [] }),
+            placeholderMismatch: resolveLayers({ default: 'repair', workspaceFile: 'reject' })
+        }, { fileName: '.promptious.json', config: {}, errors: ['$.temperature: greater than 2'] }, 'strict');
+
+        assert.ok(markdown.includes('| `provider` | `"anthropic"` | Workspace file |'));
+        assert.ok(markdown.includes('| `temperature` | `0.1` | Preset |'));
+        assert.ok(markdown.includes('**Preset:** strict'));
+        assert.ok(markdown.includes('- $.temperature: greater than 2'));
+    });
+});
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type EncodingName = 'cl100k_base' | 'o200k_base';
+
+// tiktoken rank files converted to JSON, shipped with the extension
+const TOKENIZER_DIR = path.join(__dirname, '..', 'resources', 'tokenizers');
+
+interface EncodingFile {
+    pat_str: string;
+    special_tokens: Record<string, number>;
+    // Space separated lines: "<marker> <first rank> <base64 token> <base64 token> ..."
+    bpe_ranks: string;
+}
+
+// Byte-pair encoder over tiktoken ranks; tokens are keyed by their bytes as a latin1 string
+export class BpeTokenizer {
+    private readonly pattern: RegExp;
+    private readonly ranks = new Map<string, number>();
+
+    constructor(file: EncodingFile) {
+        this.pattern = new RegExp(file.pat_str, 'gu');
+        for (const line of file.bpe_ranks.split('\n')) {
+            const [, offset, ...tokens] = line.split(' ');
+            if (offset === undefined) {
+                continue;
+            }
+            tokens.forEach((token, index) => this.ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(offset) + index));
+        }
+    }
+
+    encode(text: string): number[] {
+        const tokens: number[] = [];
+        for (const [piece] of text.matchAll(this.pattern)) {
+            const bytes = Buffer.from(piece, 'utf8').toString('latin1');
+            const rank = this.ranks.get(bytes);
+            if (rank !== undefined) {
+                tokens.push(rank);
+            } else {
+                tokens.push(...this.mergePiece(bytes));
+            }
+        }
+        return tokens;
+    }
+
+    count(text: string): number {
+        return this.encode(text).length;
+    }
+
+    // Repeatedly merge the adjacent pair with the lowest rank (leftmost on ties)
+    // until none is known. Parts form a linked list and candidate pairs sit in a
+    // heap, so long pieces such as a run of "=" stay O(n log n).
+    private mergePiece(bytes: string): number[] {
+        const parts = bytes.split('');
+        const next = parts.map((_part, index) => index + 1);
+        const previous = parts.map((_part, index) => index - 1);
+        const heap = new PairHeap();
+        const push = (left: number) => {
+            const right = next[left];
+            if (left >= 0 && right < parts.length) {
+                const rank = this.ranks.get(parts[left] + parts[right]);
+                if (rank !== undefined) {
+                    heap.push(rank, left);
+                }
+            }
+        };
+        for (let i = 0; i < parts.length - 1; i++) {
+            push(i);
+        }
+
+        for (let pair = heap.pop(); pair; pair = heap.pop()) {
+            const [rank, left] = pair;
+            const right = next[left];
+            // Stale: one side was merged away or grew since the pair was queued
+            if (!parts[left] || right >= parts.length || this.ranks.get(parts[left] + parts[right]) !== rank) {
+                continue;
+            }
+            parts[left] += parts[right];
+            parts[right] = '';
+            next[left] = next[right];
+            if (next[left] < parts.length) {
+                previous[next[left]] = left;
+            }
+            push(previous[left]);
+            push(left);
+        }
+        // Every single byte is in the vocabulary
+        return parts.filter(Boolean).map(part => this.ranks.get(part)!);
+    }
+}
+
+// Min-heap of [rank, position] pairs ordered by rank, then position
+class PairHeap {
+    private readonly items: Array<[number, number]> = [];
+
+    push(rank: number, position: number): void {
+        const items = this.items;
+        items.push([rank, position]);
+        let index = items.length - 1;
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (!this.less(items[index], items[parent])) {
+                break;
+            }
+            [items[index], items[parent]] = [items[parent], items[index]];
+            index = parent;
+        }
+    }
+
+    pop(): [number, number] | undefined {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop();
+        if (items.length && last) {
+            items[0] = last;
+            let index = 0;
+            for (;;) {
+                const left = 2 * index + 1;
+                const smallest = [left, left + 1].reduce((best, child) => child < items.length && this.less(items[child], items[best]) ? child : best, index);
+                if (smallest === index) {
+                    break;
+                }
+                [items[index], items[smallest]] = [items[smallest], items[index]];
+                index = smallest;
+            }
+        }
+        return top;
+    }
+
+    private less(a: [number, number], b: [number, number]): boolean {
+        return a[0] < b[0] || a[0] === b[0] && a[1] < b[1];
+    }
+}
+
+const loaded = new Map<EncodingName, BpeTokenizer | null>();
+
+// Loaded lazily and cached; null when the rank file is missing from the install
+export function getTokenizer(encoding: EncodingName): BpeTokenizer | null {
+    if (!loaded.has(encoding)) {
+        try {
+            const file = JSON.parse(fs.readFileSync(path.join(TOKENIZER_DIR, `${encoding}.json`), 'utf8')) as EncodingFile;
+            loaded.set(encoding, new BpeTokenizer(file));
+        } catch (error) {
+            console.error(`Error loading ${encoding} tokenizer:`, error);
+            loaded.set(encoding, null);
+        }
+    }
+    return loaded.get(encoding)!;
+}
+
+// GPT-4o and newer OpenAI models use o200k; everything else is counted with cl100k,
+// which is exact for GPT-4/3.5 and a close approximation for other vendors
+export function encodingForModel(model: string): EncodingName {
+    return /^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d)/i.test(model) ? 'o200k_base' : 'cl100k_base';
+}
@@ -0,0 +1,19 @@
+import { encodingForModel, getTokenizer } from './tokenizer';
+
+// Selections beyond this size are estimated instead of encoded
+const MAX_ENCODED_LENGTH = 200_000;
+
+// Counts that run on every selection change encode only this much
+export const INTERACTIVE_ENCODED_LENGTH = 8_000;
+
+// Rough token estimate (~4 characters per token for English text)
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+// Exact count with the model's BPE vocabulary, falling back to the estimate
+// for text longer than `maxEncodedLength`
+export function countTokens(text: string, model = '', maxEncodedLength = MAX_ENCODED_LENGTH): number {
+    const tokenizer = text.length <= maxEncodedLength ? getTokenizer(encodingForModel(model)) : null;
+    return tokenizer ? tokenizer.count(text) : estimateTokens(text);
+}
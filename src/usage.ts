@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import { estimateCost, formatCost, ModelInfo } from './pricing';
+import { CompletionRequest, CompletionResult, LLMProvider, TokenUsage } from './providers';
+import { countTokens } from './tokens';
+
+export interface UsageRecord {
+    timestamp: number;
+    // Local calendar day, YYYY-MM-DD
+    day: string;
+    // Workspace name, empty outside a workspace
+    workspace: string;
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    cost?: number;
+    // Counted locally because the provider reported no usage
+    estimated: boolean;
+}
+
+export interface SpendSummary {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    // Requests for models without a known price
+    unpriced: number;
+}
+
+// 0 disables a limit
+export interface BudgetLimits {
+    daily: number;
+    workspaceDaily: number;
+}
+
+export interface UsageMeter {
+    state: vscode.Memento;
+    workspace: string;
+    limits(): BudgetLimits;
+    modelInfo(provider: LLMProvider): ModelInfo;
+    onRecord?(record: UsageRecord): void;
+}
+
+export const USAGE_STATE_KEY = 'promptious.usage';
+export const USAGE_RETENTION_DAYS = 90;
+
+export class BudgetExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export function dayKey(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function readUsage(state: vscode.Memento): UsageRecord[] {
+    return state.get<UsageRecord[]>(USAGE_STATE_KEY, []);
+}
+
+export async function addUsageRecord(state: vscode.Memento, record: UsageRecord): Promise<void> {
+    const cutoff = record.timestamp - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    await state.update(USAGE_STATE_KEY, [...readUsage(state).filter(existing => existing.timestamp >= cutoff), record]);
+}
+
+export function summarizeUsage(records: UsageRecord[]): SpendSummary {
+    return records.reduce((summary, record) => ({
+        requests: summary.requests + 1,
+        promptTokens: summary.promptTokens + record.promptTokens,
+        completionTokens: summary.completionTokens + record.completionTokens,
+        cost: summary.cost + (record.cost ?? 0),
+        unpriced: summary.unpriced + (record.cost === undefined ? 1 : 0)
+    }), { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 });
+}
+
+// A reason to block the next request, or undefined while under budget
+export function checkBudget(records: UsageRecord[], limits: BudgetLimits, day: string, workspace: string): string | undefined {
+    const today = records.filter(record => record.day === day);
+    const spent = summarizeUsage(today).cost;
+    if (limits.daily > 0 && spent >= limits.daily) {
+        return `Daily budget of ${formatCost(limits.daily)} reached (${formatCost(spent)} spent today). Raise promptious.budget.daily to continue.`;
+    }
+
+    const workspaceSpent = summarizeUsage(today.filter(record => record.workspace === workspace)).cost;
+    if (limits.workspaceDaily > 0 && workspaceSpent >= limits.workspaceDaily) {
+        return `Daily workspace budget of ${formatCost(limits.workspaceDaily)} reached (${formatCost(workspaceSpent)} spent in this workspace today). Raise promptious.budget.workspaceDaily to continue.`;
+    }
+    return undefined;
+}
+
+// Enforce the budget before every request and record what each one used
+export function meterProvider(provider: LLMProvider, meter: UsageMeter): LLMProvider {
+    const guard = () => {
+        const reason = checkBudget(readUsage(meter.state), meter.limits(), dayKey(Date.now()), meter.workspace);
+        if (reason) {
+            throw new BudgetExceededError(reason);
+        }
+    };
+
+    const record = async (request: CompletionRequest, result: CompletionResult): Promise<CompletionResult> => {
+        const model = result.model || provider.model;
+        const usage: TokenUsage = result.usage || (() => {
+            const promptTokens = request.messages.reduce((total, message) => total + countTokens(message.content, model), 0);
+            const completionTokens = countTokens(result.text, model);
+            return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+        })();
+
+        const entry: UsageRecord = {
+            timestamp: Date.now(),
+            day: dayKey(Date.now()),
+            workspace: meter.workspace,
+            provider: provider.label,
+            model,
+            promptTokens: usage.promptTokens,
+            completionTokens: usage.completionTokens,
+            cost: estimateCost(meter.modelInfo(provider), usage.promptTokens, usage.completionTokens),
+            estimated: !result.usage
+        };
+        await addUsageRecord(meter.state, entry);
+        meter.onRecord?.(entry);
+        return { ...result, usage };
+    };
+
+    return {
+        id: provider.id,
+        label: provider.label,
+        model: provider.model,
+        complete: async request => {
+            guard();
+            return record(request, await provider.complete(request));
+        },
+        stream: async (request, onToken) => {
+            guard();
+            return record(request, await provider.stream(request, onToken));
+        }
+    };
+}
+
+const row = (label: string, summary: SpendSummary) =>
+    `| ${label} | ${summary.requests} | ${summary.promptTokens} | ${summary.completionTokens} | ${formatCost(summary.cost)}${summary.unpriced ? ` (+${summary.unpriced} unpriced)` : ''} |`;
+
+export function usageToMarkdown(records: UsageRecord[], limits: BudgetLimits, day: string, workspace: string): string {
+    const today = records.filter(record => record.day === day);
+    const workspaceToday = today.filter(record => record.workspace === workspace);
+    const days = [...new Set(records.map(record => record.day))].sort().reverse().slice(0, 14);
+    const models = [...new Set(records.map(record => record.model))].sort();
+    const limit = (value: number) => value > 0 ? formatCost(value) : 'none';
+
+    return `# Promptious Usage
+
+| Scope | Requests | Prompt tokens | Completion tokens | Cost |
+| --- | --- | --- | --- | --- |
+${row('Today', summarizeUsage(today))}
+${row(`Today in ${workspace || 'no workspace'}`, summarizeUsage(workspaceToday))}
+
+**Daily budget:** ${limit(limits.daily)}  
+**Daily workspace budget:** ${limit(limits.workspaceDaily)}
+
+## By Day
+
+| Day | Requests | Prompt tokens | Completion tokens | Cost |
+| --- | --- | --- | --- | --- |
+${days.map(key => row(key, summarizeUsage(records.filter(record => record.day === key)))).join('\n')}
+
+## By Model (last ${USAGE_RETENTION_DAYS} days)
+
+| Model | Requests | Prompt tokens | Completion tokens | Cost |
+| --- | --- | --- | --- | --- |
+${models.map(model => row(model, summarizeUsage(records.filter(record => record.model === model)))).join('\n')}
+
+Costs are estimates from list prices. Requests without reported usage are counted with the local tokenizer.
+`;
+}
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { getModelInfo, ModelInfo } from './pricing';
+import { LLMProvider, ProviderId } from './providers';
+import { BudgetLimits, dayKey, meterProvider, readUsage, usageToMarkdown } from './usage';
+
+let trackingContext: vscode.ExtensionContext | undefined;
+
+// `promptious.pricing` adds models or corrects limits and prices
+export function resolveModelInfo(model: string, provider?: ProviderId): ModelInfo {
+    const overrides = vscode.workspace.getConfiguration('promptious').get<Record<string, Partial<ModelInfo>>>('pricing', {});
+    return getModelInfo(model, provider, overrides);
+}
+
+function getBudgetLimits(): BudgetLimits {
+    const config = vscode.workspace.getConfiguration('promptious');
+    return {
+        daily: config.get<number>('budget.daily', 0),
+        workspaceDaily: config.get<number>('budget.workspaceDaily', 0)
+    };
+}
+
+const currentWorkspace = () => vscode.workspace.name || '';
+
+// Spend is kept globally so the daily budget spans every workspace
+export function trackUsage(provider: LLMProvider): LLMProvider {
+    if (!trackingContext) {
+        return provider;
+    }
+    return meterProvider(provider, {
+        state: trackingContext.globalState,
+        workspace: currentWorkspace(),
+        limits: getBudgetLimits,
+        modelInfo: metered => resolveModelInfo(metered.model, metered.id)
+    });
+}
+
+export function registerUsageTracking(context: vscode.ExtensionContext): void {
+    trackingContext = context;
+
+    context.subscriptions.push(vscode.commands.registerCommand('promptious.showUsage', async () => {
+        try {
+            const markdown = usageToMarkdown(readUsage(context.globalState), getBudgetLimits(), dayKey(Date.now()), currentWorkspace());
+            const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: markdown });
+            await vscode.commands.executeCommand('markdown.showPreview', document.uri);
+        } catch (error) {
+            console.error('Error showing usage:', error);
+            vscode.window.showErrorMessage('Error showing usage: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    }));
+}
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { analyzePromptType } from './analysis';
+import { getOptimizationSettings, getProviderSettings, resolveProvider } from './config';
+import { applyProposal } from './editProposals';
+import { recordOptimization } from './historyView';
+import { applyTechniquePolicy, runOptimization } from './optimizer';
+import { LLMProvider, ProviderError } from './providers';
+import { guardPrompt } from './sendGuard';
+import { getDefaultTemplateId, loadTemplateLibrary } from './templateRegistry';
+import { BudgetExceededError } from './usage';
+import { resolveModelInfo } from './usageTracking';
+import { Variant, showVariantsPanel } from './variantsPanel';
+
+interface VariantSpec {
+    label: string;
+    model?: string;
+    template?: string;
+}
+
+export interface VariantTarget {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    // The text in range when the command started, so edits made since are caught
+    original: string;
+}
+
+const MAX_VARIANTS = 10;
+
+// Ask how the variants should differ: repeated samples, models or templates
+async function pickVariantSpecs(): Promise<VariantSpec[] | undefined> {
+    const config = vscode.workspace.getConfiguration('promptious');
+    const strategy = await vscode.window.showQuickPick([
+        { label: 'Same settings', detail: 'Several samples from the configured model and template', id: 'samples' },
+        { label: 'Compare models', detail: 'One variant per selected model', id: 'models' },
+        { label: 'Compare templates', detail: 'One variant per selected template', id: 'templates' }
+    ], { placeHolder: 'How should the variants differ?' });
+
+    if (strategy?.id === 'samples') {
+        const count = await vscode.window.showInputBox({
+            prompt: 'Number of variants',
+            value: String(config.get<number>('variants.count', 3)),
+            validateInput: value => /^\d+$/.test(value) && +value >= 2 && +value <= MAX_VARIANTS ? null : `Enter a number from 2 to ${MAX_VARIANTS}`
+        });
+        return count ? Array.from({ length: +count }, (_, i) => ({ label: `Variant ${i + 1}` })) : undefined;
+    }
+
+    if (strategy?.id === 'models') {
+        const { definition, config: providerConfig } = getProviderSettings();
+        const models = [...new Set([providerConfig.model, ...definition.models])].filter(Boolean);
+        const picked = await vscode.window.showQuickPick(models.map(model => ({ label: model, picked: model === providerConfig.model })), {
+            placeHolder: `${definition.label} models to compare`,
+            canPickMany: true
+        });
+        return picked?.length ? picked.slice(0, MAX_VARIANTS).map(item => ({ label: item.label, model: item.label })) : undefined;
+    }
+
+    if (strategy?.id === 'templates') {
+        const library = await loadTemplateLibrary();
+        const picked = await vscode.window.showQuickPick([...library.templates.values()].map(template => ({
+            label: template.name,
+            detail: template.description,
+            id: template.id
+        })), { placeHolder: 'Templates to compare', canPickMany: true });
+        return picked?.length ? picked.slice(0, MAX_VARIANTS).map(item => ({ label: item.label, template: item.id })) : undefined;
+    }
+
+    return undefined;
+}
+
+// Generate several candidates in parallel and compare them side by side
+export async function optimizeVariants(context: vscode.ExtensionContext, prompt: string, target?: VariantTarget): Promise<void> {
+    const specs = await pickVariantSpecs();
+    if (!specs) {
+        return;
+    }
+
+    // Resolve providers up front so a missing API key is asked for only once
+    const providers = new Map<string, LLMProvider>();
+    for (const model of new Set(specs.map(spec => spec.model || ''))) {
+        const provider = await resolveProvider(context.secrets, model || undefined);
+        if (!provider) {
+            return;
+        }
+        providers.set(model, provider);
+    }
+
+    const guarded = await guardPrompt(prompt, [...new Set([...providers.values()].map(provider => provider.label))].join(', '));
+    if (!guarded) {
+        return;
+    }
+
+    const settings = getOptimizationSettings();
+    const analysis = analyzePromptType(guarded.prompt, settings.targetModel);
+    const library = await loadTemplateLibrary();
+    const defaultTemplate = getDefaultTemplateId(library);
+
+    const variants = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Generating ${specs.length} prompt variants...`,
+        cancellable: true
+    }, async (progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        let finished = 0;
+
+        try {
+            return await Promise.all(specs.map(async (spec): Promise<Variant> => {
+                const provider = providers.get(spec.model || '')!;
+                const templateId = spec.template || defaultTemplate;
+                const techniques = applyTechniquePolicy([...analysis.techniques, ...(library.templates.get(templateId)?.techniques || [])], settings.policy);
+                try {
+                    const result = await runOptimization(provider, {
+                        prompt: guarded.prompt,
+                        analysis,
+                        library,
+                        templateId,
+                        targetModel: settings.targetModel,
+                        temperature: settings.temperature,
+                        modelInfo: resolveModelInfo(provider.model, provider.id),
+                        policy: settings.policy,
+                        signal: controller.signal
+                    });
+                    return { label: spec.label, model: result.model, techniques, text: guarded.restore(result.text), completionTokens: result.usage?.completionTokens };
+                } catch (error) {
+                    if (error instanceof ProviderError && error.kind === 'cancelled' || error instanceof BudgetExceededError) {
+                        throw error;
+                    }
+                    return { label: spec.label, model: provider.model, techniques, error: error instanceof Error ? error.message : String(error) };
+                } finally {
+                    progress.report({ increment: 100 / specs.length, message: `${++finished} of ${specs.length} done` });
+                }
+            }));
+        } finally {
+            cancellation.dispose();
+        }
+    });
+
+    if (!variants.some(variant => variant.text)) {
+        vscode.window.showErrorMessage('Error generating variants: ' + (variants[0]?.error || 'no results'));
+        return;
+    }
+
+    const providerLabel = providers.values().next().value?.label || '';
+    showVariantsPanel(prompt, variants, {
+        copy: async variant => {
+            await vscode.env.clipboard.writeText(variant.text!);
+            vscode.window.showInformationMessage(`${variant.label} copied to clipboard.`);
+        },
+        insert: async variant => {
+            if (!target) {
+                await vscode.env.clipboard.writeText(variant.text!);
+                vscode.window.showInformationMessage('No editor to insert into; copied to clipboard instead.');
+                return;
+            }
+            const applied = await applyProposal({
+                id: 0,
+                uri: target.uri,
+                range: target.range,
+                original: target.original,
+                optimized: variant.text!
+            }, 'replace');
+            if (applied) {
+                await vscode.window.showTextDocument(target.uri, { preview: false });
+            }
+        },
+        favourite: async variant => {
+            await recordOptimization(context, {
+                original: prompt,
+                optimized: variant.text!,
+                provider: providerLabel,
+                model: variant.model,
+                analysis: { type: analysis.type, complexity: analysis.complexity, techniques: variant.techniques },
+                usage: undefined
+            }, true);
+            vscode.window.showInformationMessage(`${variant.label} saved to history as a favourite.`);
+        }
+    });
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { countTokens } from './tokens';
+import { createNonce, escapeHtml, renderDiff } from './webviewHtml';
+
+export interface Variant {
+    label: string;
+    model: string;
+    techniques: string[];
+    text?: string;
+    error?: string;
+    completionTokens?: number;
+}
+
+export interface VariantActions {
+    copy(variant: Variant): Thenable<unknown>;
+    insert(variant: Variant): Thenable<unknown>;
+    favourite(variant: Variant): Thenable<unknown>;
+}
+
+function renderVariant(original: string, variant: Variant, index: number): string {
+    if (!variant.text) {
+        return `<section class="variant failed">
+    <h2>${escapeHtml(variant.label)}</h2>
+    <p class="error">${escapeHtml(variant.error || 'No result')}</p>
+</section>`;
+    }
+
+    const tokens = variant.completionTokens ?? countTokens(variant.text, variant.model);
+    return `<section class="variant">
+    <h2>${escapeHtml(variant.label)}</h2>
+    <p class="meta">${escapeHtml(variant.model)} · ${variant.text.length} chars · ${tokens} tokens · ${escapeHtml(variant.techniques.join(', '))}</p>
+    <div class="actions">
+        <button data-command="insert" data-index="${index}">Insert</button>
+        <button data-command="copy" data-index="${index}">Copy</button>
+        <button data-command="favourite" data-index="${index}">★ Favourite</button>
+    </div>
+    <pre class="diff">${renderDiff(original, variant.text)}</pre>
+</section>`;
+}
+
+function renderHtml(webview: vscode.Webview, original: string, variants: Variant[]): string {
+    const nonce = createNonce();
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .variants { display: grid; grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); gap: 12px; }
+    .variant { border: 1px solid var(--vscode-panel-border); padding: 8px 12px; }
+    .meta { opacity: 0.8; font-size: 0.9em; }
+    .error { color: var(--vscode-errorForeground); }
+    pre { white-space: pre-wrap; font-family: var(--vscode-editor-font-family); }
+    ins { background: var(--vscode-diffEditor-insertedTextBackground); text-decoration: none; }
+    del { background: var(--vscode-diffEditor-removedTextBackground); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+</style>
+</head>
+<body>
+<h1>Prompt Variants</h1>
+<details><summary>Original prompt (${original.length} chars · ${countTokens(original, variants[0]?.model)} tokens)</summary><pre>${escapeHtml(original)}</pre></details>
+<div class="variants">
+${variants.map((variant, index) => renderVariant(original, variant, index)).join('\n')}
+</div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('button[data-command]').forEach(button => {
+        button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command, index: Number(button.dataset.index) }));
+    });
+</script>
+</body>
+</html>`;
+}
+
+export function showVariantsPanel(original: string, variants: Variant[], actions: VariantActions): vscode.WebviewPanel {
+    const panel = vscode.window.createWebviewPanel('promptious.variants', 'Prompt Variants', vscode.ViewColumn.Beside, {
+        enableScripts: true
+    });
+    panel.webview.html = renderHtml(panel.webview, original, variants);
+
+    panel.webview.onDidReceiveMessage(async (message: { command: keyof VariantActions; index: number }) => {
+        const variant = variants[message.index];
+        if (!variant?.text || !(message.command in actions)) {
+            return;
+        }
+        try {
+            await actions[message.command](variant);
+        } catch (error) {
+            console.error('Error handling variant action:', error);
+            vscode.window.showErrorMessage('Error: ' + (error instanceof Error ? error.message : String(error)));
+        }
+    });
+
+    return panel;
+}
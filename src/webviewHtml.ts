@@ -0,0 +1,24 @@
+// HTML helpers shared by the webview panels: escaping, word diffs and the
+// nonce that lets a panel's own script past its content security policy.
+
+import * as crypto from 'crypto';
+import { diffWords } from './wordDiff';
+
+export const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Word diff with insertions and deletions marked up
+export function renderDiff(before: string, after: string): string {
+    return diffWords(before, after).map(segment => {
+        const text = escapeHtml(segment.text);
+        return segment.type === 'added' ? `<ins>${text}</ins>` : segment.type === 'removed' ? `<del>${text}</del>` : text;
+    }).join('');
+}
+
+// Must not be guessable, or injected markup could carry its own script
+export function createNonce(): string {
+    return crypto.randomBytes(16).toString('base64');
+}
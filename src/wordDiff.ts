@@ -0,0 +1,57 @@
+export interface DiffSegment {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+// Above this many token pairs the LCS table gets too large; fall back to a replace
+const MAX_LCS_CELLS = 4_000_000;
+
+// Word-level diff (whitespace kept with the words) using a longest common subsequence
+export function diffWords(before: string, after: string): DiffSegment[] {
+    const a = before.match(/\s+|[^\s]+/g) || [];
+    const b = after.match(/\s+|[^\s]+/g) || [];
+
+    if (a.length * b.length > MAX_LCS_CELLS) {
+        return [{ type: 'removed', text: before }, { type: 'added', text: after }].filter(segment => segment.text) as DiffSegment[];
+    }
+
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegment['type'], text: string) => {
+        const last = segments[segments.length - 1];
+        if (last && last.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('equal', a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) {
+        push('removed', a[i++]);
+    }
+    while (j < b.length) {
+        push('added', b[j++]);
+    }
+
+    return segments;
+}
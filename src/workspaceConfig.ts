@@ -0,0 +1,199 @@
+import { JsonSchema, validateJsonSchema } from './jsonSchema';
+import { OptimizationPolicy } from './optimizer';
+import { PlaceholderMismatchMode, PlaceholderSyntax } from './placeholders';
+import { isProviderId } from './providers';
+import { parseYaml } from './yaml';
+
+// Looked up in the first workspace folder, in this order
+export const WORKSPACE_CONFIG_FILES = ['.promptious.json', '.promptious.yaml', '.promptious.yml'];
+
+export interface PromptiousPreset {
+    description?: string;
+    provider?: string;
+    model?: string;
+    // The model the optimized prompt will run on, e.g. "claude" or "llama3.1:8b"
+    targetModel?: string;
+    temperature?: number;
+    template?: string;
+    techniques?: { force?: string[]; forbid?: string[] };
+    maxLength?: number;
+    outputLanguage?: string;
+}
+
+export interface WorkspaceConfig extends Omit<PromptiousPreset, 'description'> {
+    autoCopy?: boolean;
+    showNotifications?: boolean;
+    placeholders?: { syntaxes?: PlaceholderSyntax[]; patterns?: string[]; onMismatch?: PlaceholderMismatchMode };
+    presets?: Record<string, PromptiousPreset>;
+}
+
+export type ConfigSource = 'default' | 'user' | 'workspaceFile' | 'workspace' | 'preset';
+
+// Lowest to highest precedence
+export const CONFIG_PRECEDENCE: ConfigSource[] = ['default', 'user', 'workspaceFile', 'workspace', 'preset'];
+
+export const CONFIG_SOURCE_LABELS: Record<ConfigSource, string> = {
+    default: 'Default',
+    user: 'User settings',
+    workspaceFile: 'Workspace file',
+    workspace: 'Workspace settings',
+    preset: 'Preset'
+};
+
+export type ConfigLayers<T> = Partial<Record<ConfigSource, T>>;
+
+export interface ResolvedValue<T> {
+    value: T | undefined;
+    source?: ConfigSource;
+    layers: ConfigLayers<T>;
+}
+
+export interface EffectiveConfig {
+    provider: ResolvedValue<string>;
+    model: ResolvedValue<string>;
+    targetModel: ResolvedValue<string>;
+    template: ResolvedValue<string>;
+    temperature: ResolvedValue<number>;
+    autoCopy: ResolvedValue<boolean>;
+    showNotifications: ResolvedValue<boolean>;
+    forceTechniques: ResolvedValue<string[]>;
+    forbidTechniques: ResolvedValue<string[]>;
+    maxLength: ResolvedValue<number>;
+    outputLanguage: ResolvedValue<string>;
+    placeholderSyntaxes: ResolvedValue<PlaceholderSyntax[]>;
+    placeholderPatterns: ResolvedValue<string[]>;
+    placeholderMismatch: ResolvedValue<PlaceholderMismatchMode>;
+}
+
+export interface LoadedWorkspaceConfig {
+    fileName: string;
+    config: WorkspaceConfig;
+    errors: string[];
+}
+
+// The highest layer with a value wins
+export function resolveLayers<T>(layers: ConfigLayers<T>): ResolvedValue<T> {
+    const source = [...CONFIG_PRECEDENCE].reverse().find(layer => layers[layer] !== undefined);
+    return { value: source ? layers[source] : undefined, source, layers };
+}
+
+// Settings that decide where requests carrying the API key go, which
+// certificates they trust and what the pre-send scan catches. A cloned
+// repository's workspace settings must not change them, so only the user layer
+// counts; package.json declares them machine-scoped to match.
+export const MACHINE_SETTINGS = [
+    'openai.baseUrl',
+    'azure.endpoint',
+    'anthropic.baseUrl',
+    'ollama.baseUrl',
+    'openaiCompatible.baseUrl',
+    'http.caCertificates',
+    'scan.enabled',
+    'scan.disabledRules',
+    'scan.rules'
+];
+
+export function resolveMachineSetting<T>(layers: ConfigLayers<T>): ResolvedValue<T> {
+    return resolveLayers<T>({ default: layers.default, user: layers.user });
+}
+
+// The default, user and workspace layers of a `promptious.*` setting
+export type SettingLayers = (settingKey: string) => ConfigLayers<unknown>;
+
+// Merge each setting with the workspace file and preset:
+// default < user settings < workspace file < workspace settings < preset.
+// Without settings, as on the command line, only the file and preset apply.
+export function resolveEffectiveConfig(file: WorkspaceConfig, presetName?: string, settings?: SettingLayers): EffectiveConfig {
+    const preset = presetName ? file.presets?.[presetName] : undefined;
+    const layered = <T>(settingKey: string | undefined, fileValue: T | undefined, presetValue: T | undefined): ResolvedValue<T> => resolveLayers<T>({
+        ...settingKey && settings ? settings(settingKey) as ConfigLayers<T> : {},
+        workspaceFile: fileValue,
+        preset: presetValue
+    });
+    const provider = layered<string>('provider', file.provider, preset?.provider);
+    const providerId = provider.value && isProviderId(provider.value) ? provider.value : 'openai';
+
+    // `promptious.model` predates the provider setting and stays the OpenAI model;
+    // a model from the file or preset only applies to the provider it names
+    const modelKey = providerId === 'openai' ? 'model' : providerId === 'azure' ? 'azure.deployment' : `${providerId}.model`;
+    const appliesTo = (source?: { provider?: string }) => !source?.provider || source.provider === providerId;
+
+    return {
+        provider,
+        model: layered<string>(modelKey, appliesTo(file) ? file.model : undefined, appliesTo(preset) ? preset?.model : undefined),
+        targetModel: layered<string>('targetModel', file.targetModel, preset?.targetModel),
+        template: layered<string>('template', file.template, preset?.template),
+        temperature: layered<number>(undefined, file.temperature, preset?.temperature),
+        autoCopy: layered<boolean>('autoCopy', file.autoCopy, undefined),
+        showNotifications: layered<boolean>('showNotifications', file.showNotifications, undefined),
+        forceTechniques: layered<string[]>(undefined, file.techniques?.force, preset?.techniques?.force),
+        forbidTechniques: layered<string[]>(undefined, file.techniques?.forbid, preset?.techniques?.forbid),
+        maxLength: layered<number>(undefined, file.maxLength, preset?.maxLength),
+        outputLanguage: layered<string>(undefined, file.outputLanguage, preset?.outputLanguage),
+        placeholderSyntaxes: layered<PlaceholderSyntax[]>('placeholders.syntaxes', file.placeholders?.syntaxes, undefined),
+        placeholderPatterns: layered<string[]>('placeholders.patterns', file.placeholders?.patterns, undefined),
+        placeholderMismatch: layered<PlaceholderMismatchMode>('placeholders.onMismatch', file.placeholders?.onMismatch, undefined)
+    };
+}
+
+// Invalid files are reported and ignored as a whole rather than half-applied
+export function parseWorkspaceConfig(text: string, fileName: string, schema: JsonSchema): LoadedWorkspaceConfig {
+    let raw: unknown;
+    try {
+        raw = /\.json$/i.test(fileName) ? JSON.parse(text) : parseYaml(text) ?? {};
+    } catch (error) {
+        return { fileName, config: {}, errors: [error instanceof Error ? error.message : String(error)] };
+    }
+
+    const errors = validateJsonSchema(raw, schema);
+    return { fileName, config: errors.length ? {} : raw as WorkspaceConfig, errors };
+}
+
+export function effectiveConfigToPolicy(effective: EffectiveConfig): OptimizationPolicy {
+    return {
+        forceTechniques: effective.forceTechniques.value,
+        forbidTechniques: effective.forbidTechniques.value,
+        maxLength: effective.maxLength.value,
+        outputLanguage: effective.outputLanguage.value,
+        placeholders: {
+            syntaxes: effective.placeholderSyntaxes.value,
+            patterns: effective.placeholderPatterns.value,
+            onMismatch: effective.placeholderMismatch.value
+        }
+    };
+}
+
+const formatValue = (value: unknown) => value === undefined ? '—' : `\`${JSON.stringify(value)}\``;
+
+export function effectiveConfigToMarkdown(
+    effective: EffectiveConfig,
+    file: LoadedWorkspaceConfig | undefined,
+    presetName?: string
+): string {
+    const columns = CONFIG_PRECEDENCE.map(source => CONFIG_SOURCE_LABELS[source]);
+    const rows = Object.entries(effective).map(([key, resolved]: [string, ResolvedValue<unknown>]) =>
+        `| \`${key}\` | ${formatValue(resolved.value)} | ${resolved.source ? CONFIG_SOURCE_LABELS[resolved.source] : '—'} | ${CONFIG_PRECEDENCE.map(source => formatValue(resolved.layers[source])).join(' | ')} |`);
+    const presets = Object.entries(file?.config.presets || {});
+
+    return `# Promptious Effective Configuration
+
+**Workspace file:** ${file ? `\`${file.fileName}\`` : 'none'}  
+**Preset:** ${presetName || 'none'}
+
+Precedence, lowest to highest: ${columns.join(' → ')}.
+
+| Setting | Value | From | ${columns.join(' | ')} |
+| --- | --- | --- | ${columns.map(() => '---').join(' | ')} |
+${rows.join('\n')}
+${file?.errors.length ? `
+## Errors in ${file.fileName}
+
+The file is ignored until these are fixed:
+
+${file.errors.map(error => `- ${error}`).join('\n')}
+` : ''}${presets.length ? `
+## Presets
+
+${presets.map(([name, preset]) => `- **${name}**${preset.description ? ` — ${preset.description}` : ''}: ${formatValue({ ...preset, description: undefined })}`).join('\n')}
+` : ''}`;
+}
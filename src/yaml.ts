@@ -0,0 +1,321 @@
+// Parser and emitter for the YAML subset used by Promptious files (datasets,
+// config, fixtures, conversations): block maps and lists, scalars, quoted
+// strings, `|`/`>` block scalars and simple flow collections. Runtime dependencies are avoided
+// because they are not packaged with the extension.
+
+export class YamlError extends Error {
+    constructor(message: string, public readonly line: number) {
+        super(`${message} (line ${line + 1})`);
+        this.name = 'YamlError';
+    }
+}
+
+interface Line {
+    indent: number;
+    text: string;
+    index: number;
+}
+
+function stripComment(text: string): string {
+    let quote: string | undefined;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+            return text.slice(0, i).trimEnd();
+        }
+    }
+    return text.trimEnd();
+}
+
+function splitFlow(body: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let current = '';
+    for (const char of body) {
+        if (quote) {
+            quote = char === quote ? undefined : quote;
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '[' || char === '{') {
+            depth++;
+        } else if (char === ']' || char === '}') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            items.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    if (current.trim()) {
+        items.push(current.trim());
+    }
+    return items;
+}
+
+// Index of the `key:` separator, ignoring colons inside quotes or not followed by a space
+function findKeySeparator(text: string): number {
+    let quote: string | undefined;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            quote = char === quote ? undefined : quote;
+        } else if ((char === '"' || char === '\'') && i === 0) {
+            quote = char;
+        } else if (char === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+            return i;
+        } else if (char === '[' || char === '{') {
+            return -1;
+        }
+    }
+    return -1;
+}
+
+export function parseScalar(raw: string, line = 0): unknown {
+    const text = raw.trim();
+    if (text === '' || text === '~' || text === 'null') {
+        return null;
+    }
+    if (text === 'true' || text === 'false') {
+        return text === 'true';
+    }
+    if (/^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) {
+        return Number(text);
+    }
+    if (text.startsWith('"')) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            throw new YamlError('Invalid double-quoted string', line);
+        }
+    }
+    if (text.startsWith('\'')) {
+        if (!text.endsWith('\'') || text.length < 2) {
+            throw new YamlError('Invalid single-quoted string', line);
+        }
+        return text.slice(1, -1).replace(/''/g, '\'');
+    }
+    if (text.startsWith('[')) {
+        if (!text.endsWith(']')) {
+            throw new YamlError('Unterminated flow sequence', line);
+        }
+        return splitFlow(text.slice(1, -1)).map(item => parseScalar(item, line));
+    }
+    if (text.startsWith('{')) {
+        if (!text.endsWith('}')) {
+            throw new YamlError('Unterminated flow mapping', line);
+        }
+        const result: Record<string, unknown> = {};
+        for (const item of splitFlow(text.slice(1, -1))) {
+            const separator = item.indexOf(':');
+            if (separator < 0) {
+                throw new YamlError(`Expected "key: value" in flow mapping, got "${item}"`, line);
+            }
+            result[String(parseScalar(item.slice(0, separator), line))] = parseScalar(item.slice(separator + 1), line);
+        }
+        return result;
+    }
+    return text;
+}
+
+class Parser {
+    private position = 0;
+
+    constructor(private readonly lines: Line[], private readonly raw: string[]) {}
+
+    parse(): unknown {
+        if (!this.lines.length) {
+            return null;
+        }
+        const value = this.parseBlock(this.lines[0].indent);
+        if (this.position < this.lines.length) {
+            throw new YamlError('Unexpected indentation', this.lines[this.position].index);
+        }
+        return value;
+    }
+
+    private parseBlock(indent: number): unknown {
+        const first = this.lines[this.position];
+        return first.text.startsWith('- ') || first.text === '-' ? this.parseList(indent) : this.parseMap(indent);
+    }
+
+    private parseList(indent: number): unknown[] {
+        const items: unknown[] = [];
+        while (this.position < this.lines.length) {
+            const line = this.lines[this.position];
+            if (line.indent < indent) {
+                break;
+            }
+            if (line.indent > indent || !(line.text.startsWith('- ') || line.text === '-')) {
+                throw new YamlError('Unexpected content in list', line.index);
+            }
+
+            const rest = line.text.slice(1).trimStart();
+            if (!rest) {
+                this.position++;
+                items.push(this.parseNested(indent));
+            } else if (findKeySeparator(rest) > 0) {
+                // `- key: value` starts a map whose keys align with `key`
+                const itemIndent = indent + (line.text.length - rest.length);
+                this.lines[this.position] = { indent: itemIndent, text: rest, index: line.index };
+                items.push(this.parseMap(itemIndent));
+            } else {
+                this.position++;
+                items.push(this.parseValue(rest, indent, line.index));
+            }
+        }
+        return items;
+    }
+
+    private parseMap(indent: number): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+        while (this.position < this.lines.length) {
+            const line = this.lines[this.position];
+            if (line.indent < indent) {
+                break;
+            }
+            if (line.indent > indent) {
+                throw new YamlError('Unexpected indentation', line.index);
+            }
+
+            const separator = findKeySeparator(line.text);
+            if (separator <= 0) {
+                throw new YamlError(`Expected "key: value", got "${line.text}"`, line.index);
+            }
+            const key = String(parseScalar(line.text.slice(0, separator), line.index));
+            const rest = line.text.slice(separator + 1).trim();
+            this.position++;
+            result[key] = rest ? this.parseValue(rest, indent, line.index) : this.parseNested(indent);
+        }
+        return result;
+    }
+
+    // Value of a `key:` or `-` with nothing after it: a nested block, or null
+    private parseNested(parentIndent: number): unknown {
+        const next = this.lines[this.position];
+        if (!next || next.indent < parentIndent || (next.indent === parentIndent && !next.text.startsWith('-'))) {
+            return null;
+        }
+        return this.parseBlock(next.indent);
+    }
+
+    private parseValue(rest: string, parentIndent: number, index: number): unknown {
+        const block = /^([|>])([-+]?)$/.exec(rest);
+        return block ? this.parseBlockScalar(block[1] === '>', block[2], parentIndent, index) : parseScalar(rest, index);
+    }
+
+    // `|` keeps newlines, `>` folds them; `-` strips the final newline
+    private parseBlockScalar(folded: boolean, chomp: string, parentIndent: number, index: number): string {
+        const body: string[] = [];
+        let blockIndent: number | undefined;
+        let rawIndex = index + 1;
+
+        for (; rawIndex < this.raw.length; rawIndex++) {
+            const text = this.raw[rawIndex];
+            if (!text.trim()) {
+                body.push('');
+                continue;
+            }
+            const indent = text.length - text.trimStart().length;
+            if (indent <= parentIndent) {
+                break;
+            }
+            blockIndent = blockIndent ?? indent;
+            body.push(text.slice(Math.min(indent, blockIndent)));
+        }
+
+        // Skip the structural lines that belonged to the block scalar
+        while (this.position < this.lines.length && this.lines[this.position].index < rawIndex) {
+            this.position++;
+        }
+
+        while (body.length && body[body.length - 1] === '') {
+            body.pop();
+        }
+        const text = folded ? body.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 ') : body.join('\n');
+        return chomp === '-' ? text : `${text}\n`;
+    }
+}
+
+export function parseYaml(text: string): unknown {
+    const raw = text.replace(/^﻿/, '').split(/\r?\n/);
+    const lines: Line[] = [];
+    raw.forEach((rawLine, index) => {
+        if (/^\s*---\s*$/.test(rawLine) && !lines.length) {
+            return;
+        }
+        const content = stripComment(rawLine);
+        if (content.trim()) {
+            if (/^\s*\t/.test(content)) {
+                throw new YamlError('Tabs are not allowed for indentation', index);
+            }
+            lines.push({ indent: content.length - content.trimStart().length, text: content.trim(), index });
+        }
+    });
+    return new Parser(lines, raw).parse();
+}
+
+const isMap = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Plain when it reads back as the same string, double-quoted otherwise
+function formatScalar(value: unknown): string {
+    if (value === null || value === undefined) {
+        return 'null';
+    }
+    if (typeof value !== 'string') {
+        return String(value);
+    }
+    const plain = value === value.trim() && !/: | #|[\n\t]|:$|^[-?[\]{},&*!|>'"%@`#]/.test(value) && parseScalar(value) === value;
+    return plain ? value : JSON.stringify(value);
+}
+
+// `key:` or `-` followed by its value, on the same line when it is a scalar
+function emitEntry(head: string, value: unknown, childIndent: number): string[] {
+    if (Array.isArray(value) && value.length || isMap(value) && Object.keys(value).length) {
+        return [head, ...emitBlock(value, childIndent)];
+    }
+    if (Array.isArray(value) || isMap(value)) {
+        return [`${head} ${Array.isArray(value) ? '[]' : '{}'}`];
+    }
+    // Multi-line strings become block scalars unless they need exact whitespace
+    if (typeof value === 'string' && value.includes('\n')) {
+        const body = value.endsWith('\n') ? value.slice(0, -1) : value;
+        if (!/^\s/.test(body) && !/\n\s*$/.test(body) && !body.includes('\r') && !body.includes('\t')) {
+            const pad = ' '.repeat(childIndent);
+            return [`${head} ${body === value ? '|-' : '|'}`, ...body.split('\n').map(line => line ? pad + line : '')];
+        }
+    }
+    return [`${head} ${formatScalar(value)}`];
+}
+
+function emitBlock(value: unknown, indent: number): string[] {
+    const pad = ' '.repeat(indent);
+    if (Array.isArray(value)) {
+        return value.flatMap(item => {
+            if (isMap(item) && Object.keys(item).length) {
+                // `- key: value` with the remaining keys aligned under the first
+                const [first, ...rest] = emitBlock(item, indent + 2);
+                return [`${pad}- ${first.slice(indent + 2)}`, ...rest];
+            }
+            return emitEntry(`${pad}-`, item, indent + 2);
+        });
+    }
+    if (isMap(value)) {
+        return Object.entries(value).flatMap(([key, item]) => emitEntry(`${pad}${formatScalar(key)}:`, item, indent + 2));
+    }
+    return [`${pad}${formatScalar(value)}`];
+}
+
+export function stringifyYaml(value: unknown): string {
+    if (Array.isArray(value) && !value.length || isMap(value) && !Object.keys(value).length) {
+        return Array.isArray(value) ? '[]\n' : '{}\n';
+    }
+    return `${emitBlock(value, 0).join('\n')}\n`;
+}